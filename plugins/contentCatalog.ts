@@ -0,0 +1,245 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+import {
+  CONTENT_DIFFICULTIES,
+  CONTENT_ICONS,
+  type ContentDifficulty,
+  type ContentIconName,
+  type ContentItem,
+  type FlashcardRule
+} from '../src/utils/catalog';
+import { FrontMatterError, splitFrontMatter, type FrontMatter, type FrontMatterValue } from './frontMatter';
+
+// Builds the guide catalog from src/readmes: every Markdown file there is a guide, described by
+// its front matter. The catalog is checked on every build and dev-server load; the guides
+// themselves are compiled by plugins/guideCompiler.ts.
+
+const VIRTUAL_ID = 'virtual:content-catalog';
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+
+// Files in the readmes folder that are not guides
+const SUPPORT_FILES = ['index.ts'];
+
+const FIELDS = ['id', 'title', 'icon', 'category', 'tags', 'difficulty', 'order', 'flashcards', 'problems'];
+const DEFAULT_ICON: ContentIconName = 'FileText';
+const DEFAULT_CATEGORY = 'General';
+// Guide IDs end up in URLs and stored reading data
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// Rules shared by many guides, named in front matter instead of spelled out
+const FLASHCARD_PRESETS: Record<string, FlashcardRule> = {
+  // "## 1. What is an _Array_?" and the like
+  numbered: { level: 2, match: /^\d+\.\s/, strip: /^\d+\.\s+/ }
+};
+
+const isMap = (value: FrontMatterValue): value is Record<string, FrontMatterValue> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: FrontMatterValue) => JSON.stringify(value);
+
+const parsePattern = (value: FrontMatterValue, field: string, errors: string[]): RegExp | undefined => {
+  if (typeof value !== 'string') {
+    errors.push(`${field} must be a regular expression in quotes, found ${describe(value)}`);
+    return undefined;
+  }
+  try {
+    return new RegExp(value);
+  } catch (error) {
+    errors.push(`${field} is not a valid regular expression: ${(error as Error).message}`);
+    return undefined;
+  }
+};
+
+const parseFlashcards = (value: FrontMatterValue, errors: string[]): FlashcardRule | undefined => {
+  if (typeof value === 'string') {
+    const preset = FLASHCARD_PRESETS[value];
+    if (!preset) errors.push(`unknown flashcards preset "${value}"; use one of: ${Object.keys(FLASHCARD_PRESETS).join(', ')}`);
+    return preset;
+  }
+  if (!isMap(value)) {
+    errors.push(`flashcards must be a preset name or a map with level, match and strip, found ${describe(value)}`);
+    return undefined;
+  }
+  const { level, match, strip, ...rest } = value;
+  Object.keys(rest).forEach(key => errors.push(`unknown field "flashcards.${key}"; expected level, match or strip`));
+  if (typeof level !== 'number' || !Number.isInteger(level) || level < 1 || level > 6) {
+    errors.push(`flashcards.level must be a heading level from 1 to 6, found ${describe(level ?? null)}`);
+  }
+  const matchPattern = match === undefined ? undefined : parsePattern(match, 'flashcards.match', errors);
+  if (match === undefined) errors.push('flashcards.match is required');
+  const stripPattern = strip === undefined ? undefined : parsePattern(strip, 'flashcards.strip', errors);
+  return typeof level === 'number' && matchPattern
+    ? { level, match: matchPattern, ...(stripPattern ? { strip: stripPattern } : {}) }
+    : undefined;
+};
+
+// One guide's entry; problems with its front matter are added to `errors`
+const buildEntry = (filename: string, data: FrontMatter, body: string, errors: string[]): ContentItem => {
+  Object.keys(data)
+    .filter(key => !FIELDS.includes(key))
+    .forEach(key => errors.push(`unknown field "${key}"; expected one of: ${FIELDS.join(', ')}`));
+
+  const text = (key: string): string | undefined => {
+    const value = data[key];
+    if (value === undefined) return undefined;
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    errors.push(`${key} must be text, found ${describe(value)}`);
+    return undefined;
+  };
+
+  const id = text('id') ?? filename.replace(/\.md$/, '');
+  if (!ID_PATTERN.test(id)) {
+    errors.push(`ID "${id}" must be lower-case words joined by hyphens; rename the file or set "id"`);
+  }
+
+  // Without one, the guide's first heading names it
+  const title = text('title') ?? body.match(/^#\s+(.+)$/m)?.[1].trim();
+  if (!title) errors.push('has no title; set "title" or start the guide with a "# " heading');
+
+  const icon = text('icon') ?? DEFAULT_ICON;
+  if (!CONTENT_ICONS.includes(icon as ContentIconName)) {
+    errors.push(`unknown icon "${icon}"; use one of: ${CONTENT_ICONS.join(', ')} (or add it to src/utils/catalog.ts and contentIcons.ts)`);
+  }
+
+  const tags = data.tags ?? [];
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    errors.push(`tags must be a list of words, found ${describe(tags)}`);
+  }
+
+  const difficulty = text('difficulty') ?? null;
+  if (difficulty !== null && !CONTENT_DIFFICULTIES.includes(difficulty as ContentDifficulty)) {
+    errors.push(`unknown difficulty "${difficulty}"; use one of: ${CONTENT_DIFFICULTIES.join(', ')}`);
+  }
+
+  const order = data.order ?? null;
+  if (order !== null && typeof order !== 'number') errors.push(`order must be a number, found ${describe(order)}`);
+
+  const problems = data.problems ?? false;
+  if (typeof problems !== 'boolean') errors.push(`problems must be true or false, found ${describe(problems)}`);
+
+  const flashcards = data.flashcards === undefined ? undefined : parseFlashcards(data.flashcards, errors);
+
+  return {
+    id,
+    title: title ?? id,
+    filename,
+    icon: icon as ContentIconName,
+    category: text('category') ?? DEFAULT_CATEGORY,
+    tags: Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    difficulty: difficulty as ContentDifficulty | null,
+    order: typeof order === 'number' ? order : null,
+    ...(flashcards ? { flashcards } : {}),
+    ...(problems === true ? { problems } : {})
+  };
+};
+
+// Every file under `dir`, relative to it with forward slashes
+const listFiles = (dir: string, prefix = ''): string[] =>
+  fs.readdirSync(path.join(dir, prefix), { withFileTypes: true }).flatMap(entry => {
+    const name = prefix ? `${prefix}/${entry.name}` : entry.name;
+    return entry.isDirectory() ? listFiles(dir, name) : [name];
+  });
+
+const readCatalog = (dir: string): { items: ContentItem[]; errors: string[]; files: string[] } => {
+  const errors: string[] = [];
+  const items: ContentItem[] = [];
+  const files = listFiles(dir);
+  const relative = (file: string) => path.posix.join(path.relative(process.cwd(), dir).split(path.sep).join('/'), file);
+
+  for (const file of files) {
+    if (SUPPORT_FILES.includes(file)) continue;
+    if (file.includes('/') || !file.endsWith('.md')) {
+      errors.push(`${relative(file)}: is not part of the catalog; only .md files directly in the folder are guides, so move or remove it`);
+      continue;
+    }
+    const fileErrors: string[] = [];
+    try {
+      const { data, body } = splitFrontMatter(fs.readFileSync(path.join(dir, file), 'utf8'));
+      items.push(buildEntry(file, data, body, fileErrors));
+    } catch (error) {
+      if (!(error instanceof FrontMatterError)) throw error;
+      fileErrors.push(`line ${error.line}: ${error.message}`);
+    }
+    errors.push(...fileErrors.map(message => `${relative(file)}: ${message}`));
+  }
+
+  const filesById = new Map<string, string[]>();
+  for (const item of items) filesById.set(item.id, [...(filesById.get(item.id) ?? []), item.filename]);
+  for (const [id, names] of filesById) {
+    if (names.length > 1) errors.push(`duplicate ID "${id}" in ${names.map(relative).join(' and ')}; set a distinct "id" in one of them`);
+  }
+
+  items.sort(
+    (a, b) =>
+      (a.order ?? Number.POSITIVE_INFINITY) - (b.order ?? Number.POSITIVE_INFINITY) || a.title.localeCompare(b.title)
+  );
+  return { items, errors, files: files.map(file => path.join(dir, file)) };
+};
+
+// Catalog entries as JavaScript; regular expressions stay literals
+const toSource = (value: unknown): string => {
+  if (value instanceof RegExp) return String(value);
+  if (Array.isArray(value)) return `[${value.map(toSource).join(', ')}]`;
+  if (typeof value === 'object' && value !== null) {
+    return `{ ${Object.entries(value).map(([key, entry]) => `${JSON.stringify(key)}: ${toSource(entry)}`).join(', ')} }`;
+  }
+  return JSON.stringify(value);
+};
+
+const catalogModule = (dir: string): { source: string; files: string[] } => {
+  const { items, errors, files } = readCatalog(dir);
+  if (errors.length > 0) {
+    throw new Error(`The content catalog has ${errors.length} problem${errors.length !== 1 ? 's' : ''}:\n  ${errors.join('\n  ')}`);
+  }
+  return { source: `export const contentItems = [\n  ${items.map(toSource).join(',\n  ')}\n];\n`, files };
+};
+
+export function contentCatalog(readmesDir: string): Plugin {
+  const dir = path.resolve(readmesDir);
+  // What the catalog module was last built as
+  let lastSource: string | undefined;
+
+  return {
+    name: 'content-catalog',
+    enforce: 'pre',
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : undefined;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_ID) return undefined;
+      const { source, files } = catalogModule(dir);
+      files.forEach(file => this.addWatchFile(file));
+      lastSource = source;
+      return source;
+    },
+
+    // Editing a guide's front matter updates the catalog too; edits below it leave the catalog be
+    handleHotUpdate({ file, server, modules }) {
+      if (!file.startsWith(`${dir}${path.sep}`)) return undefined;
+      const catalog = server.moduleGraph.getModuleById(RESOLVED_ID);
+      if (!catalog) return undefined;
+      try {
+        if (catalogModule(dir).source === lastSource) return undefined;
+      } catch {
+        // Loading the catalog again reports the problem
+      }
+      server.moduleGraph.invalidateModule(catalog);
+      return [...modules, catalog];
+    },
+
+    // Added and removed guides change the catalog and the glob in readmes/index.ts
+    configureServer(server) {
+      const reload = (file: string) => {
+        if (!file.startsWith(`${dir}${path.sep}`)) return;
+        const catalog = server.moduleGraph.getModuleById(RESOLVED_ID);
+        if (catalog) server.moduleGraph.invalidateModule(catalog);
+        server.ws.send({ type: 'full-reload' });
+      };
+      server.watcher.on('add', reload);
+      server.watcher.on('unlink', reload);
+    }
+  };
+}
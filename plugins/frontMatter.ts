@@ -0,0 +1,121 @@
+// The YAML front matter of the guides: `key: value` pairs, flow lists (`[a, b]`) and one level
+// of nested maps or block lists. That is all the catalog needs, so no YAML library is pulled in.
+
+export type FrontMatterValue = string | number | boolean | null | FrontMatterValue[] | { [key: string]: FrontMatterValue };
+export type FrontMatter = Record<string, FrontMatterValue>;
+
+export class FrontMatterError extends Error {
+  // One-based line in the file
+  constructor(message: string, public line: number) {
+    super(message);
+    this.name = 'FrontMatterError';
+  }
+}
+
+const FENCE = /^---\s*$/;
+const KEY_LINE = /^([A-Za-z_][\w-]*):(?:\s+(.*))?$/;
+
+// Comma-separated items of a flow list, leaving commas inside quotes alone
+const splitFlowItems = (text: string): string[] => {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim() || items.length > 0) items.push(current);
+  return items;
+};
+
+const parseScalar = (raw: string, line: number): FrontMatterValue => {
+  const text = raw.trim();
+  if (text.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(text)) throw new FrontMatterError(`unterminated string ${text}`, line);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      throw new FrontMatterError(`malformed string ${text}`, line);
+    }
+  }
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) throw new FrontMatterError(`unterminated list ${text}`, line);
+    return splitFlowItems(text.slice(1, -1)).map(item => {
+      if (!item.trim()) throw new FrontMatterError(`empty item in list ${text}`, line);
+      return parseScalar(item, line);
+    });
+  }
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (text === 'null' || text === '~' || text === '') return null;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  // A bare string ends at a comment
+  return text.replace(/\s+#.*$/, '');
+};
+
+export const parseFrontMatter = (lines: string[], firstLine: number): FrontMatter => {
+  const data: FrontMatter = {};
+  let parent: { key: string; value: FrontMatterValue[] | Record<string, FrontMatterValue> | null } | null = null;
+
+  lines.forEach((text, index) => {
+    const line = firstLine + index;
+    if (!text.trim() || text.trim().startsWith('#')) return;
+    if (/^\t/.test(text)) throw new FrontMatterError('indent with spaces, not tabs', line);
+
+    const indented = /^\s/.test(text);
+    if (!indented) {
+      const match = text.match(KEY_LINE);
+      if (!match) throw new FrontMatterError(`expected "key: value", found "${text.trim()}"`, line);
+      const [, key, value] = match;
+      if (key in data) throw new FrontMatterError(`"${key}" is set twice`, line);
+      // An empty value opens a nested map or block list on the lines below
+      data[key] = value === undefined ? null : parseScalar(value, line);
+      parent = value === undefined ? { key, value: null } : null;
+      return;
+    }
+
+    if (!parent) throw new FrontMatterError(`unexpected indentation before "${text.trim()}"`, line);
+    const entry = text.trim();
+    if (entry.startsWith('- ') || entry === '-') {
+      if (parent.value !== null && !Array.isArray(parent.value)) {
+        throw new FrontMatterError(`"${parent.key}" mixes list items and keys`, line);
+      }
+      parent.value = [...(parent.value ?? []), parseScalar(entry.slice(1), line)];
+    } else {
+      const match = entry.match(KEY_LINE);
+      if (!match || match[2] === undefined) {
+        throw new FrontMatterError(`expected "key: value" under "${parent.key}", found "${entry}"`, line);
+      }
+      if (Array.isArray(parent.value)) throw new FrontMatterError(`"${parent.key}" mixes list items and keys`, line);
+      const [, key, value] = match;
+      if (parent.value && key in parent.value) throw new FrontMatterError(`"${parent.key}.${key}" is set twice`, line);
+      parent.value = { ...parent.value, [key]: parseScalar(value, line) };
+    }
+    data[parent.key] = parent.value;
+  });
+
+  return data;
+};
+
+// Front matter and the Markdown after it; files without front matter have an empty one
+export const splitFrontMatter = (source: string): { data: FrontMatter; body: string } => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  if (!FENCE.test(lines[0] ?? '')) return { data: {}, body: source };
+  const end = lines.findIndex((line, index) => index > 0 && FENCE.test(line));
+  if (end < 0) throw new FrontMatterError('front matter is not closed with "---"', 1);
+  return {
+    data: parseFrontMatter(lines.slice(1, end), 2),
+    // The blank lines separating it from the guide go too, so the guide reads as it did without it
+    body: lines.slice(end + 1).join('\n').replace(/^\n+/, '')
+  };
+};
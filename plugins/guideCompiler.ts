@@ -0,0 +1,70 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+import { compileGuide, type Document } from '../src/utils/compileGuide';
+import { indexGuide } from '../src/utils/search/searchIndex';
+import { FrontMatterError, splitFrontMatter } from './frontMatter';
+
+// Compiles the guides in src/readmes ahead of time, so the app never parses Markdown for them:
+//   guide.md?compiled  the guide as a `Document`: its AST, sections, word counts and task items
+//   guide.md?search    its share of the search index, for the search worker
+// Both leave out the front matter, which plugins/contentCatalog.ts reads.
+
+// Guides on the dev server are sent compiled to the page under this event
+const UPDATE_EVENT = 'guide:update';
+
+const OUTPUTS = ['compiled', 'search'] as const;
+type Output = (typeof OUTPUTS)[number];
+
+const outputOf = (id: string): Output | undefined => {
+  const query = new URLSearchParams(id.split('?')[1] ?? '');
+  return OUTPUTS.find(output => query.has(output));
+};
+
+const compileFile = (file: string): Document => {
+  try {
+    return compileGuide(splitFrontMatter(fs.readFileSync(file, 'utf8')).body);
+  } catch (error) {
+    if (!(error instanceof FrontMatterError)) throw error;
+    throw new Error(`${path.relative(process.cwd(), file)}: line ${error.line}: ${error.message}`);
+  }
+};
+
+// Large object literals are slower for the browser to parse than the same data as JSON
+const toModule = (value: unknown) => `export default JSON.parse(${JSON.stringify(JSON.stringify(value))});\n`;
+
+export function guideCompiler(readmesDir: string): Plugin {
+  const dir = path.resolve(readmesDir);
+  const isGuide = (file: string) => path.dirname(file) === dir && file.endsWith('.md');
+
+  return {
+    name: 'guide-compiler',
+    enforce: 'pre',
+
+    load(id) {
+      const file = id.split('?')[0];
+      const output = outputOf(id);
+      if (!output || !isGuide(file)) return undefined;
+      const document = compileFile(file);
+      return toModule(output === 'compiled' ? document : indexGuide(document.content, document.sections));
+    },
+
+    // A saved guide goes to the open page as an event rather than reloading it; the search index
+    // picks it up on the next reload
+    handleHotUpdate({ file, server, modules }) {
+      if (!isGuide(file)) return undefined;
+      let document: Document;
+      try {
+        document = compileFile(file);
+      } catch {
+        // Reloading shows the error
+        return undefined;
+      }
+      const own = modules.filter(module => module.file === file);
+      own.forEach(module => server.moduleGraph.invalidateModule(module));
+      server.ws.send({ type: 'custom', event: UPDATE_EVENT, data: { filename: path.basename(file), document } });
+      // Still updates the catalog when plugins/contentCatalog.ts added it
+      return modules.filter(module => !own.includes(module));
+    }
+  };
+}
@@ -0,0 +1,66 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { transformWithEsbuild, type Plugin } from 'vite';
+
+// Emits the service worker (src/workers/serviceWorker.ts) as sw.js next to index.html, with the
+// files of this build to precache and a version that changes whenever any of them does.
+
+// Guide chunks come from these modules, see plugins/guideCompiler.ts
+const GUIDE_MODULE = /\/([^/?]+\.md)\?compiled$/;
+// KaTeX ships each font in three formats; every browser with service workers takes woff2
+const SKIPPED_FILES = /\.(woff|ttf|map)$/;
+
+// Every file under `dir`, relative to it with forward slashes
+const listFiles = (dir: string, prefix = ''): string[] =>
+  fs.existsSync(path.join(dir, prefix))
+    ? fs.readdirSync(path.join(dir, prefix), { withFileTypes: true }).flatMap(entry => {
+        const name = prefix ? `${prefix}/${entry.name}` : entry.name;
+        return entry.isDirectory() ? listFiles(dir, name) : [name];
+      })
+    : [];
+
+export function serviceWorker(entry: string): Plugin {
+  let publicDir = '';
+
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    // After index.html has been emitted
+    enforce: 'post',
+
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+
+    async generateBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      const shellFiles: string[] = [];
+      const guideChunks: Record<string, string> = {};
+
+      for (const file of Object.values(bundle).sort((a, b) => a.fileName.localeCompare(b.fileName))) {
+        if (SKIPPED_FILES.test(file.fileName)) continue;
+        hash.update(file.fileName).update(file.type === 'chunk' ? file.code : file.source);
+        const guide = file.type === 'chunk' ? file.facadeModuleId?.match(GUIDE_MODULE)?.[1] : undefined;
+        if (guide) guideChunks[guide] = file.fileName;
+        else shellFiles.push(file.fileName);
+      }
+      for (const file of listFiles(publicDir).sort()) {
+        hash.update(file).update(fs.readFileSync(path.join(publicDir, file)));
+        shellFiles.push(file);
+      }
+
+      const source = fs.readFileSync(path.resolve(entry), 'utf8');
+      const { code } = await transformWithEsbuild(source, entry, {
+        loader: 'ts',
+        minify: true,
+        define: {
+          BUILD_VERSION: JSON.stringify(hash.digest('hex').slice(0, 12)),
+          SHELL_FILES: JSON.stringify(shellFiles),
+          GUIDE_CHUNKS: JSON.stringify(guideChunks)
+        }
+      });
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: code });
+    }
+  };
+}
@@ -1,53 +1,139 @@
-import React, { useState, useEffect } from 'react';
-import { Search, BookOpen, Moon, Sun, FileText, Code, Database, Globe, Zap, Settings, ChevronDown, Server, Cloud } from 'lucide-react';
+import { Fragment, useState, useEffect, useMemo, useRef } from 'react';
+import { Search, TextSearch, Bookmark, Highlighter, Brain, Target, BookOpen, Moon, Sun, FileText, Settings, ChevronDown, AlertTriangle, X, HardDriveDownload, WifiOff } from 'lucide-react';
 import { DocumentViewer } from './components/DocumentViewer';
 import { TableOfContents } from './components/TableOfContents';
 import { SearchPanel } from './components/SearchPanel';
 import { NotesPanel } from './components/NotesPanel';
+import { BookmarksPanel } from './components/BookmarksPanel';
+import { FindBar } from './components/FindBar';
+import { HighlightLayer } from './components/HighlightLayer';
+import { HighlightsPanel } from './components/HighlightsPanel';
+import { FlashcardReview } from './components/FlashcardReview';
+import { ProblemTracker } from './components/ProblemTracker';
+import { NotFound } from './components/NotFound';
 import { ProgressBar } from './components/ProgressBar';
-import { loadMarkdownContent, contentItems, type Document } from './utils/documentLoader';
-
-// Icon mapping for content items
-const iconMap: Record<string, React.ComponentType<any>> = {
-  BookOpen,
-  Code,
-  Server,
-  Database,
-  Globe,
-  Zap,
-  Cloud
-};
+import { StorageNotice } from './components/StorageNotice';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { contentItems, prefetchDocument, useDocument } from './utils/documentLoader';
+import { contentIcons } from './utils/contentIcons';
+import { findSectionInView, offsetFromHeading, scrollToHeading } from './utils/headingScroll';
+import { refreshBookmarkTitles, toggleBookmark } from './utils/bookmarks';
+import { countNotesBySection, refreshNoteSectionTitles } from './utils/notes';
+import {
+  completionPercent,
+  documentProgress,
+  refreshSectionProgress,
+  setSectionStatus,
+  useSectionDwell
+} from './utils/sectionProgress';
+import { countDueCards, localDate } from './utils/flashcards';
+import type { HighlightAnchors, HighlightFocusRequest } from './utils/highlights';
+import type { FindRequest } from './utils/findInDocument';
+import { useRoute, navigate, documentPath, DEFAULT_CONTENT_ID } from './utils/router';
+import { getUserState, setUserState, useUserState } from './utils/storage/userStore';
+import { useOfflineStatus } from './utils/offline';
+import type { SectionStatus } from './utils/storage/schema';
+
+// Save the reading position once scrolling settles
+const READING_POSITION_DELAY_MS = 500;
 
 function App() {
-  const [isDarkMode, setIsDarkMode] = useState(false);
+  const [isDarkMode, setIsDarkMode] = useUserState('isDarkMode');
   const [activeSection, setActiveSection] = useState('');
-  const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [sidebarOpen, setSidebarOpen] = useUserState('sidebarOpen');
   const [searchOpen, setSearchOpen] = useState(false);
   const [notesOpen, setNotesOpen] = useState(false);
+  const [bookmarksOpen, setBookmarksOpen] = useState(false);
+  // Section a heading's note action asked to write about
+  const [noteSectionId, setNoteSectionId] = useState<string | null>(null);
   const [readingProgress, setReadingProgress] = useState(0);
-  const [bookmarks, setBookmarks] = useState<string[]>([]);
-  const [currentDocument, setCurrentDocument] = useState<Document | null>(null);
-  const [currentContentId, setCurrentContentId] = useState('full-stack-guide');
+  const [bookmarks, setBookmarks] = useUserState('bookmarks');
+  const [notes] = useUserState('notes');
+  const [sectionProgress, setSectionProgress] = useUserState('sectionProgress');
+  const [autoMarkRead, setAutoMarkRead] = useUserState('autoMarkRead');
   const [contentDropdownOpen, setContentDropdownOpen] = useState(false);
-  const [loading, setLoading] = useState(true);
+  const [missingSectionId, setMissingSectionId] = useState<string | null>(null);
+  const [findOpen, setFindOpen] = useState(false);
+  const [findRequest, setFindRequest] = useState<FindRequest | null>(null);
+  const [highlightsOpen, setHighlightsOpen] = useState(false);
+  const [highlightAnchors, setHighlightAnchors] = useState<HighlightAnchors>(new Map());
+  const [highlightFocus, setHighlightFocus] = useState<HighlightFocusRequest | null>(null);
+  const [flashcardsOpen, setFlashcardsOpen] = useState(false);
+  const [flashcardSchedules] = useUserState('flashcards');
+  const [flashcardDecks] = useUserState('flashcardDecks');
+  const [problemTrackerOpen, setProblemTrackerOpen] = useState(false);
+  const documentContainerRef = useRef<HTMLDivElement>(null);
+  // Set when the find bar will scroll to a search match, so the section scroll does not fight it
+  const findScrollsRef = useRef(false);
+
+  // The URL decides which guide and section are shown
+  const route = useRoute();
+  const currentContentId = route.type === 'document' ? route.contentId : '';
+  const routeSectionId = route.type === 'document' ? route.sectionId : '';
 
-  // Load initial document
+  // Reopen the last-read guide at /, falling back to the default one
   useEffect(() => {
-    const loadInitialDocument = async () => {
-      setLoading(true);
-      try {
-        const document = await loadMarkdownContent(currentContentId);
-        setCurrentDocument(document);
-      } catch (error) {
-        console.error('Failed to load initial document:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
+    if (route.type !== 'root') return;
+    const lastContentId = getUserState('lastContentId');
+    const contentId =
+      lastContentId && contentItems.some(item => item.id === lastContentId) ? lastContentId : DEFAULT_CONTENT_ID;
+    navigate(documentPath(contentId, route.sectionId), { replace: true });
+  }, [route]);
 
-    loadInitialDocument();
+  // The document named in the URL
+  const documentState = useDocument(currentContentId);
+  const loading = documentState.status === 'loading';
+  const currentDocument = documentState.status === 'ready' ? documentState.document : null;
+  // Guide that `currentDocument` was loaded for; null when it does not exist
+  const loadedContentId = documentState.status === 'missing' ? null : documentState.contentId;
+  const { online, offlineGuides } = useOfflineStatus();
+
+  useEffect(() => {
+    setActiveSection('');
   }, [currentContentId]);
 
+  // Bring stored titles and progress up to date with the guide as it is now
+  useEffect(() => {
+    if (!currentDocument || !loadedContentId) return;
+    setUserState('lastContentId', loadedContentId);
+    setUserState('bookmarks', previous => refreshBookmarkTitles(previous, loadedContentId, currentDocument.sections));
+    setUserState('notes', previous => refreshNoteSectionTitles(previous, loadedContentId, currentDocument.sections));
+    setUserState('sectionProgress', previous => refreshSectionProgress(previous, loadedContentId, currentDocument.sections));
+  }, [currentDocument, loadedContentId]);
+
+  useEffect(() => {
+    document.title = currentDocument ? `${currentDocument.title} | Study Docs` : 'Study Docs';
+  }, [currentDocument]);
+
+  // Follow the URL's section once its document has rendered: deep links, section links and back/forward
+  useEffect(() => {
+    if (loading || !currentDocument || loadedContentId !== currentContentId) return;
+    if (findScrollsRef.current) {
+      findScrollsRef.current = false;
+      setActiveSection(routeSectionId);
+      return;
+    }
+
+    const frame = requestAnimationFrame(() => {
+      if (!routeSectionId) {
+        // Without a section in the URL, continue where the reader left off
+        const position = getUserState('readingPositions')[currentContentId];
+        const restored =
+          position?.sectionId && position.sectionOffset !== undefined
+            ? scrollToHeading(position.sectionId, position.sectionOffset)
+            : false;
+        if (!restored) window.scrollTo(0, position?.scrollY ?? 0);
+        setMissingSectionId(null);
+      } else if (scrollToHeading(routeSectionId)) {
+        setActiveSection(routeSectionId);
+        setMissingSectionId(null);
+      } else {
+        setMissingSectionId(routeSectionId);
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [loading, currentDocument, loadedContentId, currentContentId, routeSectionId]);
+
   useEffect(() => {
     const handleScroll = () => {
       const scrollTop = window.pageYOffset;
@@ -60,6 +146,56 @@ function App() {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
+  // Remember the scroll position and section per guide
+  useEffect(() => {
+    if (!currentDocument || loadedContentId !== currentContentId) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleScroll = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const sectionId = findSectionInView(currentDocument.sections);
+        setUserState('readingPositions', positions => ({
+          ...positions,
+          [currentContentId]: {
+            scrollY: Math.round(window.scrollY),
+            sectionId,
+            sectionOffset: sectionId ? offsetFromHeading(sectionId) : undefined,
+            updatedAt: new Date().toISOString()
+          }
+        }));
+      }, READING_POSITION_DELAY_MS);
+    };
+
+    window.addEventListener('scroll', handleScroll);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('scroll', handleScroll);
+    };
+  }, [currentDocument, loadedContentId, currentContentId]);
+
+  useSectionDwell(
+    currentContentId,
+    loadedContentId === currentContentId ? currentDocument : null,
+    documentContainerRef,
+    autoMarkRead
+  );
+
+  // Ctrl+F opens the in-document find bar, which then handles repeated presses itself
+  useEffect(() => {
+    if (findOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'f') {
+        event.preventDefault();
+        setFindOpen(true);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [findOpen]);
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = () => {
@@ -72,35 +208,57 @@ function App() {
     }
   }, [contentDropdownOpen]);
 
-  const toggleBookmark = (sectionId: string) => {
-    setBookmarks(prev => 
-      prev.includes(sectionId) 
-        ? prev.filter(id => id !== sectionId)
-        : [...prev, sectionId]
-    );
+  const documentBookmarks = useMemo(
+    () => bookmarks.filter(bookmark => bookmark.contentId === currentContentId),
+    [bookmarks, currentContentId]
+  );
+  const bookmarkedSectionIds = useMemo(() => documentBookmarks.map(bookmark => bookmark.sectionId), [documentBookmarks]);
+
+  const staleHighlightCount = useMemo(
+    () => [...highlightAnchors.values()].filter(range => range === null).length,
+    [highlightAnchors]
+  );
+
+  const dueFlashcards = countDueCards(flashcardSchedules, flashcardDecks, localDate(new Date()));
+
+  const noteCounts = useMemo(() => countNotesBySection(notes, currentContentId), [notes, currentContentId]);
+
+  const handleSetSectionStatus = (sectionId: string, status: SectionStatus | undefined) =>
+    setSectionProgress(previous => setSectionStatus(previous, currentContentId, sectionId, status, 'manual'));
+
+  const openNotes = (sectionId: string | null) => {
+    setNoteSectionId(sectionId);
+    setNotesOpen(true);
   };
 
-  const handleContentChange = async (contentId: string) => {
-    if (contentId === currentContentId) return;
-    
-    setLoading(true);
+  const handleToggleBookmark = (sectionId: string) => {
+    const section = currentDocument?.sections.find(s => s.id === sectionId) ?? { id: sectionId, title: sectionId };
+    setBookmarks(prev => toggleBookmark(prev, currentContentId, section));
+  };
+
+  const handleContentChange = (contentId: string) => {
     setContentDropdownOpen(false);
-    setActiveSection('');
-    
-    try {
-      const document = await loadMarkdownContent(contentId);
-      setCurrentDocument(document);
-      setCurrentContentId(contentId);
-      window.scrollTo(0, 0);
-    } catch (error) {
-      console.error('Failed to load document:', error);
-    } finally {
-      setLoading(false);
+    if (contentId === currentContentId) return;
+    navigate(documentPath(contentId));
+  };
+
+  // Open a document at a section; with `matchText` the find bar scrolls to the match instead of the heading
+  const openSection = (contentId: string, sectionId: string, matchText?: string) => {
+    const path = documentPath(contentId, sectionId);
+    const isCurrentLocation = path === `${window.location.pathname}${window.location.hash}`;
+
+    if (matchText) {
+      setFindRequest({ query: matchText, sectionId });
+      setFindOpen(true);
+      findScrollsRef.current = !isCurrentLocation;
     }
+
+    if (!isCurrentLocation) navigate(path);
+    else if (!matchText) scrollToHeading(sectionId);
   };
 
   const currentContentItem = contentItems.find(item => item.id === currentContentId);
-  const IconComponent = currentContentItem ? iconMap[currentContentItem.icon] : BookOpen;
+  const IconComponent = currentContentItem ? contentIcons[currentContentItem.icon] : BookOpen;
 
   return (
     <div className={`min-h-screen transition-colors duration-300 ${
@@ -125,6 +283,17 @@ function App() {
                 <BookOpen className="w-6 h-6 text-blue-600" />
                 <h1 className="text-xl font-bold">Study Docs</h1>
               </div>
+              {!online && (
+                <span
+                  title="You are offline. Guides marked as available offline can still be opened."
+                  className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium ${
+                    isDarkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-600'
+                  }`}
+                >
+                  <WifiOff className="w-3.5 h-3.5" />
+                  <span>Offline</span>
+                </span>
+              )}
               
               {/* Content Dropdown */}
               <div className="relative">
@@ -153,21 +322,55 @@ function App() {
                     <div className="py-2 max-h-80 overflow-y-auto scrollbar-thin scrollbar-thumb-rounded ${
                       isDarkMode ? 'scrollbar-thumb-gray-600 scrollbar-track-gray-800' : 'scrollbar-thumb-gray-300 scrollbar-track-gray-100'
                     }">
-                      {contentItems.map((item) => {
-                        const ItemIcon = iconMap[item.icon];
+                      {contentItems.map((item, index) => {
+                        const ItemIcon = contentIcons[item.icon];
+                        const progress = documentProgress(sectionProgress, item.id);
+                        const percent = completionPercent(progress);
+                        // The catalog is in order, so a category's guides are listed together
+                        const startsCategory = index === 0 || contentItems[index - 1].category !== item.category;
+                        const availableOffline = offlineGuides?.has(item.filename) ?? false;
                         return (
-                          <button
-                            key={item.id}
-                            onClick={() => handleContentChange(item.id)}
-                            className={`w-full flex items-center space-x-3 px-4 py-3 text-left hover:bg-opacity-80 transition-colors ${
-                              item.id === currentContentId
-                                ? (isDarkMode ? 'bg-gray-800' : 'bg-gray-100')
-                                : (isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-50')
-                            }`}
-                          >
-                            {ItemIcon && <ItemIcon className="w-4 h-4" />}
-                            <span className="text-sm font-medium">{item.title}</span>
-                          </button>
+                          <Fragment key={item.id}>
+                            {startsCategory && (
+                              <div className={`px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide ${
+                                isDarkMode ? 'text-gray-500' : 'text-gray-400'
+                              }`}>
+                                {item.category}
+                              </div>
+                            )}
+                            <button
+                              onClick={() => handleContentChange(item.id)}
+                              onMouseEnter={() => prefetchDocument(item.id)}
+                              onFocus={() => prefetchDocument(item.id)}
+                              title={[item.difficulty, item.tags.join(', ')].filter(Boolean).join(' · ') || undefined}
+                              className={`w-full flex items-center space-x-3 px-4 py-3 text-left hover:bg-opacity-80 transition-colors ${
+                                !online && offlineGuides && !availableOffline ? 'opacity-50' : ''
+                              } ${
+                                item.id === currentContentId
+                                  ? (isDarkMode ? 'bg-gray-800' : 'bg-gray-100')
+                                  : (isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-50')
+                              }`}
+                            >
+                              <ItemIcon className="w-4 h-4 shrink-0" />
+                              <span className="flex-1 text-sm font-medium">{item.title}</span>
+                              {availableOffline && (
+                                <span title="Available offline" className={isDarkMode ? 'text-gray-500' : 'text-gray-400'}>
+                                  <HardDriveDownload className="w-3.5 h-3.5" />
+                                </span>
+                              )}
+                              {/* Guides never opened have no section count yet */}
+                              {progress.sectionCount > 0 && (
+                                <span
+                                  title={`${percent}% of sections studied`}
+                                  className={`text-xs tabular-nums ${
+                                    percent === 100 ? 'text-green-500' : isDarkMode ? 'text-gray-400' : 'text-gray-500'
+                                  }`}
+                                >
+                                  {percent}%
+                                </span>
+                              )}
+                            </button>
+                          </Fragment>
                         );
                       })}
                     </div>
@@ -178,6 +381,15 @@ function App() {
           </div>
 
           <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setFindOpen(!findOpen)}
+              title="Find in document (Ctrl+F)"
+              className={`p-2 rounded-lg hover:bg-opacity-80 transition-colors ${
+                isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+              }`}
+            >
+              <TextSearch className="w-5 h-5" />
+            </button>
             <button
               onClick={() => setSearchOpen(!searchOpen)}
               className={`p-2 rounded-lg hover:bg-opacity-80 transition-colors ${
@@ -187,7 +399,55 @@ function App() {
               <Search className="w-5 h-5" />
             </button>
             <button
-              onClick={() => setNotesOpen(!notesOpen)}
+              onClick={() => setHighlightsOpen(!highlightsOpen)}
+              title={
+                staleHighlightCount > 0
+                  ? `Highlights (${staleHighlightCount} could not be placed)`
+                  : 'Highlights'
+              }
+              className={`relative p-2 rounded-lg hover:bg-opacity-80 transition-colors ${
+                isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+              }`}
+            >
+              <Highlighter className="w-5 h-5" />
+              {staleHighlightCount > 0 && (
+                <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-amber-500" />
+              )}
+            </button>
+            <button
+              onClick={() => setFlashcardsOpen(!flashcardsOpen)}
+              title={dueFlashcards > 0 ? `Flashcards (${dueFlashcards} due)` : 'Flashcards'}
+              className={`relative p-2 rounded-lg hover:bg-opacity-80 transition-colors ${
+                isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+              }`}
+            >
+              <Brain className="w-5 h-5" />
+              {dueFlashcards > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] h-4 px-1 rounded-full bg-pink-500 text-white text-[10px] leading-4 text-center">
+                  {dueFlashcards > 99 ? '99+' : dueFlashcards}
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => setProblemTrackerOpen(!problemTrackerOpen)}
+              title="Problem tracker"
+              className={`p-2 rounded-lg hover:bg-opacity-80 transition-colors ${
+                isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+              }`}
+            >
+              <Target className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setBookmarksOpen(!bookmarksOpen)}
+              title="Bookmarks"
+              className={`p-2 rounded-lg hover:bg-opacity-80 transition-colors ${
+                isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+              }`}
+            >
+              <Bookmark className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => (notesOpen ? setNotesOpen(false) : openNotes(null))}
               className={`p-2 rounded-lg hover:bg-opacity-80 transition-colors ${
                 isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
               }`}
@@ -207,18 +467,26 @@ function App() {
         <ProgressBar progress={readingProgress} isDarkMode={isDarkMode} />
       </header>
 
+      <StorageNotice isDarkMode={isDarkMode} />
+      <UpdatePrompt isDarkMode={isDarkMode} />
+
       <div className="flex">
         {/* Sidebar */}
         <aside className={`fixed left-0 top-16 h-[calc(100vh-4rem)] w-80 transform transition-transform duration-300 ease-in-out z-40 ${
           sidebarOpen ? 'translate-x-0' : '-translate-x-full'
         } ${isDarkMode ? 'bg-theme-dark-bg border-gray-800' : 'bg-theme-light-bg border-gray-200'} border-r overflow-y-auto`}>
-          {currentDocument && (
+          {currentDocument && route.type === 'document' && (
             <TableOfContents
               sections={currentDocument.sections}
               activeSection={activeSection}
-              bookmarks={bookmarks}
+              bookmarks={documentBookmarks}
               onSectionClick={setActiveSection}
-              onToggleBookmark={toggleBookmark}
+              onToggleBookmark={handleToggleBookmark}
+              noteCounts={noteCounts}
+              progress={documentProgress(sectionProgress, currentContentId)}
+              onSetSectionStatus={handleSetSectionStatus}
+              autoMarkRead={autoMarkRead}
+              onToggleAutoMarkRead={() => setAutoMarkRead(!autoMarkRead)}
               isDarkMode={isDarkMode}
             />
           )}
@@ -228,22 +496,72 @@ function App() {
         <main className={`flex-1 transition-all duration-300 ${
           sidebarOpen ? 'ml-80' : 'ml-0'
         }`}>
-          <div className="max-w-4xl mx-auto px-8 py-8">
-            {loading ? (
+          <div ref={documentContainerRef} className="max-w-4xl mx-auto px-8 py-8">
+            {route.type === 'notFound' ? (
+              <NotFound
+                contentId={null}
+                path={route.path}
+                onOpenContent={handleContentChange}
+                isDarkMode={isDarkMode}
+              />
+            ) : loading ? (
               <div className="flex items-center justify-center py-12">
                 <div className={`animate-spin rounded-full h-8 w-8 border-b-2 ${
                   isDarkMode ? 'border-theme-dark-text' : 'border-theme-light-text'
                 }`}></div>
                 <span className="ml-3 text-lg">Loading document...</span>
               </div>
-            ) : currentDocument ? (
-              <DocumentViewer
-                documentData={currentDocument}
-                activeSection={activeSection}
-                bookmarks={bookmarks}
-                onToggleBookmark={toggleBookmark}
+            ) : documentState.status === 'error' ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <AlertTriangle className="w-8 h-8 mb-3 text-amber-500" />
+                <p className="text-lg">This guide could not be loaded.</p>
+                <p className={`mt-1 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Check your connection and try again.
+                </p>
+                <button
+                  onClick={documentState.retry}
+                  className="mt-4 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Try again
+                </button>
+              </div>
+            ) : documentState.status === 'missing' ? (
+              <NotFound
+                contentId={currentContentId}
+                path={window.location.pathname}
+                onOpenContent={handleContentChange}
                 isDarkMode={isDarkMode}
               />
+            ) : currentDocument ? (
+              <>
+                {missingSectionId && (
+                  <div className={`flex items-center justify-between mb-6 px-4 py-3 rounded-lg border text-sm ${
+                    isDarkMode ? 'bg-amber-900/30 border-amber-800 text-amber-200' : 'bg-amber-50 border-amber-200 text-amber-800'
+                  }`}>
+                    <span className="flex items-center space-x-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      <span>This guide has no section <code className="font-mono">#{missingSectionId}</code>.</span>
+                    </span>
+                    <button onClick={() => setMissingSectionId(null)} title="Dismiss">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+                <DocumentViewer
+                  key={loadedContentId}
+                  contentId={currentContentId}
+                  documentData={currentDocument}
+                  quizRule={currentContentItem?.flashcards}
+                  onOpenSection={(sectionId) => openSection(currentContentId, sectionId)}
+                  activeSection={activeSection}
+                  bookmarks={bookmarkedSectionIds}
+                  onToggleBookmark={handleToggleBookmark}
+                  noteCounts={noteCounts}
+                  onAddNote={openNotes}
+                  findOpen={findOpen}
+                  isDarkMode={isDarkMode}
+                />
+              </>
             ) : (
               <div className="text-center py-12">
                 <p className={`text-lg ${
@@ -254,12 +572,77 @@ function App() {
           </div>
         </main>
 
+        {/* Find in Document */}
+        <FindBar
+          isOpen={findOpen}
+          onClose={() => setFindOpen(false)}
+          containerRef={documentContainerRef}
+          request={findRequest}
+          isDarkMode={isDarkMode}
+        />
+
+        {/* Highlights */}
+        {currentDocument && loadedContentId === currentContentId && (
+          <HighlightLayer
+            containerRef={documentContainerRef}
+            contentId={currentContentId}
+            sections={currentDocument.sections}
+            focusRequest={highlightFocus}
+            onAnchorsChange={setHighlightAnchors}
+            isDarkMode={isDarkMode}
+          />
+        )}
+
+        {highlightsOpen && (
+          <HighlightsPanel
+            contentId={currentContentId}
+            anchors={highlightAnchors}
+            isOpen={highlightsOpen}
+            onClose={() => setHighlightsOpen(false)}
+            onFocusHighlight={(id) => setHighlightFocus({ id })}
+            isDarkMode={isDarkMode}
+          />
+        )}
+
+        {/* Flashcard Review */}
+        {flashcardsOpen && (
+          <FlashcardReview
+            currentContentId={currentContentId}
+            isOpen={flashcardsOpen}
+            onClose={() => setFlashcardsOpen(false)}
+            onOpenCard={openSection}
+            isDarkMode={isDarkMode}
+          />
+        )}
+
+        {/* Problem Tracker */}
+        {problemTrackerOpen && (
+          <ProblemTracker
+            isOpen={problemTrackerOpen}
+            onClose={() => setProblemTrackerOpen(false)}
+            onOpenProblem={openSection}
+            isDarkMode={isDarkMode}
+          />
+        )}
+
         {/* Search Panel */}
-        {searchOpen && currentDocument && (
+        {searchOpen && (
           <SearchPanel
-            documentData={currentDocument}
+            currentContentId={currentContentId}
             isOpen={searchOpen}
             onClose={() => setSearchOpen(false)}
+            onOpenResult={openSection}
+            isDarkMode={isDarkMode}
+          />
+        )}
+
+        {/* Bookmarks Panel */}
+        {bookmarksOpen && (
+          <BookmarksPanel
+            currentContentId={currentContentId}
+            isOpen={bookmarksOpen}
+            onClose={() => setBookmarksOpen(false)}
+            onOpenBookmark={openSection}
             isDarkMode={isDarkMode}
           />
         )}
@@ -267,8 +650,12 @@ function App() {
         {/* Notes Panel */}
         {notesOpen && (
           <NotesPanel
+            currentContentId={currentDocument ? currentContentId : ''}
+            sections={currentDocument?.sections ?? []}
+            composeSectionId={noteSectionId}
             isOpen={notesOpen}
             onClose={() => setNotesOpen(false)}
+            onOpenNote={openSection}
             isDarkMode={isDarkMode}
           />
         )}
@@ -0,0 +1,349 @@
+import { useState, useMemo } from 'react';
+import { X, Search, BookmarkCheck, BookOpen, Folder, Pencil, Trash2, Calendar } from 'lucide-react';
+import { getContentItemById } from '../utils/documentLoader';
+import { bookmarkFolders, removeBookmark, updateBookmark } from '../utils/bookmarks';
+import { useUserState } from '../utils/storage/userStore';
+import type { StoredBookmark } from '../utils/storage/schema';
+
+interface BookmarksPanelProps {
+  currentContentId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenBookmark: (contentId: string, sectionId: string) => void;
+  isDarkMode: boolean;
+}
+
+interface BookmarkGroup {
+  contentId: string;
+  // Null when the guide was removed since the bookmark was made
+  docTitle: string | null;
+  bookmarks: StoredBookmark[];
+}
+
+// Folder filter values besides folder names
+const ALL_FOLDERS = '';
+const UNFILED = '\0unfiled';
+
+const bookmarkKey = (bookmark: StoredBookmark) => `${bookmark.contentId}#${bookmark.sectionId}`;
+
+const formatDate = (iso: string) =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(new Date(iso));
+
+export function BookmarksPanel({ currentContentId, isOpen, onClose, onOpenBookmark, isDarkMode }: BookmarksPanelProps) {
+  const [bookmarks, setBookmarks] = useUserState('bookmarks');
+  const [filter, setFilter] = useState('');
+  const [folderFilter, setFolderFilter] = useState(ALL_FOLDERS);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ label: '', folder: '' });
+
+  const folders = useMemo(() => bookmarkFolders(bookmarks), [bookmarks]);
+
+  // A folder emptied by editing falls back to showing everything
+  const activeFolder = folderFilter === UNFILED || folders.includes(folderFilter) ? folderFilter : ALL_FOLDERS;
+
+  const groups = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    const byDocument = new Map<string, BookmarkGroup>();
+    const newestFirst = [...bookmarks].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    for (const bookmark of newestFirst) {
+      const folder = bookmark.folder?.trim() ?? '';
+      if (activeFolder === UNFILED ? folder !== '' : activeFolder !== ALL_FOLDERS && folder !== activeFolder) continue;
+
+      const docTitle = getContentItemById(bookmark.contentId)?.title ?? null;
+      if (needle) {
+        const haystack = [bookmark.title, bookmark.label, folder, docTitle].join(' ').toLowerCase();
+        if (!haystack.includes(needle)) continue;
+      }
+
+      const group = byDocument.get(bookmark.contentId);
+      if (group) group.bookmarks.push(bookmark);
+      else byDocument.set(bookmark.contentId, { contentId: bookmark.contentId, docTitle, bookmarks: [bookmark] });
+    }
+
+    // The open guide first, then alphabetically
+    return [...byDocument.values()].sort((a, b) =>
+      a.contentId === currentContentId
+        ? -1
+        : b.contentId === currentContentId
+          ? 1
+          : (a.docTitle ?? a.contentId).localeCompare(b.docTitle ?? b.contentId)
+    );
+  }, [bookmarks, filter, activeFolder, currentContentId]);
+
+  const visibleCount = groups.reduce((count, group) => count + group.bookmarks.length, 0);
+
+  const startEditing = (bookmark: StoredBookmark) => {
+    setEditingKey(bookmarkKey(bookmark));
+    setDraft({ label: bookmark.label ?? '', folder: bookmark.folder ?? '' });
+  };
+
+  const saveEdit = (bookmark: StoredBookmark) => {
+    const label = draft.label.trim();
+    const folder = draft.folder.trim();
+    setBookmarks(previous =>
+      updateBookmark(previous, bookmark, { label: label || undefined, folder: folder || undefined })
+    );
+    setEditingKey(null);
+  };
+
+  const openBookmark = (bookmark: StoredBookmark) => {
+    onOpenBookmark(bookmark.contentId, bookmark.sectionId);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = `w-full p-2 border rounded-md text-sm ${
+    isDarkMode
+      ? 'bg-theme-dark-bg border-gray-700 text-theme-dark-text'
+      : 'bg-theme-light-bg border-gray-300 text-theme-light-text'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50"
+        onClick={onClose}
+      />
+
+      {/* Panel */}
+      <div className={`relative ml-auto w-96 h-full shadow-2xl flex flex-col ${
+        isDarkMode ? 'bg-theme-dark-bg' : 'bg-theme-light-bg'
+      }`}>
+        {/* Header */}
+        <div className={`flex items-center justify-between p-4 border-b ${
+          isDarkMode ? 'border-gray-800' : 'border-gray-200'
+        }`}>
+          <div className="flex items-center space-x-2">
+            <BookmarkCheck className="w-5 h-5 text-amber-500" />
+            <h2 className={`font-semibold ${
+              isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
+            }`}>
+              Bookmarks
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className={`p-2 rounded-lg hover:bg-opacity-80 transition-colors ${
+              isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+            }`}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Filters */}
+        {bookmarks.length > 0 && (
+          <div className="p-4 space-y-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter by title, label or guide..."
+                className={`w-full pl-10 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  isDarkMode
+                    ? 'bg-theme-dark-bg border-gray-700 text-theme-dark-text placeholder-gray-400'
+                    : 'bg-theme-light-bg border-gray-300 text-theme-light-text placeholder-gray-500'
+                }`}
+                autoFocus
+              />
+            </div>
+            {folders.length > 0 && (
+              <div className="flex flex-wrap gap-1 text-xs">
+                {[
+                  { value: ALL_FOLDERS, label: 'All' },
+                  ...folders.map(folder => ({ value: folder, label: folder })),
+                  { value: UNFILED, label: 'Unfiled' }
+                ].map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setFolderFilter(option.value)}
+                    className={`px-2 py-1 rounded-full transition-colors ${
+                      activeFolder === option.value
+                        ? 'bg-amber-500 text-white'
+                        : isDarkMode
+                          ? 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Bookmark List */}
+        <div className="flex-1 overflow-y-auto px-4 pb-4">
+          {bookmarks.length > 0 && (
+            <div className={`mb-4 text-sm ${
+              isDarkMode ? 'text-gray-400' : 'text-gray-600'
+            }`}>
+              {visibleCount} bookmark{visibleCount !== 1 ? 's' : ''} in {groups.length} guide{groups.length !== 1 ? 's' : ''}
+            </div>
+          )}
+
+          <div className="space-y-6">
+            {groups.map((group) => (
+              <section key={group.contentId}>
+                <div className={`flex items-center space-x-2 mb-2 text-xs font-semibold uppercase tracking-wide ${
+                  isDarkMode ? 'text-gray-400' : 'text-gray-500'
+                }`}>
+                  <BookOpen className="w-3.5 h-3.5" />
+                  <span>{group.docTitle ?? group.contentId}</span>
+                  {group.contentId === currentContentId && (
+                    <span className="px-1.5 py-0.5 rounded bg-blue-600 text-white normal-case tracking-normal">current</span>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  {group.bookmarks.map((bookmark) => {
+                    const key = bookmarkKey(bookmark);
+                    return (
+                      <div
+                        key={key}
+                        className={`p-3 rounded-lg border transition-colors ${
+                          isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-gray-50 border-gray-200'
+                        }`}
+                      >
+                        <div className="flex items-start justify-between">
+                          <button
+                            onClick={() => openBookmark(bookmark)}
+                            disabled={group.docTitle === null}
+                            className={`flex-1 text-left text-sm font-medium hover:underline disabled:no-underline disabled:opacity-60 ${
+                              isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
+                            }`}
+                          >
+                            {bookmark.title}
+                          </button>
+                          <div className="flex space-x-1 ml-2">
+                            <button
+                              onClick={() => (editingKey === key ? setEditingKey(null) : startEditing(bookmark))}
+                              title="Edit label and folder"
+                              className={`p-1 rounded transition-colors ${
+                                isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-200'
+                              }`}
+                            >
+                              <Pencil className="w-3.5 h-3.5 text-gray-400" />
+                            </button>
+                            <button
+                              onClick={() => setBookmarks(previous => removeBookmark(previous, bookmark))}
+                              title="Remove bookmark"
+                              className={`p-1 rounded transition-colors ${
+                                isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-200'
+                              }`}
+                            >
+                              <Trash2 className="w-3.5 h-3.5 text-red-500" />
+                            </button>
+                          </div>
+                        </div>
+
+                        {bookmark.label && editingKey !== key && (
+                          <p className={`mt-1 text-xs ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                            {bookmark.label}
+                          </p>
+                        )}
+
+                        {editingKey === key && (
+                          <form
+                            className="mt-2 space-y-2"
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              saveEdit(bookmark);
+                            }}
+                          >
+                            <input
+                              type="text"
+                              value={draft.label}
+                              onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                              placeholder="Label..."
+                              className={inputClassName}
+                              autoFocus
+                            />
+                            <input
+                              type="text"
+                              value={draft.folder}
+                              onChange={(e) => setDraft({ ...draft, folder: e.target.value })}
+                              placeholder="Folder..."
+                              list="bookmark-folders"
+                              className={inputClassName}
+                            />
+                            <div className="flex justify-end space-x-2">
+                              <button
+                                type="button"
+                                onClick={() => setEditingKey(null)}
+                                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                                  isDarkMode
+                                    ? 'text-theme-dark-text hover:bg-gray-700'
+                                    : 'text-theme-light-text hover:bg-gray-200'
+                                }`}
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                type="submit"
+                                className="px-3 py-1 text-sm bg-amber-500 text-white rounded-md hover:bg-amber-600 transition-colors"
+                              >
+                                Save
+                              </button>
+                            </div>
+                          </form>
+                        )}
+
+                        <div className={`flex items-center justify-between mt-2 text-xs ${
+                          isDarkMode ? 'text-gray-500' : 'text-gray-400'
+                        }`}>
+                          <span className="flex items-center space-x-1">
+                            {bookmark.folder && (
+                              <>
+                                <Folder className="w-3 h-3" />
+                                <span>{bookmark.folder}</span>
+                              </>
+                            )}
+                            {group.docTitle === null && <span>Guide no longer available</span>}
+                          </span>
+                          <span className="flex items-center space-x-1">
+                            <Calendar className="w-3 h-3" />
+                            <span>{formatDate(bookmark.createdAt)}</span>
+                          </span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            ))}
+          </div>
+
+          <datalist id="bookmark-folders">
+            {folders.map(folder => (
+              <option key={folder} value={folder} />
+            ))}
+          </datalist>
+
+          {bookmarks.length === 0 && (
+            <div className={`text-center py-8 ${
+              isDarkMode ? 'text-gray-400' : 'text-gray-500'
+            }`}>
+              <BookmarkCheck className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              <p>No bookmarks yet</p>
+              <p className="text-sm mt-1">Bookmark a heading to find it again from any guide</p>
+            </div>
+          )}
+
+          {bookmarks.length > 0 && visibleCount === 0 && (
+            <div className={`text-center py-8 ${
+              isDarkMode ? 'text-gray-400' : 'text-gray-500'
+            }`}>
+              <p>No bookmarks match this filter</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { Copy, Check, WrapText, FileCode } from 'lucide-react';
+import { highlightCode, splitHighlightedLines } from '../utils/highlighter';
+import { parseCodeMeta, getDiffLanguage, parseDiffLines, type DiffMarker } from '../utils/codeMeta';
+
+interface CodeBlockProps {
+  code: string;
+  lang: string;
+  meta: string;
+  isDarkMode: boolean;
+  copied: boolean;
+  onCopy: (text: string) => void;
+}
+
+const diffLineClassNames: Record<DiffMarker, { light: string; dark: string }> = {
+  added: { light: 'bg-emerald-100/70', dark: 'bg-emerald-900/40' },
+  removed: { light: 'bg-red-100/70', dark: 'bg-red-900/40' },
+  context: { light: '', dark: '' },
+  header: { light: 'bg-blue-100/60 text-gray-500', dark: 'bg-blue-900/30 text-gray-400' }
+};
+
+const diffMarkerSymbols: Record<DiffMarker, string> = {
+  added: '+',
+  removed: '-',
+  context: ' ',
+  header: ' '
+};
+
+export const CodeBlock = React.memo(function CodeBlock({
+  code,
+  lang,
+  meta,
+  isDarkMode,
+  copied,
+  onCopy
+}: CodeBlockProps) {
+  const options = useMemo(() => parseCodeMeta(meta), [meta]);
+  const [wrap, setWrap] = useState(options.wrap);
+
+  const { lines, language, copyText } = useMemo(() => {
+    const diffLanguage = getDiffLanguage(lang);
+    const diffLines = diffLanguage === null ? null : parseDiffLines(code);
+    const source = diffLines ? diffLines.map(line => line.text).join('\n') : code;
+    const result = highlightCode(source, diffLines ? diffLanguage ?? '' : lang);
+
+    return {
+      language: diffLines ? 'diff' : result.language,
+      lines: splitHighlightedLines(result.html).map((html, index) => ({
+        html,
+        marker: diffLines?.[index]?.marker ?? null
+      })),
+      // Copy the resulting code: no line numbers, no diff markers or headers, no removed lines
+      copyText: diffLines
+        ? diffLines
+            .filter(line => line.marker === 'added' || line.marker === 'context')
+            .map(line => line.text)
+            .join('\n')
+        : code
+    };
+  }, [code, lang]);
+
+  const controlClassName = `p-2 rounded-md transition-colors ${
+    isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+  }`;
+
+  const controls = (
+    <>
+      <button
+        onClick={() => setWrap(!wrap)}
+        title={wrap ? 'Disable word wrap' : 'Enable word wrap'}
+        className={`${controlClassName} ${wrap ? 'text-blue-500' : ''}`}
+      >
+        <WrapText className="w-4 h-4" />
+      </button>
+      <button onClick={() => onCopy(copyText)} title="Copy code" className={controlClassName}>
+        {copied ? (
+          <Check className="w-4 h-4 text-green-500" />
+        ) : (
+          <Copy className="w-4 h-4" />
+        )}
+      </button>
+    </>
+  );
+
+  return (
+    <div className="relative group mb-4">
+      {options.title && (
+        <div className={`flex items-center justify-between px-4 py-2 rounded-t-lg border-b text-sm ${
+          isDarkMode ? 'bg-gray-900 border-gray-700 text-gray-300' : 'bg-gray-200 border-gray-300 text-gray-700'
+        }`}>
+          <span className="flex items-center space-x-2 font-mono">
+            <FileCode className="w-4 h-4" />
+            <span>{options.title}</span>
+          </span>
+          <div className="flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">{controls}</div>
+        </div>
+      )}
+      {!options.title && (
+        <div className="absolute top-3 right-3 z-10 flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+          {controls}
+        </div>
+      )}
+      <pre className={`p-4 mb-0 ${options.title ? 'rounded-b-lg rounded-t-none' : 'rounded-lg'} ${
+        wrap ? 'whitespace-pre-wrap break-words' : 'overflow-x-auto'
+      } ${
+        isDarkMode ? 'hljs-theme-dark bg-gray-800 text-dark-text' : 'hljs-theme-light bg-gray-100 text-gray-900'
+      }`}>
+        <code className={`hljs language-${language} block ${wrap ? '' : 'min-w-max'}`} data-language={language}>
+          {lines.map((line, index) => {
+            const lineNumber = options.startLine + index;
+            const isHighlighted = options.highlightLines.has(index + 1);
+            const diffClassName = line.marker ? diffLineClassNames[line.marker][isDarkMode ? 'dark' : 'light'] : '';
+
+            return (
+              <span
+                key={index}
+                data-code-line
+                className={`flex -mx-4 px-4 ${diffClassName} ${
+                  isHighlighted
+                    ? `border-l-4 ${isDarkMode ? 'bg-blue-900/40 border-blue-400' : 'bg-blue-100/80 border-blue-500'}`
+                    : 'border-l-4 border-transparent'
+                }`}
+              >
+                {options.showLineNumbers && (
+                  <span className="select-none shrink-0 w-10 pr-4 text-right opacity-50" aria-hidden="true">
+                    {lineNumber}
+                  </span>
+                )}
+                {line.marker && (
+                  <span className={`select-none shrink-0 w-5 ${
+                    line.marker === 'added' ? 'text-emerald-500' : line.marker === 'removed' ? 'text-red-500' : ''
+                  }`} aria-hidden="true">
+                    {diffMarkerSymbols[line.marker]}
+                  </span>
+                )}
+                <span
+                  className={wrap ? 'flex-1 min-w-0' : ''}
+                  dangerouslySetInnerHTML={{ __html: line.html || ' ' }}
+                />
+              </span>
+            );
+          })}
+        </code>
+      </pre>
+    </div>
+  );
+});
@@ -1,22 +1,31 @@
-import React, { useEffect } from 'react';
-import { Bookmark, BookmarkCheck, Code, Database, Globe, Shield, Zap, TestTube, Server, Layout } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { Bookmark, BookmarkCheck, Code, Database, Globe, Shield, Zap, TestTube, Server, Layout, GraduationCap, BookOpen, ListChecks, Eye, EyeOff, Download, type LucideIcon } from 'lucide-react';
 import { MarkdownRenderer } from './MarkdownRenderer';
-
-interface Document {
-  title: string;
-  content: string;
-  sections: { id: string; title: string; level: number }[];
-}
+import { QuizView } from './QuizView';
+import { navigateToSection } from '../utils/router';
+import { exportTaskList, isTaskChecked } from '../utils/taskLists';
+import { useUserState } from '../utils/storage/userStore';
+import type { Document } from '../utils/compileGuide';
+import type { FlashcardRule } from '../utils/catalog';
 
 interface DocumentViewerProps {
+  contentId: string;
   documentData: Document;
+  // Which headings are questions; guides without one have no quiz mode
+  quizRule?: FlashcardRule;
+  // Scroll to a section once it is rendered again
+  onOpenSection: (sectionId: string) => void;
   activeSection: string;
   bookmarks: string[];
   onToggleBookmark: (sectionId: string) => void;
+  noteCounts: Record<string, number>;
+  onAddNote: (sectionId: string) => void;
+  // Find in document searches the rendered page, so long guides render whole while it is open
+  findOpen: boolean;
   isDarkMode: boolean;
 }
 
-const sectionIcons: { [key: string]: React.ComponentType<any> } = {
+const sectionIcons: { [key: string]: LucideIcon } = {
   frontend: Layout,
   backend: Server,
   database: Database,
@@ -27,13 +36,65 @@ const sectionIcons: { [key: string]: React.ComponentType<any> } = {
   testing: TestTube
 };
 
+// At a study pace rather than a skim
+const WORDS_PER_MINUTE = 200;
+
+const readingMinutes = (words: number) => Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+
 export function DocumentViewer({ 
+  contentId,
   documentData, 
+  quizRule,
+  onOpenSection,
   activeSection, 
   bookmarks, 
   onToggleBookmark, 
+  noteCounts,
+  onAddNote,
+  findOpen,
   isDarkMode 
 }: DocumentViewerProps) {
+  const [quizMode, setQuizMode] = useState(false);
+  const [allTaskChecks, setAllTaskChecks] = useUserState('taskChecks');
+  const [hideCompletedTasks, setHideCompletedTasks] = useUserState('hideCompletedTasks');
+  const [highlights] = useUserState('highlights');
+  // Highlights are placed in the rendered text, so their sections stay rendered
+  const highlightedSectionIds = useMemo(
+    () => highlights.filter(highlight => highlight.contentId === contentId).map(highlight => highlight.sectionId),
+    [highlights, contentId]
+  );
+  const taskChecks = allTaskChecks[contentId];
+  const { tasks } = documentData;
+  const doneTasks = tasks.filter(task => isTaskChecked(task, taskChecks ?? {})).length;
+
+  const toggleTask = (key: string, checked: boolean) =>
+    setAllTaskChecks(previous => ({ ...previous, [contentId]: { ...previous[contentId], [key]: checked } }));
+
+  // Back to the boxes as the guide has them
+  const resetTasks = (keys: string[]) =>
+    setAllTaskChecks(previous => ({
+      ...previous,
+      [contentId]: Object.fromEntries(
+        Object.entries(previous[contentId] ?? {}).filter(([key]) => !keys.includes(key))
+      )
+    }));
+
+  const exportTasks = () => {
+    const blob = new Blob([exportTaskList(documentData.content, tasks, taskChecks ?? {})], { type: 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${contentId}-checklist.md`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url));
+  };
+
+  // The guide has to render before its heading can be scrolled to
+  const leaveQuizAt = (sectionId: string) => {
+    setQuizMode(false);
+    requestAnimationFrame(() => onOpenSection(sectionId));
+  };
+
   useEffect(() => {
     const handleScroll = () => {
       const sections = documentData.sections;
@@ -76,85 +137,149 @@ export function DocumentViewer({
               isDarkMode ? 'text-gray-400' : 'text-gray-600'
             }`}>
               Comprehensive guide for modern full-stack development
+              <span title={`${documentData.wordCount.toLocaleString()} words`}>
+                {' · '}{readingMinutes(documentData.wordCount)} min read
+              </span>
             </p>
           </div>
-          <div className="flex space-x-2">
-           
+          <div className="flex items-center space-x-2">
+            {tasks.length > 0 && !quizMode && (
+              <>
+                <span
+                  title={`${doneTasks} of ${tasks.length} checklist items done`}
+                  className={`flex items-center space-x-1 text-sm ${
+                    doneTasks === tasks.length ? 'text-green-500' : isDarkMode ? 'text-gray-400' : 'text-gray-500'
+                  }`}
+                >
+                  <ListChecks className="w-4 h-4" />
+                  <span>{doneTasks}/{tasks.length}</span>
+                </span>
+                <button
+                  onClick={() => setHideCompletedTasks(!hideCompletedTasks)}
+                  title={hideCompletedTasks ? 'Show completed items' : 'Hide completed items'}
+                  className={`p-2 rounded-lg border transition-colors ${
+                    isDarkMode ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-100'
+                  }`}
+                >
+                  {hideCompletedTasks ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={exportTasks}
+                  title="Download the checklist with your checks as Markdown"
+                  className={`p-2 rounded-lg border transition-colors ${
+                    isDarkMode ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-100'
+                  }`}
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+              </>
+            )}
+            {quizRule && (
+              <button
+                onClick={() => setQuizMode(!quizMode)}
+                title={quizMode ? 'Show the whole guide' : 'Test yourself on the questions of this guide'}
+                className={`flex items-center space-x-2 px-3 py-2 text-sm rounded-lg border transition-colors ${
+                  isDarkMode ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-100'
+                }`}
+              >
+                {quizMode ? <BookOpen className="w-4 h-4" /> : <GraduationCap className="w-4 h-4" />}
+                <span>{quizMode ? 'Back to reading' : 'Quiz mode'}</span>
+              </button>
+            )}
           </div>
         </div>
       </div>
 
-      {/* Document Content */}
-      <div className={`${
-        isDarkMode ? 'prose-invert' : ''
-      } prose-headings:scroll-mt-20`}>
-        <MarkdownRenderer 
-          content={documentData.content} 
+      {quizMode && quizRule ? (
+        <QuizView
+          contentId={contentId}
+          documentData={documentData}
+          rule={quizRule}
+          onOpenSection={leaveQuizAt}
           isDarkMode={isDarkMode}
-          bookmarks={bookmarks}
-          onToggleBookmark={onToggleBookmark}
         />
-      </div>
+      ) : (
+        <>
+          {/* Document Content */}
+          <div data-document-content className={`${
+            isDarkMode ? 'prose-invert' : ''
+          } prose-headings:scroll-mt-20`}>
+            <MarkdownRenderer 
+              content={documentData.content} 
+              root={documentData.root}
+              windowed
+              renderAllSections={findOpen}
+              keptSectionIds={highlightedSectionIds}
+              isDarkMode={isDarkMode}
+              bookmarks={bookmarks}
+              onToggleBookmark={onToggleBookmark}
+              noteCounts={noteCounts}
+              onAddNote={onAddNote}
+              taskChecks={taskChecks}
+              onToggleTask={toggleTask}
+              onResetTasks={resetTasks}
+              hideCompletedTasks={hideCompletedTasks}
+            />
+          </div>
 
-      {/* Section Navigation */}
-      <div className={`mt-12 p-6 rounded-xl border ${
-        isDarkMode 
-          ? 'bg-theme-dark-bg border-gray-800' 
-          : 'bg-theme-light-bg border-gray-200'
-      } shadow-sm`}>
-        <h3 className={`text-lg font-semibold mb-4 ${
-          isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
-        }`}>
-          Quick Navigation
-        </h3>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          {documentData.sections.map((section) => {
-            const Icon = sectionIcons[section.id] || Code;
-            const isBookmarked = bookmarks.includes(section.id);
-            
-            return (
-              <button
-                key={section.id}
-                onClick={() => {
-                  const element = document.getElementById(section.id);
-                  element?.scrollIntoView({ behavior: 'smooth' });
-                }}
-                className={`group relative p-4 rounded-lg border transition-all duration-200 hover:scale-105 ${
-                  activeSection === section.id
-                    ? isDarkMode
-                      ? 'bg-blue-900 border-blue-600 shadow-lg'
-                      : 'bg-blue-50 border-blue-200 shadow-lg'
-                    : isDarkMode
-                      ? 'bg-gray-800 border-gray-700 hover:bg-gray-700'
-                      : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
-                }`}
-              >
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onToggleBookmark(section.id);
-                  }}
-                  className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity"
-                >
-                  {isBookmarked ? (
-                    <BookmarkCheck className="w-4 h-4 text-amber-500" />
-                  ) : (
-                    <Bookmark className="w-4 h-4 text-gray-400 hover:text-amber-500" />
-                  )}
-                </button>
-                <Icon className={`w-6 h-6 mb-2 ${
-                  activeSection === section.id ? 'text-blue-600' : 'text-gray-500'
-                }`} />
-                <span className={`text-sm font-medium ${
-                  isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
-                }`}>
-                  {section.title}
-                </span>
-              </button>
-            );
-          })}
-        </div>
-      </div>
+          {/* Section Navigation */}
+          <div className={`mt-12 p-6 rounded-xl border ${
+            isDarkMode 
+              ? 'bg-theme-dark-bg border-gray-800' 
+              : 'bg-theme-light-bg border-gray-200'
+          } shadow-sm`}>
+            <h3 className={`text-lg font-semibold mb-4 ${
+              isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
+            }`}>
+              Quick Navigation
+            </h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {documentData.sections.map((section) => {
+                const Icon = sectionIcons[section.id] || Code;
+                const isBookmarked = bookmarks.includes(section.id);
+                
+                return (
+                  <button
+                    key={section.id}
+                    onClick={() => navigateToSection(section.id)}
+                    className={`group relative p-4 rounded-lg border transition-all duration-200 hover:scale-105 ${
+                      activeSection === section.id
+                        ? isDarkMode
+                          ? 'bg-blue-900 border-blue-600 shadow-lg'
+                          : 'bg-blue-50 border-blue-200 shadow-lg'
+                        : isDarkMode
+                          ? 'bg-gray-800 border-gray-700 hover:bg-gray-700'
+                          : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
+                    }`}
+                  >
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onToggleBookmark(section.id);
+                      }}
+                      className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      {isBookmarked ? (
+                        <BookmarkCheck className="w-4 h-4 text-amber-500" />
+                      ) : (
+                        <Bookmark className="w-4 h-4 text-gray-400 hover:text-amber-500" />
+                      )}
+                    </button>
+                    <Icon className={`w-6 h-6 mb-2 ${
+                      activeSection === section.id ? 'text-blue-600' : 'text-gray-500'
+                    }`} />
+                    <span className={`text-sm font-medium ${
+                      isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
+                    }`}>
+                      {section.title}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </>
+      )}
     </article>
   );
 }
\ No newline at end of file
@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ChevronUp, ChevronDown, X, CaseSensitive, TextSearch } from 'lucide-react';
+import {
+  findTextRanges,
+  supportsHighlights,
+  MAX_FIND_MATCHES,
+  type FindRequest,
+  type FindScope
+} from '../utils/findInDocument';
+import { openDetailsAround, scrollToHeading } from '../utils/headingScroll';
+
+interface FindBarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Stable element around the rendered document; its content may be swapped out while loading
+  containerRef: React.RefObject<HTMLElement>;
+  // Set when a search result should be shown in place
+  request: FindRequest | null;
+  isDarkMode: boolean;
+}
+
+const scopeLabels: Record<FindScope, string> = {
+  all: 'All',
+  prose: 'Prose',
+  code: 'Code'
+};
+
+type StartPosition =
+  | { type: 'viewport' }
+  | { type: 'section'; sectionId: string; query: string };
+
+// Keep the current match clear of the sticky header
+const HEADER_OFFSET = 80;
+
+// Index of the first match at or below the top of the viewport, so a new search starts where the reader is
+const firstVisibleMatch = (matches: Range[]): number => {
+  let low = 0;
+  let high = matches.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (matches[middle].getBoundingClientRect().top < HEADER_OFFSET) low = middle + 1;
+    else high = middle;
+  }
+  return low < matches.length ? low : 0;
+};
+
+// Index of the first match after a section heading ('' is the top of the document)
+const firstMatchInSection = (matches: Range[], sectionId: string): number | null => {
+  if (!sectionId) return 0;
+  const heading = document.getElementById(sectionId);
+  if (!heading) return null;
+  const index = matches.findIndex(range =>
+    Boolean(heading.compareDocumentPosition(range.startContainer) & Node.DOCUMENT_POSITION_FOLLOWING)
+  );
+  return index === -1 ? 0 : index;
+};
+
+export function FindBar({ isOpen, onClose, containerRef, request, isDarkMode }: FindBarProps) {
+  const [query, setQuery] = useState('');
+  const [scope, setScope] = useState<FindScope>('all');
+  const [matchCase, setMatchCase] = useState(false);
+  const [matches, setMatches] = useState<Range[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  // Bumped whenever the rendered document changes, so ranges are rebuilt against the new DOM
+  const [domVersion, setDomVersion] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Where to start once matches are known: the viewport, a search result's section, or keep the index
+  const startRef = useRef<StartPosition | null>({ type: 'viewport' });
+  const scrollPendingRef = useRef(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    startRef.current = { type: 'viewport' };
+    inputRef.current?.focus();
+    inputRef.current?.select();
+
+    // A second Ctrl+F goes back to the find field instead of the browser's
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'f') {
+        event.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!request) return;
+    setQuery(request.query);
+    setScope('all');
+    startRef.current = { type: 'section', sectionId: request.sectionId, query: request.query };
+  }, [request]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isOpen || !container) return;
+
+    let frame = 0;
+    const observer = new MutationObserver(() => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => setDomVersion(version => version + 1));
+    });
+    observer.observe(container, { childList: true, subtree: true, characterData: true });
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(frame);
+    };
+  }, [isOpen, containerRef]);
+
+  // Rebuild ranges after each commit that changed the query or the document
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isOpen || !container) {
+      setMatches([]);
+      return;
+    }
+
+    const root = container.querySelector('[data-document-content]') ?? container;
+    const found = findTextRanges(root, { query, scope, matchCase });
+    setMatches(found);
+
+    const start = startRef.current;
+    // A search result's section applies once its query is in the field
+    if (!start || (start.type === 'section' && start.query !== query)) {
+      setCurrentIndex(index => Math.min(index, Math.max(0, found.length - 1)));
+      return;
+    }
+    if (start.type === 'viewport') {
+      startRef.current = null;
+      setCurrentIndex(firstVisibleMatch(found));
+      scrollPendingRef.current = true;
+      return;
+    }
+
+    // The result's document may still be loading; wait for a later DOM change
+    if (found.length === 0) {
+      if (scrollToHeading(start.sectionId)) startRef.current = null;
+      return;
+    }
+    const index = firstMatchInSection(found, start.sectionId);
+    if (index === null) return;
+    startRef.current = null;
+    setCurrentIndex(index);
+    scrollPendingRef.current = true;
+  }, [isOpen, containerRef, query, scope, matchCase, domVersion, request]);
+
+  // Paint all matches and the current one; without the Highlight API fall back to selecting the current match
+  useEffect(() => {
+    const current = matches[currentIndex];
+    if (supportsHighlights()) {
+      CSS.highlights.set('find-match', new Highlight(...matches));
+      if (current) CSS.highlights.set('find-current', new Highlight(current));
+      else CSS.highlights.delete('find-current');
+    } else if (current && document.activeElement !== inputRef.current) {
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(current);
+    }
+
+    if (current && scrollPendingRef.current) {
+      scrollPendingRef.current = false;
+      openDetailsAround(current.startContainer.parentElement);
+      current.startContainer.parentElement?.scrollIntoView({ block: 'center', inline: 'nearest' });
+    }
+  }, [matches, currentIndex]);
+
+  useEffect(() => {
+    return () => {
+      if (!supportsHighlights()) return;
+      CSS.highlights.delete('find-match');
+      CSS.highlights.delete('find-current');
+    };
+  }, []);
+
+  const step = useCallback((delta: number) => {
+    if (matches.length === 0) return;
+    scrollPendingRef.current = true;
+    setCurrentIndex(index => (index + delta + matches.length) % matches.length);
+  }, [matches.length]);
+
+  // A changed search starts from the reader's position
+  const restartFromViewport = () => {
+    startRef.current = { type: 'viewport' };
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      step(event.shiftKey ? -1 : 1);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const buttonClassName = `p-1.5 rounded-md transition-colors disabled:opacity-40 ${
+    isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+  }`;
+
+  return (
+    <div
+      className={`fixed top-20 right-6 z-40 flex items-center space-x-2 p-2 rounded-lg border shadow-lg ${
+        isDarkMode ? 'bg-theme-dark-bg border-gray-800' : 'bg-theme-light-bg border-gray-200'
+      }`}
+      role="search"
+    >
+      <TextSearch className="w-4 h-4 ml-1 text-gray-400" />
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={(e) => {
+          restartFromViewport();
+          setQuery(e.target.value);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in document"
+        aria-label="Find in document"
+        className={`w-48 px-2 py-1 text-sm border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+          isDarkMode
+            ? 'bg-theme-dark-bg border-gray-700 text-theme-dark-text placeholder-gray-400'
+            : 'bg-theme-light-bg border-gray-300 text-theme-light-text placeholder-gray-500'
+        }`}
+      />
+      <span className={`w-20 text-xs text-center tabular-nums ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        {!query
+          ? ''
+          : matches.length === 0
+            ? 'No results'
+            : `${currentIndex + 1} of ${matches.length}${matches.length >= MAX_FIND_MATCHES ? '+' : ''}`}
+      </span>
+      <div className={`flex rounded-md border text-xs ${isDarkMode ? 'border-gray-700' : 'border-gray-300'}`}>
+        {(Object.keys(scopeLabels) as FindScope[]).map(option => (
+          <button
+            key={option}
+            onClick={() => {
+              restartFromViewport();
+              setScope(option);
+            }}
+            className={`px-2 py-1 first:rounded-l-md last:rounded-r-md transition-colors ${
+              scope === option
+                ? 'bg-blue-600 text-white'
+                : isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+            }`}
+          >
+            {scopeLabels[option]}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={() => {
+          restartFromViewport();
+          setMatchCase(!matchCase);
+        }}
+        title="Match case"
+        className={`${buttonClassName} ${matchCase ? 'text-blue-500' : ''}`}
+      >
+        <CaseSensitive className="w-4 h-4" />
+      </button>
+      <button onClick={() => step(-1)} disabled={matches.length === 0} title="Previous match (Shift+Enter)" className={buttonClassName}>
+        <ChevronUp className="w-4 h-4" />
+      </button>
+      <button onClick={() => step(1)} disabled={matches.length === 0} title="Next match (Enter)" className={buttonClassName}>
+        <ChevronDown className="w-4 h-4" />
+      </button>
+      <button onClick={onClose} title="Close (Escape)" className={buttonClassName}>
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X, Brain, CalendarCheck, ExternalLink, Eye, PartyPopper } from 'lucide-react';
+import { MarkdownRenderer } from './MarkdownRenderer';
+import { contentItems, getContentItemById } from '../utils/documentLoader';
+import {
+  buildReviewQueue,
+  countDueCards,
+  loadFlashcards,
+  localDate,
+  nextInterval,
+  scheduleReview,
+  NEW_CARDS_PER_DAY,
+  type Flashcard,
+  type ReviewGrade
+} from '../utils/flashcards';
+import { useUserState } from '../utils/storage/userStore';
+
+interface FlashcardReviewProps {
+  currentContentId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenCard: (contentId: string, sectionId: string) => void;
+  isDarkMode: boolean;
+}
+
+type Session =
+  | { phase: 'overview' }
+  | { phase: 'loading' }
+  | { phase: 'reviewing'; queue: Flashcard[]; position: number; revealed: boolean; reviewed: number }
+  | { phase: 'done'; reviewed: number };
+
+const GRADES: { grade: ReviewGrade; label: string; key: string; className: string }[] = [
+  { grade: 'again', label: 'Again', key: '1', className: 'bg-red-600 hover:bg-red-700' },
+  { grade: 'hard', label: 'Hard', key: '2', className: 'bg-amber-600 hover:bg-amber-700' },
+  { grade: 'good', label: 'Good', key: '3', className: 'bg-emerald-600 hover:bg-emerald-700' },
+  { grade: 'easy', label: 'Easy', key: '4', className: 'bg-blue-600 hover:bg-blue-700' }
+];
+
+const deckItems = contentItems.filter(item => item.flashcards);
+
+const formatInterval = (days: number) =>
+  days < 30 ? `${days}d` : days < 365 ? `${Math.round(days / 30)}mo` : `${(days / 365).toFixed(1)}y`;
+
+export function FlashcardReview({ currentContentId, isOpen, onClose, onOpenCard, isDarkMode }: FlashcardReviewProps) {
+  const [schedules, setSchedules] = useUserState('flashcards');
+  const [decks, setDecks] = useUserState('flashcardDecks');
+  const [session, setSession] = useState<Session>({ phase: 'overview' });
+  const [loadError, setLoadError] = useState(false);
+
+  const today = localDate(new Date());
+  const dueCount = countDueCards(schedules, decks, today);
+  const newLeft = Math.max(
+    0,
+    NEW_CARDS_PER_DAY - Object.values(schedules).filter(schedule => schedule.introducedOn === today).length
+  );
+
+  const deckStats = useMemo(() => {
+    const stats = new Map<string, { due: number; started: number }>();
+    for (const schedule of Object.values(schedules)) {
+      const stat = stats.get(schedule.contentId) ?? { due: 0, started: 0 };
+      stat.started++;
+      if (schedule.due <= today) stat.due++;
+      stats.set(schedule.contentId, stat);
+    }
+    return stats;
+  }, [schedules, today]);
+
+  const toggleDeck = (contentId: string) =>
+    setDecks(previous =>
+      previous.includes(contentId) ? previous.filter(id => id !== contentId) : [...previous, contentId]
+    );
+
+  const startReview = async () => {
+    setSession({ phase: 'loading' });
+    setLoadError(false);
+    try {
+      // Decks in catalog order, so new cards come in a stable order
+      const chosen = deckItems.filter(item => decks.includes(item.id));
+      const cards = (await Promise.all(chosen.map(item => loadFlashcards(item.id)))).flat();
+      const queue = buildReviewQueue(cards, schedules, today);
+      setSession(
+        queue.length > 0
+          ? { phase: 'reviewing', queue, position: 0, revealed: false, reviewed: 0 }
+          : { phase: 'done', reviewed: 0 }
+      );
+    } catch (error) {
+      console.error('Failed to load flashcards:', error);
+      setLoadError(true);
+      setSession({ phase: 'overview' });
+    }
+  };
+
+  const current = session.phase === 'reviewing' ? session.queue[session.position] : null;
+
+  const reveal = () => {
+    if (session.phase === 'reviewing') setSession({ ...session, revealed: true });
+  };
+
+  const answer = (grade: ReviewGrade) => {
+    if (session.phase !== 'reviewing' || !current || !session.revealed) return;
+    setSchedules(previous => ({
+      ...previous,
+      [current.id]: scheduleReview(previous[current.id], current, grade, new Date())
+    }));
+    // Cards answered "again" come back before the session ends
+    const queue = grade === 'again' ? [...session.queue, current] : session.queue;
+    const position = session.position + 1;
+    setSession(
+      position < queue.length
+        ? { phase: 'reviewing', queue, position, revealed: false, reviewed: session.reviewed + 1 }
+        : { phase: 'done', reviewed: session.reviewed + 1 }
+    );
+  };
+
+  // Space or Enter shows the answer, 1-4 grade it
+  useEffect(() => {
+    if (!isOpen || session.phase !== 'reviewing') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (!session.revealed && (event.key === ' ' || event.key === 'Enter')) {
+        event.preventDefault();
+        reveal();
+        return;
+      }
+      const match = GRADES.find(({ key }) => key === event.key);
+      if (match && session.revealed) {
+        event.preventDefault();
+        answer(match.grade);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!isOpen) return null;
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  const renderOverview = () => (
+    <div className="flex-1 overflow-y-auto p-6 space-y-6">
+      <div className={`flex items-center justify-between p-4 rounded-lg border ${
+        isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-gray-50 border-gray-200'
+      }`}>
+        <div className="flex items-center space-x-3">
+          <CalendarCheck className="w-6 h-6 text-blue-500" />
+          <div>
+            <p className="font-medium">Today's review</p>
+            <p className={`text-sm ${mutedText}`}>
+              {dueCount} due · up to {newLeft} new
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={startReview}
+          disabled={decks.length === 0}
+          title={decks.length === 0 ? 'Choose at least one guide below' : undefined}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Start review
+        </button>
+      </div>
+
+      {loadError && (
+        <p className={`text-sm ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>
+          The flashcards could not be loaded. Try again.
+        </p>
+      )}
+
+      <section>
+        <h3 className={`mb-2 text-xs font-semibold uppercase tracking-wide ${mutedText}`}>Guides in the review</h3>
+        <ul className="space-y-1">
+          {deckItems.map(item => {
+            const stat = deckStats.get(item.id);
+            return (
+              <li key={item.id}>
+                <label className={`flex items-center justify-between p-2 rounded-md cursor-pointer ${
+                  isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+                }`}>
+                  <span className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={decks.includes(item.id)}
+                      onChange={() => toggleDeck(item.id)}
+                      className="rounded"
+                    />
+                    <span className={item.id === currentContentId ? 'font-semibold' : undefined}>{item.title}</span>
+                  </span>
+                  {stat && (
+                    <span className={`text-xs ${mutedText}`}>
+                      {stat.started} studied{stat.due > 0 ? ` · ${stat.due} due` : ''}
+                    </span>
+                  )}
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    </div>
+  );
+
+  const renderCard = (card: Flashcard, revealed: boolean) => {
+    const schedule = schedules[card.id];
+    return (
+      <div className="flex-1 flex flex-col min-h-0">
+        <div className="flex-1 overflow-y-auto p-6">
+          <p className={`mb-2 text-xs ${mutedText}`}>{getContentItemById(card.contentId)?.title ?? card.contentId}</p>
+          <h3 className="text-xl font-semibold">{card.question}</h3>
+          {revealed && (
+            <div className={`mt-6 pt-6 border-t ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+              <MarkdownRenderer content={card.answer} isDarkMode={isDarkMode} headingIdPrefix="card-" />
+            </div>
+          )}
+        </div>
+
+        <div className={`flex items-center justify-between p-4 border-t ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+          <button
+            onClick={() => {
+              onOpenCard(card.contentId, card.sectionId);
+              onClose();
+            }}
+            className={`flex items-center space-x-1 text-xs ${
+              isDarkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <ExternalLink className="w-3.5 h-3.5" />
+            <span>Open in guide</span>
+          </button>
+          {revealed ? (
+            <div className="flex space-x-2">
+              {GRADES.map(({ grade, label, key, className }) => (
+                <button
+                  key={grade}
+                  onClick={() => answer(grade)}
+                  title={`${label} (${key})`}
+                  className={`px-3 py-1.5 text-sm text-white rounded-md transition-colors ${className}`}
+                >
+                  {label}
+                  <span className="ml-1.5 text-xs opacity-75">{formatInterval(nextInterval(schedule, grade))}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <button
+              onClick={reveal}
+              title="Show answer (Space)"
+              className="flex items-center space-x-1.5 px-4 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              <Eye className="w-4 h-4" />
+              <span>Show answer</span>
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50"
+        onClick={onClose}
+      />
+
+      {/* Dialog */}
+      <div className={`relative w-full max-w-3xl h-[85vh] rounded-lg shadow-2xl flex flex-col ${
+        isDarkMode ? 'bg-theme-dark-bg text-theme-dark-text' : 'bg-theme-light-bg text-theme-light-text'
+      }`}>
+        {/* Header */}
+        <div className={`flex items-center justify-between p-4 border-b ${
+          isDarkMode ? 'border-gray-800' : 'border-gray-200'
+        }`}>
+          <div className="flex items-center space-x-2">
+            <Brain className="w-5 h-5 text-pink-500" />
+            <h2 className="font-semibold">Flashcards</h2>
+            {session.phase === 'reviewing' && (
+              <span className={`text-sm ${mutedText}`}>
+                {session.position + 1} of {session.queue.length}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            {session.phase === 'reviewing' && (
+              <button
+                onClick={() => setSession({ phase: 'overview' })}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+                }`}
+              >
+                End review
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className={`p-2 rounded-lg hover:bg-opacity-80 transition-colors ${
+                isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+              }`}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {session.phase === 'overview' && renderOverview()}
+
+        {session.phase === 'loading' && (
+          <div className="flex-1 flex items-center justify-center">
+            <div className={`animate-spin rounded-full h-8 w-8 border-b-2 ${
+              isDarkMode ? 'border-theme-dark-text' : 'border-theme-light-text'
+            }`}></div>
+            <span className="ml-3">Preparing cards...</span>
+          </div>
+        )}
+
+        {session.phase === 'reviewing' && current && renderCard(current, session.revealed)}
+
+        {session.phase === 'done' && (
+          <div className={`flex-1 flex flex-col items-center justify-center text-center ${mutedText}`}>
+            <PartyPopper className="w-10 h-10 mb-3 text-pink-500" />
+            <p className="text-lg">
+              {session.reviewed > 0
+                ? `Done for today: ${session.reviewed} review${session.reviewed !== 1 ? 's' : ''}`
+                : 'Nothing to review today'}
+            </p>
+            <button
+              onClick={() => setSession({ phase: 'overview' })}
+              className="mt-4 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Back to guides
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
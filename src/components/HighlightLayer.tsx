@@ -0,0 +1,387 @@
+import { useState, useEffect, useMemo, useRef, useCallback, type RefObject } from 'react';
+import { MessageSquare, Trash2, Check } from 'lucide-react';
+import { buildTextModel, describeRange, isOutsideTextModel, resolveAnchor, type TextModel } from '../utils/textAnchors';
+import { supportsHighlights } from '../utils/findInDocument';
+import { openDetailsAround } from '../utils/headingScroll';
+import { highlightSwatches, type HighlightAnchors, type HighlightFocusRequest } from '../utils/highlights';
+import { HIGHLIGHT_COLORS, type HighlightColor, type StoredHighlight } from '../utils/storage/schema';
+import { useUserState } from '../utils/storage/userStore';
+
+interface HighlightLayerProps {
+  containerRef: RefObject<HTMLElement>;
+  contentId: string;
+  sections: { id: string; title: string }[];
+  focusRequest: HighlightFocusRequest | null;
+  onAnchorsChange: (anchors: HighlightAnchors) => void;
+  isDarkMode: boolean;
+}
+
+type Popover =
+  | { type: 'selection'; range: Range; commenting: boolean }
+  | { type: 'highlight'; id: string; range: Range };
+
+const FOCUS_HIGHLIGHT = 'annotation-focus';
+const highlightName = (color: HighlightColor) => `annotation-${color}`;
+
+const findContentRoot = (container: HTMLElement | null) =>
+  container?.querySelector('[data-document-content]') ?? null;
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Text of the sections a long guide has not rendered yet (see sectionWindow.ts), which the text
+// model leaves out
+const unrenderedText = (root: Element) =>
+  collapseWhitespace(
+    [...root.querySelectorAll('[data-section-placeholder]')].map(placeholder => placeholder.textContent ?? '').join(' ')
+  );
+
+type CaretPositionDocument = Document & {
+  caretPositionFromPoint?: (x: number, y: number) => { offsetNode: Node; offset: number } | null;
+};
+
+// Text position under the pointer, for clicks on painted highlights
+const caretAt = (x: number, y: number): [Node, number] | null => {
+  const position = (document as CaretPositionDocument).caretPositionFromPoint?.(x, y);
+  if (position) return [position.offsetNode, position.offset];
+  const range = document.caretRangeFromPoint?.(x, y);
+  return range ? [range.startContainer, range.startOffset] : null;
+};
+
+export function HighlightLayer({
+  containerRef,
+  contentId,
+  sections,
+  focusRequest,
+  onAnchorsChange,
+  isDarkMode
+}: HighlightLayerProps) {
+  const [allHighlights, setHighlights] = useUserState('highlights');
+  const [domVersion, setDomVersion] = useState(0);
+  const [anchors, setAnchors] = useState<HighlightAnchors>(new Map());
+  const [popover, setPopover] = useState<Popover | null>(null);
+  const [comment, setComment] = useState('');
+  // Re-render the popover while the page scrolls, so it follows its passage
+  const [, setScrollTick] = useState(0);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const modelRef = useRef<TextModel | null>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const onAnchorsChangeRef = useRef(onAnchorsChange);
+  onAnchorsChangeRef.current = onAnchorsChange;
+  const handledFocusRef = useRef<HighlightFocusRequest | null>(null);
+
+  const highlights = useMemo(
+    () => allHighlights.filter(highlight => highlight.contentId === contentId),
+    [allHighlights, contentId]
+  );
+  // For the DOM observer, which outlives renders
+  const highlightsRef = useRef(highlights);
+  highlightsRef.current = highlights;
+  const anchorsRef = useRef(anchors);
+  anchorsRef.current = anchors;
+
+  const openHighlight = useCallback(
+    (id: string, range: Range) => {
+      setPopover({ type: 'highlight', id, range });
+      setComment(allHighlights.find(highlight => highlight.id === id)?.comment ?? '');
+      setFocusedId(id);
+    },
+    [allHighlights]
+  );
+
+  const closePopover = () => {
+    setPopover(null);
+    setFocusedId(null);
+  };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // Only changes that can move a highlight place them all again: not those to controls, and
+    // not sections of a long guide swapped in or out while scrolling unless they hold highlights
+    const needsPlacing = (record: MutationRecord) => {
+      const element = record.target instanceof Element ? record.target : record.target.parentElement;
+      const block = element?.closest('[data-section-block]');
+      if (!block) return true;
+      const anchors = anchorsRef.current;
+      return highlightsRef.current.some(highlight => {
+        const range = anchors.get(highlight.id);
+        return range === undefined || (range !== null && range.intersectsNode(block));
+      });
+    };
+
+    let frame = 0;
+    const observer = new MutationObserver(records => {
+      const relevant = records.filter(record => !isOutsideTextModel(record.target));
+      if (!relevant.length) return;
+      // Selections are described against a fresh model
+      modelRef.current = null;
+      if (!relevant.some(needsPlacing)) return;
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => setDomVersion(version => version + 1));
+    });
+    observer.observe(container, { childList: true, subtree: true, characterData: true });
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(frame);
+    };
+  }, [containerRef]);
+
+  // Place every highlight again whenever the guide or the highlights change
+  useEffect(() => {
+    const root = findContentRoot(containerRef.current);
+    const model = root ? buildTextModel(root) : null;
+    modelRef.current = model;
+
+    const resolved: HighlightAnchors = new Map();
+    if (root && model) {
+      let unrendered: string | undefined;
+      for (const highlight of highlights) {
+        const range = resolveAnchor(model, highlight);
+        if (range) {
+          resolved.set(highlight.id, range);
+          continue;
+        }
+        unrendered ??= unrenderedText(root);
+        // A passage in a section not rendered yet is neither placed nor stale
+        if (!unrendered.includes(collapseWhitespace(highlight.exact))) resolved.set(highlight.id, null);
+      }
+    }
+    setAnchors(resolved);
+    onAnchorsChangeRef.current(resolved);
+  }, [highlights, domVersion, containerRef]);
+
+  // Paint one highlight per color, below find-in-document matches
+  useEffect(() => {
+    if (!supportsHighlights()) return;
+
+    for (const color of HIGHLIGHT_COLORS) {
+      const ranges = highlights
+        .filter(highlight => highlight.color === color)
+        .map(highlight => anchors.get(highlight.id))
+        .filter((range): range is Range => !!range);
+      const painted = new Highlight(...ranges);
+      painted.priority = -1;
+      CSS.highlights.set(highlightName(color), painted);
+    }
+    const focused = focusedId ? anchors.get(focusedId) : null;
+    if (focused) CSS.highlights.set(FOCUS_HIGHLIGHT, new Highlight(focused));
+    else CSS.highlights.delete(FOCUS_HIGHLIGHT);
+  }, [highlights, anchors, focusedId]);
+
+  useEffect(
+    () => () => {
+      if (!supportsHighlights()) return;
+      HIGHLIGHT_COLORS.forEach(color => CSS.highlights.delete(highlightName(color)));
+      CSS.highlights.delete(FOCUS_HIGHLIGHT);
+    },
+    []
+  );
+
+  // Selecting text offers to highlight it; clicking a highlight opens it
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handlePointerUp = (event: MouseEvent | KeyboardEvent) => {
+      if (event instanceof KeyboardEvent && !event.shiftKey) return;
+      // Let the browser settle the selection first
+      setTimeout(() => {
+        const root = findContentRoot(container);
+        const selection = window.getSelection();
+        if (!root || !selection) return;
+
+        if (!selection.isCollapsed && selection.rangeCount > 0) {
+          const range = selection.getRangeAt(0);
+          if (root.contains(range.commonAncestorContainer)) {
+            setPopover({ type: 'selection', range: range.cloneRange(), commenting: false });
+            setComment('');
+          }
+          return;
+        }
+
+        if (!(event instanceof MouseEvent) || !root.contains(event.target as Node)) return;
+        const caret = caretAt(event.clientX, event.clientY);
+        if (!caret) return;
+        const hit = [...anchors].reverse().find(([, range]) => range?.isPointInRange(...caret));
+        if (hit?.[1]) openHighlight(hit[0], hit[1]);
+      });
+    };
+
+    container.addEventListener('mouseup', handlePointerUp);
+    container.addEventListener('keyup', handlePointerUp);
+    return () => {
+      container.removeEventListener('mouseup', handlePointerUp);
+      container.removeEventListener('keyup', handlePointerUp);
+    };
+  }, [containerRef, anchors, openHighlight]);
+
+  // Close on clicks elsewhere and on Escape; follow the passage while scrolling
+  useEffect(() => {
+    if (!popover) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!popoverRef.current?.contains(event.target as Node)) closePopover();
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') closePopover();
+    };
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => setScrollTick(tick => tick + 1));
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('scroll', handleScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, [popover]);
+
+  // Each request scrolls once, as soon as its highlight has been placed
+  useEffect(() => {
+    if (!focusRequest || handledFocusRef.current === focusRequest) return;
+    const range = anchors.get(focusRequest.id);
+    if (!range) return;
+    handledFocusRef.current = focusRequest;
+    openDetailsAround(range.startContainer.parentElement);
+    range.startContainer.parentElement?.scrollIntoView({ block: 'center', inline: 'nearest' });
+    openHighlight(focusRequest.id, range);
+  }, [focusRequest, anchors, openHighlight]);
+
+  const createHighlight = (color: HighlightColor, withComment: string) => {
+    if (popover?.type !== 'selection') return;
+    const root = findContentRoot(containerRef.current);
+    const anchor = root ? describeRange(modelRef.current ?? buildTextModel(root), popover.range) : null;
+    if (!anchor) {
+      closePopover();
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const highlight: StoredHighlight = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      contentId,
+      ...anchor,
+      sectionTitle: sections.find(section => section.id === anchor.sectionId)?.title ?? '',
+      color,
+      comment: withComment.trim(),
+      createdAt: now,
+      updatedAt: now
+    };
+    setHighlights(previous => [...previous, highlight]);
+    window.getSelection()?.removeAllRanges();
+    closePopover();
+  };
+
+  const updateHighlight = (id: string, changes: Partial<Pick<StoredHighlight, 'color' | 'comment'>>) =>
+    setHighlights(previous =>
+      previous.map(highlight =>
+        highlight.id === id ? { ...highlight, ...changes, updatedAt: new Date().toISOString() } : highlight
+      )
+    );
+
+  const deleteHighlight = (id: string) => {
+    setHighlights(previous => previous.filter(highlight => highlight.id !== id));
+    closePopover();
+  };
+
+  if (!popover) return null;
+
+  const rect = popover.range.getBoundingClientRect();
+  // Above the passage, or below it near the top of the window where the header is
+  const placeBelow = rect.top < 140;
+  const current = popover.type === 'highlight' ? highlights.find(highlight => highlight.id === popover.id) : undefined;
+  const showComment = popover.type === 'highlight' || popover.commenting;
+
+  return (
+    <div
+      ref={popoverRef}
+      style={{
+        left: Math.min(Math.max(rect.left + rect.width / 2, 160), window.innerWidth - 160),
+        top: placeBelow ? rect.bottom + 8 : rect.top - 8
+      }}
+      className={`fixed z-50 w-72 -translate-x-1/2 ${placeBelow ? '' : '-translate-y-full'} p-3 rounded-lg border shadow-xl text-sm ${
+        isDarkMode ? 'bg-theme-dark-bg border-gray-700 text-theme-dark-text' : 'bg-theme-light-bg border-gray-200 text-theme-light-text'
+      }`}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-1.5">
+          {HIGHLIGHT_COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() =>
+                popover.type === 'selection'
+                  ? createHighlight(color, popover.commenting ? comment : '')
+                  : updateHighlight(popover.id, { color })
+              }
+              title={popover.type === 'selection' ? `Highlight in ${color}` : `Change to ${color}`}
+              className={`flex items-center justify-center w-6 h-6 rounded-full ${highlightSwatches[color]} ${
+                current?.color === color ? 'ring-2 ring-offset-1 ring-gray-500' : ''
+              }`}
+            >
+              {current?.color === color && <Check className="w-3.5 h-3.5 text-gray-800" />}
+            </button>
+          ))}
+        </div>
+        {popover.type === 'selection' && !popover.commenting && (
+          <button
+            onClick={() => setPopover({ ...popover, commenting: true })}
+            title="Highlight with a comment"
+            className={`p-1.5 rounded-md ${isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'}`}
+          >
+            <MessageSquare className="w-4 h-4" />
+          </button>
+        )}
+        {popover.type === 'highlight' && (
+          <button
+            onClick={() => deleteHighlight(popover.id)}
+            title="Remove highlight"
+            className={`p-1.5 rounded-md ${isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'}`}
+          >
+            <Trash2 className="w-4 h-4 text-red-500" />
+          </button>
+        )}
+      </div>
+
+      {showComment && (
+        <div className="mt-3">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Add a comment..."
+            rows={3}
+            autoFocus={popover.type === 'selection'}
+            className={`w-full p-2 border rounded-md text-sm resize-none ${
+              isDarkMode ? 'bg-theme-dark-bg border-gray-700' : 'bg-theme-light-bg border-gray-300'
+            }`}
+          />
+          <div className="flex justify-end mt-2">
+            <button
+              onClick={() =>
+                popover.type === 'selection'
+                  ? createHighlight('yellow', comment)
+                  : updateHighlight(popover.id, { comment: comment.trim() })
+              }
+              disabled={popover.type === 'highlight' && comment.trim() === (current?.comment ?? '')}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {popover.type === 'selection' ? 'Highlight' : 'Save comment'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!supportsHighlights() && (
+        <p className={`mt-2 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          This browser cannot color highlights in the page; find them in the Highlights panel.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useMemo } from 'react';
+import { X, Highlighter, AlertTriangle, Trash2, MessageSquare } from 'lucide-react';
+import { highlightSwatches, sortByDocumentOrder, type HighlightAnchors } from '../utils/highlights';
+import { useUserState } from '../utils/storage/userStore';
+import type { StoredHighlight } from '../utils/storage/schema';
+
+interface HighlightsPanelProps {
+  contentId: string;
+  anchors: HighlightAnchors;
+  isOpen: boolean;
+  onClose: () => void;
+  onFocusHighlight: (id: string) => void;
+  isDarkMode: boolean;
+}
+
+export function HighlightsPanel({ contentId, anchors, isOpen, onClose, onFocusHighlight, isDarkMode }: HighlightsPanelProps) {
+  const [allHighlights, setHighlights] = useUserState('highlights');
+
+  const [placed, stale] = useMemo(() => {
+    const highlights = sortByDocumentOrder(
+      allHighlights.filter(highlight => highlight.contentId === contentId),
+      anchors
+    );
+    // Highlights not looked up yet count as placed until the layer reports otherwise
+    return [
+      highlights.filter(highlight => anchors.get(highlight.id) !== null),
+      highlights.filter(highlight => anchors.get(highlight.id) === null)
+    ];
+  }, [allHighlights, contentId, anchors]);
+
+  const deleteHighlight = (id: string) => setHighlights(previous => previous.filter(highlight => highlight.id !== id));
+
+  const focusHighlight = (highlight: StoredHighlight) => {
+    onFocusHighlight(highlight.id);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const renderHighlight = (highlight: StoredHighlight, isStale: boolean) => (
+    <li
+      key={highlight.id}
+      className={`flex rounded-lg border overflow-hidden ${
+        isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-gray-50 border-gray-200'
+      }`}
+    >
+      <span className={`w-1.5 shrink-0 ${highlightSwatches[highlight.color]}`} />
+      <div className="flex-1 min-w-0 p-3">
+        <div className="flex items-start justify-between">
+          <button
+            onClick={() => focusHighlight(highlight)}
+            disabled={isStale}
+            title={isStale ? undefined : 'Show in the guide'}
+            className={`flex-1 text-left text-sm line-clamp-3 enabled:hover:underline ${
+              isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
+            }`}
+          >
+            “{highlight.exact.trim()}”
+          </button>
+          <button
+            onClick={() => deleteHighlight(highlight.id)}
+            title="Remove highlight"
+            className={`p-1 ml-2 rounded transition-colors ${
+              isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-200'
+            }`}
+          >
+            <Trash2 className="w-3.5 h-3.5 text-red-500" />
+          </button>
+        </div>
+        {highlight.comment && (
+          <p className={`flex items-start space-x-1.5 mt-2 text-xs ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+            <MessageSquare className="w-3 h-3 mt-0.5 shrink-0" />
+            <span className="whitespace-pre-wrap">{highlight.comment}</span>
+          </p>
+        )}
+        <p className={`mt-2 text-xs truncate ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+          {highlight.sectionTitle || 'Introduction'}
+        </p>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50"
+        onClick={onClose}
+      />
+
+      {/* Panel */}
+      <div className={`relative ml-auto w-96 h-full shadow-2xl flex flex-col ${
+        isDarkMode ? 'bg-theme-dark-bg' : 'bg-theme-light-bg'
+      }`}>
+        {/* Header */}
+        <div className={`flex items-center justify-between p-4 border-b ${
+          isDarkMode ? 'border-gray-800' : 'border-gray-200'
+        }`}>
+          <div className="flex items-center space-x-2">
+            <Highlighter className="w-5 h-5 text-yellow-500" />
+            <h2 className={`font-semibold ${
+              isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
+            }`}>
+              Highlights
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className={`p-2 rounded-lg hover:bg-opacity-80 transition-colors ${
+              isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+            }`}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {placed.length > 0 && (
+            <ul className="space-y-2">
+              {placed.map(highlight => renderHighlight(highlight, false))}
+            </ul>
+          )}
+
+          {/* Anchors whose text changed too much to place them again */}
+          {stale.length > 0 && (
+            <section>
+              <div className={`flex items-start space-x-2 mb-2 p-3 rounded-lg border text-xs ${
+                isDarkMode ? 'bg-amber-900/30 border-amber-800 text-amber-200' : 'bg-amber-50 border-amber-200 text-amber-800'
+              }`}>
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                <span>
+                  {stale.length} highlight{stale.length !== 1 ? 's' : ''} could not be found in this version of
+                  the guide. The passage{stale.length !== 1 ? 's were' : ' was'} edited or removed.
+                </span>
+              </div>
+              <ul className="space-y-2 opacity-75">
+                {stale.map(highlight => renderHighlight(highlight, true))}
+              </ul>
+            </section>
+          )}
+
+          {placed.length === 0 && stale.length === 0 && (
+            <div className={`text-center py-8 ${
+              isDarkMode ? 'text-gray-400' : 'text-gray-500'
+            }`}>
+              <Highlighter className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              <p>No highlights in this guide</p>
+              <p className="text-sm mt-1">Select any passage to highlight it or add a comment</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,151 @@
 import React from 'react';
-import { Bookmark, BookmarkCheck, Copy, Check } from 'lucide-react';
+import { Bookmark, BookmarkCheck, StickyNote, RotateCcw } from 'lucide-react';
+import { MarkdownTable } from './MarkdownTable';
+import { MathFormula } from './MathFormula';
+import { CodeBlock } from './CodeBlock';
+import {
+  parseHtml,
+  parseMarkdown,
+  isHiddenHtmlTag,
+  type BlockNode,
+  type HeadingNode,
+  type HtmlNode,
+  type InlineNode,
+  type ListItemNode,
+  type ListNode,
+  type MarkdownRoot
+} from '../utils/markdown';
+import { collectHeadings } from '../utils/headingIds';
+import { collectTaskItems, countTasksBySection, isTaskChecked } from '../utils/taskLists';
+import { navigateToSection } from '../utils/router';
+import {
+  isLongDocument,
+  sectionBlockNodes,
+  splitSectionBlocks,
+  useSectionWindow,
+  type SectionBlock
+} from '../utils/sectionWindow';
 
 interface MarkdownRendererProps {
   content: string;
+  // `content` already parsed, as guides come compiled
+  root?: MarkdownRoot;
   isDarkMode: boolean;
-  bookmarks: string[];
-  onToggleBookmark: (sectionId: string) => void;
+  // Heading actions are left out when their handlers are, as in note previews
+  bookmarks?: string[];
+  onToggleBookmark?: (sectionId: string) => void;
+  // Notes per section ID, marking headings that already have notes
+  noteCounts?: Record<string, number>;
+  onAddNote?: (sectionId: string) => void;
+  // Keeps heading IDs unique when rendered next to a guide
+  headingIdPrefix?: string;
+  // Task-list checks by item key; without onToggleTask the boxes show the source, read-only
+  taskChecks?: Record<string, boolean>;
+  onToggleTask?: (key: string, checked: boolean) => void;
+  onResetTasks?: (keys: string[]) => void;
+  hideCompletedTasks?: boolean;
+  // Long documents render only the sections near the viewport
+  windowed?: boolean;
+  // Render every section of a windowed document for now, e.g. while find in document needs its text
+  renderAllSections?: boolean;
+  // Heading IDs whose sections stay rendered in a windowed document, e.g. for painted highlights
+  keptSectionIds?: string[];
 }
 
-export function MarkdownRenderer({ 
-  content, 
-  isDarkMode, 
-  bookmarks, 
-  onToggleBookmark 
+const NO_TASK_CHECKS: Record<string, boolean> = {};
+const NO_SECTION_IDS: string[] = [];
+
+// Placeholder text stays findable by the browser, which fires `beforematch` before showing it;
+// React only knows `hidden` as a boolean
+const hideUntilFound = (element: HTMLElement | null) => element?.setAttribute('hidden', 'until-found');
+
+// Matches the `- **Term**: definition` callout style used throughout the guides
+const getCallout = (item: ListItemNode) => {
+  const [first, ...rest] = item.children;
+  if (first?.type !== 'paragraph') return null;
+  const [term, next, ...definition] = first.children;
+  if (term?.type !== 'strong' || next?.type !== 'text' || !next.value.startsWith(':')) return null;
+
+  const remainder = next.value.slice(1).trimStart();
+  return {
+    term: term.children,
+    definition: remainder ? [{ type: 'text' as const, value: remainder }, ...definition] : definition,
+    blocks: rest
+  };
+};
+
+const headingClassNames: Record<number, string> = {
+  1: 'text-4xl font-bold mt-8 mb-6',
+  2: 'text-2xl font-semibold mt-12 mb-4',
+  3: 'text-xl font-semibold mt-8 mb-3',
+  4: 'text-lg font-bold mt-6 mb-2',
+  5: 'text-base font-semibold mt-4 mb-2',
+  6: 'text-sm font-semibold mt-4 mb-2'
+};
+
+const isExternalUrl = (url: string) => /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i.test(url);
+// Raw HTML links keep to the schemes Markdown links use in the guides
+const isSafeHtmlUrl = (url: string) => !/^[a-z][a-z0-9+.-]*:/i.test(url) || /^(?:https?|mailto):/i.test(url);
+
+// Raw HTML tags rendered as themselves; other tags render their content only
+const HTML_TEXT_TAGS = new Set(['b', 'strong', 'i', 'em', 'code']);
+const htmlAlignClassNames: Record<string, string> = { center: 'text-center', right: 'text-right' };
+
+export function MarkdownRenderer({
+  content,
+  root: compiledRoot,
+  isDarkMode,
+  bookmarks = [],
+  onToggleBookmark,
+  noteCounts = {},
+  onAddNote,
+  headingIdPrefix = '',
+  taskChecks = NO_TASK_CHECKS,
+  onToggleTask,
+  onResetTasks,
+  hideCompletedTasks = false,
+  windowed = false,
+  renderAllSections = false,
+  keptSectionIds = NO_SECTION_IDS
 }: MarkdownRendererProps) {
   const [copiedCode, setCopiedCode] = React.useState<string | null>(null);
+  const root = React.useMemo(() => compiledRoot ?? parseMarkdown(content), [compiledRoot, content]);
+  const headings = React.useMemo(() => collectHeadings(root), [root]);
+  const headingEntries = React.useMemo(() => new Map(headings.map(heading => [heading.node, heading])), [headings]);
+  const tasks = React.useMemo(() => collectTaskItems(root), [root]);
+  const tasksByNode = React.useMemo(() => new Map(tasks.map(task => [task.node, task])), [tasks]);
+  const taskCounts = React.useMemo(
+    () => countTasksBySection(headings, tasks, taskChecks),
+    [headings, tasks, taskChecks]
+  );
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const sectionBlocks = React.useMemo(() => (windowed ? splitSectionBlocks(root) : []), [windowed, root]);
+  const isWindowed = isLongDocument(sectionBlocks);
+  const blockByHeading = React.useMemo(() => {
+    const blocks = new Map<string, number>();
+    sectionBlocks.forEach((block, index) =>
+      block.headings.forEach(node => blocks.set(`${headingIdPrefix}${headingEntries.get(node)?.id ?? ''}`, index))
+    );
+    return blocks;
+  }, [sectionBlocks, headingEntries, headingIdPrefix]);
+  // A section's text runs on past its heading's block, up to the next heading, wherever the
+  // blocks were split; '' is the text above the first heading
+  const keptBlocks = React.useMemo(() => {
+    const kept = new Set<number>();
+    if (!sectionBlocks.length) return kept;
+    const ids = headings.map(heading => `${headingIdPrefix}${heading.id}`);
+    const positions = new Map(ids.map((id, position) => [id, position]));
+    for (const id of new Set(keptSectionIds)) {
+      const position = id ? positions.get(id) : -1;
+      if (position === undefined) continue;
+      const from = position === -1 ? 0 : blockByHeading.get(id) ?? 0;
+      const next = ids[position + 1];
+      const to = next === undefined ? sectionBlocks.length - 1 : blockByHeading.get(next) ?? from;
+      for (let index = from; index <= to; index++) kept.add(index);
+    }
+    return kept;
+  }, [keptSectionIds, headings, headingIdPrefix, blockByHeading, sectionBlocks]);
+  const sectionWindow = useSectionWindow(containerRef, root, blockByHeading, isWindowed);
 
   const copyToClipboard = async (text: string, id: string) => {
     try {
@@ -26,192 +157,350 @@ export function MarkdownRenderer({
     }
   };
 
-  // Simple markdown parser for demonstration
-  const parseMarkdown = (text: string) => {
-    const lines = text.split('\n');
-    const elements: React.ReactElement[] = [];
-    let currentCodeBlock = '';
-    let inCodeBlock = false;
-    let codeBlockLanguage = '';
-    let codeBlockId = 0;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      if (line.startsWith('```')) {
-        if (inCodeBlock) {
-          // End code block
-          const blockId = `code-${codeBlockId++}`;
-          elements.push(
-            <div key={blockId} className="relative group">
-              <button
-                onClick={() => copyToClipboard(currentCodeBlock, blockId)}
-                className={`absolute top-3 right-3 p-2 rounded-md opacity-0 group-hover:opacity-100 transition-opacity ${
-                  isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
-                }`}
-              >
-                {copiedCode === blockId ? (
-                  <Check className="w-4 h-4 text-green-500" />
-                ) : (
-                  <Copy className="w-4 h-4" />
-                )}
-              </button>
-              <pre className={`rounded-lg p-4 overflow-x-auto ${
-                isDarkMode ? 'bg-gray-800 text-dark-text' : 'bg-gray-100 text-gray-900'
-              }`}>
-                <code className={`language-${codeBlockLanguage}`}>
-                  {currentCodeBlock}
-                </code>
-              </pre>
-            </div>
+  const renderLink = (url: string, title: string | undefined, children: React.ReactNode, key: string) => (
+    <a
+      key={key}
+      href={url}
+      title={title}
+      {...(isExternalUrl(url) ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+      onClick={url.startsWith('#') ? (e) => {
+        const sectionId = decodeURIComponent(url.slice(1));
+        if (!document.getElementById(sectionId)) return;
+        e.preventDefault();
+        navigateToSection(sectionId);
+      } : undefined}
+    >
+      {children}
+    </a>
+  );
+
+  // Raw HTML from the guides through a small allowlist: layout and text tags become elements,
+  // anything else (images, forms, scripts…) shows its text or nothing
+  const renderHtml = (nodes: HtmlNode[], keyPrefix: string): React.ReactNode[] =>
+    nodes.map((node, index) => {
+      const key = `${keyPrefix}-${index}`;
+      if (node.type === 'text') return node.value;
+      // Empty wrappers, e.g. a `<p>` closed in a later HTML block, would only add margins
+      if (isHiddenHtmlTag(node.tag) || (node.tag !== 'br' && node.children.length === 0)) return null;
+      const children = renderHtml(node.children, key);
+      const alignClassName = htmlAlignClassNames[node.attributes.align?.toLowerCase() ?? ''] ?? '';
+      const textClassName = isDarkMode ? 'text-dark-subtle' : 'text-gray-700';
+
+      switch (node.tag) {
+        case 'br':
+          return <br key={key} />;
+        case 'p':
+          return <p key={key} className={`mb-4 leading-relaxed ${textClassName} ${alignClassName}`}>{children}</p>;
+        case 'div':
+          return <div key={key} className={alignClassName}>{children}</div>;
+        case 'a': {
+          const href = node.attributes.href ?? '';
+          return href && isSafeHtmlUrl(href)
+            ? renderLink(href, node.attributes.title, children, key)
+            : <React.Fragment key={key}>{children}</React.Fragment>;
+        }
+        case 'ul':
+          return <ul key={key}>{children}</ul>;
+        case 'ol':
+          return <ol key={key}>{children}</ol>;
+        case 'li':
+          return <li key={key} className={`mb-2 ${textClassName}`}>{children}</li>;
+        case 'details': {
+          const summary = node.children.find(child => child.type === 'element' && child.tag === 'summary');
+          return renderDetails(
+            'open' in node.attributes,
+            summary?.type === 'element' ? renderHtml(summary.children, `${key}-summary`) : 'Details',
+            renderHtml(node.children.filter(child => child !== summary), key),
+            key
           );
-          currentCodeBlock = '';
-          inCodeBlock = false;
-          codeBlockLanguage = '';
-        } else {
-          // Start code block
-          inCodeBlock = true;
-          codeBlockLanguage = line.slice(3);
         }
-        continue;
+        default: {
+          if (!HTML_TEXT_TAGS.has(node.tag)) return <React.Fragment key={key}>{children}</React.Fragment>;
+          const Tag = node.tag as 'b' | 'strong' | 'i' | 'em' | 'code';
+          return <Tag key={key} className={node.tag === 'b' || node.tag === 'strong' ? 'font-bold' : undefined}>{children}</Tag>;
+        }
       }
+    });
 
-      if (inCodeBlock) {
-        currentCodeBlock += line + '\n';
-        continue;
+  const renderDetails = (open: boolean, summary: React.ReactNode, body: React.ReactNode, key: string) => (
+    <details key={key} open={open} className={`mb-4 px-4 py-2 rounded-lg border ${
+      isDarkMode ? 'border-gray-700' : 'border-gray-200'
+    }`}>
+      <summary className={`cursor-pointer font-semibold ${isDarkMode ? 'text-dark-muted' : 'text-gray-800'}`}>
+        {summary}
+      </summary>
+      <div className="mt-3">{body}</div>
+    </details>
+  );
+
+  const renderInline = (nodes: InlineNode[], keyPrefix: string): React.ReactNode[] =>
+    nodes.map((node, index) => {
+      const key = `${keyPrefix}-${index}`;
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'strong':
+          return <strong key={key} className="font-bold">{renderInline(node.children, key)}</strong>;
+        case 'emphasis':
+          return <em key={key}>{renderInline(node.children, key)}</em>;
+        case 'delete':
+          return <del key={key}>{renderInline(node.children, key)}</del>;
+        case 'inlineCode':
+          return <code key={key}>{node.value}</code>;
+        case 'inlineMath':
+          return <MathFormula key={key} value={node.value} displayMode={node.display} inline />;
+        case 'link':
+          return renderLink(node.url, node.title, renderInline(node.children, key), key);
+        case 'image':
+          return <img key={key} src={node.url} alt={node.alt} title={node.title} loading="lazy" />;
+        case 'break':
+          return <br key={key} />;
+        case 'htmlInline':
+          return null;
       }
+    });
 
-      if (line.startsWith('# ')) {
-        const title = line.slice(2);
-        elements.push(
-          <h1 key={i} className={`text-4xl font-bold mt-8 mb-6 ${
-            isDarkMode ? 'text-dark-text' : 'text-gray-900'
-          }`}>
-            {title}
-          </h1>
+  const renderListItemContent = (item: ListItemNode, loose: boolean, key: string) =>
+    loose
+      ? renderBlocks(item.children, key, 1)
+      : item.children.map((child, index) =>
+          child.type === 'paragraph'
+            ? <React.Fragment key={`${key}-${index}`}>{renderInline(child.children, `${key}-${index}`)}</React.Fragment>
+            : renderBlock(child, `${key}-${index}`, 1)
         );
-      } else if (line.startsWith('## ')) {
-        const match = line.match(/^## (.+?)(?:\s+\{#(.+?)\})?$/);
-        const title = match?.[1] || line.slice(3);
-        const id = match?.[2] || title.toLowerCase().replace(/\s+/g, '-');
-        const isBookmarked = bookmarks.includes(id);
-
-        elements.push(
-          <div key={i} id={id} className="group relative">
-            <h2 className={`text-2xl font-semibold mt-12 mb-4 scroll-mt-20 ${
-              isDarkMode ? 'text-dark-text' : 'text-gray-900'
-            }`}>
-              {title}
-              <button
-                onClick={() => onToggleBookmark(id)}
-                className="ml-3 opacity-0 group-hover:opacity-100 transition-opacity"
-              >
-                {isBookmarked ? (
-                  <BookmarkCheck className="w-5 h-5 text-amber-500 inline" />
-                ) : (
-                  <Bookmark className="w-5 h-5 text-gray-400 hover:text-amber-500 inline" />
-                )}
-              </button>
-            </h2>
+
+  const renderListItem = (item: ListItemNode, loose: boolean, key: string) => {
+    const itemClassName = `mb-2 ${isDarkMode ? 'text-dark-subtle' : 'text-gray-700'}`;
+    const task = tasksByNode.get(item);
+    if (!task) {
+      return (
+        <li key={key} className={itemClassName}>
+          {renderListItemContent(item, loose, key)}
+        </li>
+      );
+    }
+
+    const checked = isTaskChecked(task, taskChecks);
+    if (checked && hideCompletedTasks) return null;
+    return (
+      <li key={key} className={`${itemClassName} flex items-start list-none`}>
+        <input
+          type="checkbox"
+          checked={checked}
+          disabled={!onToggleTask}
+          onChange={(e) => onToggleTask?.(task.key, e.target.checked)}
+          aria-label={task.text}
+          className="mt-1.5 mr-2 shrink-0 accent-blue-600 cursor-pointer disabled:cursor-default"
+        />
+        <div className={`min-w-0 ${checked ? 'opacity-60' : ''}`}>{renderListItemContent(item, loose, key)}</div>
+      </li>
+    );
+  };
+
+  const renderList = (node: ListNode, key: string, depth: number) => {
+    if (node.ordered) {
+      return (
+        <ol key={key} start={node.start === 1 ? undefined : node.start}>
+          {node.children.map((item, index) => renderListItem(item, node.loose, `${key}-${index}`))}
+        </ol>
+      );
+    }
+
+    // Top-level callout items break out of the list into their own cards
+    const groups: React.ReactNode[] = [];
+    let pending: React.ReactNode[] = [];
+    const flushPending = () => {
+      if (pending.length) {
+        groups.push(<ul key={`${key}-ul-${groups.length}`}>{pending}</ul>);
+        pending = [];
+      }
+    };
+
+    node.children.forEach((item, index) => {
+      const itemKey = `${key}-${index}`;
+      // Task items keep their checkbox even when written like callouts
+      const callout = depth === 0 && item.checked === undefined ? getCallout(item) : null;
+      if (!callout) {
+        pending.push(renderListItem(item, node.loose, itemKey));
+        return;
+      }
+
+      flushPending();
+      groups.push(
+        <div key={itemKey} className={`mb-3 p-4 rounded-lg border-l-4 border-blue-500 ${
+          isDarkMode ? 'bg-gray-800' : 'bg-blue-50'
+        }`}>
+          <div className="font-semibold text-blue-600 mb-1">{renderInline(callout.term, `${itemKey}-term`)}</div>
+          <div className={isDarkMode ? 'text-dark-subtle' : 'text-gray-700'}>
+            {renderInline(callout.definition, `${itemKey}-def`)}
           </div>
-        );
-      } else if (line.startsWith('#### ')) {
-        const title = line.slice(5);
-        elements.push(
-          <h4 key={i} className={`text-lg font-bold mt-6 mb-2 ${
-            isDarkMode ? 'text-dark-muted' : 'text-gray-800'
-          }`}>
-            {title}
-          </h4>
-        );
-      } else if (line.startsWith('### ')) {
-        const title = line.slice(4);
-        elements.push(
-          <h3 key={i} className={`text-xl font-semibold mt-8 mb-3 ${
-            isDarkMode ? 'text-dark-muted' : 'text-gray-800'
-          }`}>
-            {title}
-          </h3>
-        );
-      } else if (line.startsWith('- **')) {
-        const match = line.match(/^- \*\*(.+?)\*\*:\s*(.+)$/);
-        if (match) {
-          const [, term, definition] = match;
-          elements.push(
-            <div key={i} className={`mb-3 p-4 rounded-lg border-l-4 border-blue-500 ${
-              isDarkMode ? 'bg-gray-800' : 'bg-blue-50'
-            }`}>
-              <div className="font-semibold text-blue-600 mb-1">{term}</div>
-              <div className={isDarkMode ? 'text-dark-subtle' : 'text-gray-700'}>
-                {definition}
-              </div>
-            </div>
-          );
-        }
-      } else if (line.startsWith('- ')) {
-        const text = line.slice(2);
-        elements.push(
-          <li key={i} className={`mb-2 ${
+          {callout.blocks.length > 0 && (
+            <div className="mt-2">{renderBlocks(callout.blocks, `${itemKey}-blocks`, 1)}</div>
+          )}
+        </div>
+      );
+    });
+    flushPending();
+
+    return groups.length === 1 ? groups[0] : <React.Fragment key={key}>{groups}</React.Fragment>;
+  };
+
+  const renderHeading = (node: HeadingNode, key: string) => {
+    const sectionId = headingEntries.get(node)?.id ?? '';
+    const id = `${headingIdPrefix}${sectionId}`;
+    const taskCount = taskCounts.get(sectionId);
+    const isBookmarked = bookmarks.includes(id);
+    const noteCount = noteCounts[id] ?? 0;
+    const Tag = `h${node.level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+    const iconSize = node.level <= 2 ? 'w-5 h-5' : 'w-4 h-4';
+
+    return (
+      <Tag
+        key={key}
+        id={id}
+        className={`group relative scroll-mt-20 ${headingClassNames[node.level]} ${
+          node.level <= 2
+            ? (isDarkMode ? 'text-dark-text' : 'text-gray-900')
+            : (isDarkMode ? 'text-dark-muted' : 'text-gray-800')
+        }`}
+      >
+        {renderInline(node.children, key)}
+        {onToggleBookmark && (
+          <button
+            onClick={() => onToggleBookmark(id)}
+            className="ml-3 opacity-0 group-hover:opacity-100 transition-opacity"
+          >
+            {isBookmarked ? (
+              <BookmarkCheck className={`${iconSize} text-amber-500 inline`} />
+            ) : (
+              <Bookmark className={`${iconSize} text-gray-400 hover:text-amber-500 inline`} />
+            )}
+          </button>
+        )}
+        {onAddNote && (
+          <button
+            onClick={() => onAddNote(id)}
+            title={noteCount > 0 ? `Add a note on this section (${noteCount} so far)` : 'Add a note on this section'}
+            className={`ml-2 transition-opacity ${noteCount > 0 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+          >
+            <StickyNote className={`${iconSize} inline ${
+              noteCount > 0 ? 'text-emerald-500' : 'text-gray-400 hover:text-emerald-500'
+            }`} />
+          </button>
+        )}
+        {taskCount && onToggleTask && (
+          <span
+            title={`${taskCount.done} of ${taskCount.total} items checked`}
+            className={`ml-3 align-middle text-sm font-normal ${
+              taskCount.done === taskCount.total ? 'text-green-500' : isDarkMode ? 'text-gray-400' : 'text-gray-500'
+            }`}
+          >
+            {taskCount.done}/{taskCount.total}
+          </span>
+        )}
+        {taskCount && onResetTasks && taskCount.done > 0 && (
+          <button
+            onClick={() => onResetTasks(taskCount.keys)}
+            title="Reset this section's checklist"
+            className="ml-2 opacity-0 group-hover:opacity-100 transition-opacity"
+          >
+            <RotateCcw className="w-4 h-4 inline text-gray-400 hover:text-red-500" />
+          </button>
+        )}
+      </Tag>
+    );
+  };
+
+  const renderBlock = (node: BlockNode, key: string, depth: number): React.ReactNode => {
+    switch (node.type) {
+      case 'heading':
+        return renderHeading(node, key);
+      case 'paragraph':
+        return (
+          <p key={key} className={`mb-4 leading-relaxed ${
             isDarkMode ? 'text-dark-subtle' : 'text-gray-700'
           }`}>
-            {text}
-          </li>
+            {renderInline(node.children, key)}
+          </p>
         );
-      } else if (line.trim() === '---') {
-        elements.push(
-          <hr key={i} className={`my-8 border-t ${
+      case 'code': {
+        const blockId = `code-${key}`;
+        return (
+          <CodeBlock
+            key={blockId}
+            code={node.value}
+            lang={node.lang}
+            meta={node.meta}
+            isDarkMode={isDarkMode}
+            copied={copiedCode === blockId}
+            onCopy={(text) => copyToClipboard(text, blockId)}
+          />
+        );
+      }
+      case 'math':
+        return node.value ? <MathFormula key={key} value={node.value} displayMode /> : null;
+      case 'blockquote':
+        return <blockquote key={key}>{renderBlocks(node.children, key, depth)}</blockquote>;
+      case 'list':
+        return renderList(node, key, depth);
+      case 'table':
+        return <MarkdownTable key={key} table={node} isDarkMode={isDarkMode} renderInline={renderInline} />;
+      case 'thematicBreak':
+        return (
+          <hr key={key} className={`my-8 border-t ${
             isDarkMode ? 'border-gray-700' : 'border-gray-300'
           }`} />
         );
-      } else if (line.startsWith('*') && line.endsWith('*')) {
-        const text = line.slice(1, -1);
-        elements.push(
-          <p key={i} className={`text-center italic mt-8 ${
-            isDarkMode ? 'text-dark-muted' : 'text-gray-600'
-          }`}>
-            {text}
-          </p>
-        );
-      } else if (line.trim()) {
-        // Process bold text within ** ** patterns
-        const parts = [];
-        let lastIndex = 0;
-        let boldPattern = /\*\*(.*?)\*\*/g;
-        let match;
-        
-        while ((match = boldPattern.exec(line)) !== null) {
-          // Add text before the match
-          if (match.index > lastIndex) {
-            parts.push(line.substring(lastIndex, match.index));
-          }
-          
-          // Add the bold text
-          parts.push(<span key={`bold-${match.index}`} className="font-bold">{match[1]}</span>);
-          
-          lastIndex = match.index + match[0].length;
-        }
-        
-        // Add any remaining text
-        if (lastIndex < line.length) {
-          parts.push(line.substring(lastIndex));
-        }
-        
-        elements.push(
-          <p key={i} className={`mb-4 leading-relaxed ${
-            isDarkMode ? 'text-dark-subtle' : 'text-gray-700'
-          }`}>
-            {parts.length > 0 ? parts : line}
-          </p>
+      case 'html':
+        return <React.Fragment key={key}>{renderHtml(parseHtml(node.value), key)}</React.Fragment>;
+      case 'details':
+        return renderDetails(
+          node.open,
+          renderHtml(parseHtml(node.summary), `${key}-summary`),
+          renderBlocks(node.children, key, depth),
+          key
         );
-      }
     }
+  };
+
+  const renderBlocks = (nodes: BlockNode[], keyPrefix: string, depth: number) =>
+    nodes.map((node, index) => renderBlock(node, `${keyPrefix}-${index}`, depth));
 
-    return elements;
+  // The wrapper stays the same element either way, so it is observed and measured throughout
+  const renderSectionBlock = (block: SectionBlock, index: number) => {
+    const rendered = renderAllSections || keptBlocks.has(index) || sectionWindow.isRendered(index);
+    return (
+      <div
+        key={`s-${index}`}
+        data-section-block={index}
+        data-section-placeholder={rendered ? undefined : ''}
+        className={rendered ? 'flow-root space-y-4' : 'flow-root'}
+        style={rendered ? undefined : { height: sectionWindow.heightOf(index, block) }}
+      >
+        {rendered
+          ? sectionBlockNodes(root, block).map((node, offset) =>
+              renderBlock(node, `b-${block.start + offset}${block.items ? `-${block.items.from}` : ''}`, 0)
+            )
+          : (
+            <>
+              {block.headings.map(node => (
+                <span
+                  key={node.line}
+                  id={`${headingIdPrefix}${headingEntries.get(node)?.id ?? ''}`}
+                  data-heading-placeholder
+                  className="block"
+                />
+              ))}
+              <div ref={hideUntilFound} data-find-ignore>{block.text}</div>
+            </>
+          )}
+      </div>
+    );
   };
 
   return (
-    <div className="space-y-4">
-      {parseMarkdown(content)}
+    <div ref={containerRef} className="space-y-4">
+      {isWindowed ? sectionBlocks.map(renderSectionBlock) : renderBlocks(root.children, 'b', 0)}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Filter, X } from 'lucide-react';
+import { inlineToText, type InlineNode, type TableNode } from '../utils/markdown';
+
+interface MarkdownTableProps {
+  table: TableNode;
+  isDarkMode: boolean;
+  renderInline: (nodes: InlineNode[], keyPrefix: string) => React.ReactNode[];
+}
+
+type SortDirection = 'asc' | 'desc';
+
+// Small tables are easy to scan without a filter box
+const FILTER_MIN_ROWS = 6;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const toNumber = (text: string) => Number(text.replace(/[,\s]/g, ''));
+
+// A column sorts as numbers only when every filled cell is one; mixing number and text
+// comparisons within a column would not give a consistent order
+const isNumericColumn = (texts: string[]) => texts.every(text => !text || !Number.isNaN(toNumber(text)));
+
+// Compares filled cells; empty ones are placed by the caller
+const compareCells = (a: string, b: string, numeric: boolean) =>
+  numeric ? toNumber(a) - toNumber(b) : collator.compare(a, b);
+
+export function MarkdownTable({ table, isDarkMode, renderInline }: MarkdownTableProps) {
+  const [sort, setSort] = useState<{ column: number; direction: SortDirection } | null>(null);
+  const [filter, setFilter] = useState('');
+
+  const rowTexts = useMemo(
+    () => table.rows.map(row => row.map(cell => inlineToText(cell.children).trim())),
+    [table]
+  );
+
+  const visibleRows = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    let indices = table.rows.map((_, index) => index);
+
+    if (query) {
+      indices = indices.filter(index =>
+        rowTexts[index].some(text => text.toLowerCase().includes(query))
+      );
+    }
+
+    if (sort) {
+      const factor = sort.direction === 'asc' ? 1 : -1;
+      const column = rowTexts.map(texts => texts[sort.column] ?? '');
+      const numeric = isNumericColumn(column);
+      indices = [...indices].sort((a, b) => {
+        const textA = column[a];
+        const textB = column[b];
+        // Empty cells sort last in either direction
+        if (!textA || !textB) return textA ? -1 : textB ? 1 : a - b;
+        const result = compareCells(textA, textB, numeric);
+        return result === 0 ? a - b : result * factor;
+      });
+    }
+
+    return indices;
+  }, [table, rowTexts, filter, sort]);
+
+  // Cycle ascending → descending → original order
+  const toggleSort = (column: number) => {
+    setSort(prev => {
+      if (!prev || prev.column !== column) return { column, direction: 'asc' };
+      if (prev.direction === 'asc') return { column, direction: 'desc' };
+      return null;
+    });
+  };
+
+  const borderClass = isDarkMode ? 'border-gray-700' : 'border-gray-200';
+
+  return (
+    <div className="mb-6">
+      {table.rows.length >= FILTER_MIN_ROWS && (
+        <div className="flex items-center justify-between mb-2 gap-3">
+          <div className="relative flex-1 max-w-xs">
+            <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter rows..."
+              className={`w-full pl-9 pr-8 py-1.5 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                isDarkMode
+                  ? 'bg-theme-dark-bg border-gray-700 text-theme-dark-text placeholder-gray-400'
+                  : 'bg-theme-light-bg border-gray-300 text-theme-light-text placeholder-gray-500'
+              }`}
+            />
+            {filter && (
+              <button
+                onClick={() => setFilter('')}
+                className="absolute right-2 top-1/2 transform -translate-y-1/2 p-0.5 rounded text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          <span className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {visibleRows.length === table.rows.length
+              ? `${table.rows.length} rows`
+              : `${visibleRows.length} of ${table.rows.length} rows`}
+          </span>
+        </div>
+      )}
+
+      <div className={`overflow-x-auto rounded-lg border ${borderClass}`}>
+        <table className="w-full text-sm border-collapse">
+          <thead className={isDarkMode ? 'bg-gray-800' : 'bg-gray-50'}>
+            <tr>
+              {table.head.map((cell, column) => {
+                const direction = sort?.column === column ? sort.direction : null;
+                const SortIcon = direction === 'asc' ? ArrowUp : direction === 'desc' ? ArrowDown : ArrowUpDown;
+                return (
+                  <th
+                    key={column}
+                    scope="col"
+                    aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none'}
+                    style={{ textAlign: table.align[column] ?? 'left' }}
+                    className={`px-4 py-2 font-semibold border-b ${borderClass} ${
+                      isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
+                    }`}
+                  >
+                    <button
+                      onClick={() => toggleSort(column)}
+                      className="group inline-flex items-center space-x-1"
+                    >
+                      <span>{renderInline(cell.children, `th-${column}`)}</span>
+                      <SortIcon className={`w-3.5 h-3.5 shrink-0 transition-opacity ${
+                        direction ? 'opacity-100 text-blue-600' : 'opacity-0 group-hover:opacity-60'
+                      }`} />
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(rowIndex => (
+              <tr
+                key={rowIndex}
+                className={`border-b last:border-b-0 ${borderClass} ${
+                  isDarkMode ? 'hover:bg-gray-900' : 'hover:bg-gray-50'
+                }`}
+              >
+                {table.rows[rowIndex].map((cell, column) => (
+                  <td
+                    key={column}
+                    style={{ textAlign: table.align[column] ?? undefined }}
+                    className={`px-4 py-2 align-top ${isDarkMode ? 'text-dark-subtle' : 'text-gray-700'}`}
+                  >
+                    {renderInline(cell.children, `td-${rowIndex}-${column}`)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {visibleRows.length === 0 && (
+              <tr>
+                <td
+                  colSpan={table.head.length}
+                  className={`px-4 py-6 text-center ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}
+                >
+                  No rows match "{filter}"
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { useMemo } from 'react';
+import katex from 'katex';
+import 'katex/dist/katex.min.css';
+
+interface MathFormulaProps {
+  value: string;
+  displayMode: boolean;
+  // Inside a paragraph, where a <div> is not allowed
+  inline?: boolean;
+}
+
+export function MathFormula({ value, displayMode, inline = false }: MathFormulaProps) {
+  // KaTeX reports malformed TeX inline (in red) instead of throwing
+  const html = useMemo(
+    () => katex.renderToString(value, { displayMode, throwOnError: false, output: 'html' }),
+    [value, displayMode]
+  );
+
+  if (displayMode && inline) {
+    return <span className="block my-4 overflow-x-auto overflow-y-hidden" dangerouslySetInnerHTML={{ __html: html }} />;
+  }
+  if (displayMode) {
+    return <div className="my-4 overflow-x-auto overflow-y-hidden" dangerouslySetInnerHTML={{ __html: html }} />;
+  }
+  return <span dangerouslySetInnerHTML={{ __html: html }} />;
+}
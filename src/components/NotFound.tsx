@@ -0,0 +1,85 @@
+import { FileQuestion, ArrowRight, BookOpen } from 'lucide-react';
+import { contentItems } from '../utils/documentLoader';
+import type { ContentItem } from '../utils/catalog';
+import { DEFAULT_CONTENT_ID } from '../utils/router';
+
+interface NotFoundProps {
+  // The guide ID that does not exist, or null when the whole path is unknown
+  contentId: string | null;
+  path: string;
+  onOpenContent: (contentId: string) => void;
+  isDarkMode: boolean;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+// Guides whose ID or title shares a word with the missing ID, e.g. "sql" for "sql-101"
+const suggestContent = (contentId: string): ContentItem[] => {
+  const words = contentId.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 1);
+  if (words.length === 0) return [];
+
+  return contentItems
+    .map(item => {
+      const haystack = `${item.id} ${item.title}`.toLowerCase();
+      return { item, score: words.filter(word => haystack.includes(word)).length };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ item }) => item);
+};
+
+export function NotFound({ contentId, path, onOpenContent, isDarkMode }: NotFoundProps) {
+  const suggestions = contentId ? suggestContent(contentId) : [];
+  const defaultItem = contentItems.find(item => item.id === DEFAULT_CONTENT_ID);
+
+  return (
+    <div className="text-center py-16">
+      <FileQuestion className={`w-12 h-12 mx-auto mb-4 ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`} />
+      <h1 className="text-2xl font-bold mb-2">
+        {contentId ? 'Guide not found' : 'Page not found'}
+      </h1>
+      <p className={`mb-8 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+        {contentId ? (
+          <>There is no guide called <code className="font-mono">{contentId}</code>.</>
+        ) : (
+          <>Nothing lives at <code className="font-mono">{path}</code>.</>
+        )}
+      </p>
+
+      {suggestions.length > 0 && (
+        <div className="max-w-sm mx-auto mb-8 text-left">
+          <h2 className={`text-sm font-semibold mb-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            Did you mean
+          </h2>
+          <div className="space-y-2">
+            {suggestions.map(item => (
+              <button
+                key={item.id}
+                onClick={() => onOpenContent(item.id)}
+                className={`w-full flex items-center justify-between px-4 py-3 rounded-lg border text-sm transition-colors ${
+                  isDarkMode
+                    ? 'bg-gray-800 border-gray-700 hover:bg-gray-700'
+                    : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
+                }`}
+              >
+                <span className="font-medium">{item.title}</span>
+                <ArrowRight className="w-4 h-4 text-gray-400" />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {defaultItem && (
+        <button
+          onClick={() => onOpenContent(defaultItem.id)}
+          className="inline-flex items-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 transition-colors"
+        >
+          <BookOpen className="w-4 h-4" />
+          <span>Go to {defaultItem.title}</span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { useState, type KeyboardEvent } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { MarkdownRenderer } from './MarkdownRenderer';
+import { TagInput } from './TagInput';
+import type { DocumentSection } from '../utils/compileGuide';
+import type { StoredNote } from '../utils/storage/schema';
+
+export interface NoteDraft {
+  title: string;
+  content: string;
+  sectionId: string;
+  tags: string[];
+}
+
+interface NoteEditorProps {
+  // The note being edited, or null for a new one
+  note: StoredNote | null;
+  initialSectionId: string;
+  // Sections of the open guide; a note from another guide keeps its anchor
+  sections: DocumentSection[];
+  anchorLocked: boolean;
+  tagSuggestions: string[];
+  onSave: (draft: NoteDraft) => void;
+  onCancel: () => void;
+  isDarkMode: boolean;
+}
+
+const formatRevisionDate = (iso: string) =>
+  new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).format(new Date(iso));
+
+export function NoteEditor({
+  note,
+  initialSectionId,
+  sections,
+  anchorLocked,
+  tagSuggestions,
+  onSave,
+  onCancel,
+  isDarkMode
+}: NoteEditorProps) {
+  const [draft, setDraft] = useState<NoteDraft>(() =>
+    note
+      ? { title: note.title, content: note.content, sectionId: note.sectionId, tags: note.tags }
+      : { title: '', content: '', sectionId: initialSectionId, tags: [] }
+  );
+  const [showHistory, setShowHistory] = useState(false);
+  // Date of the revision loaded into the draft, until it is saved
+  const [restoredFrom, setRestoredFrom] = useState<string | null>(null);
+
+  const canSave = draft.title.trim() !== '' && draft.content.trim() !== '';
+
+  const save = () => {
+    if (canSave) onSave({ ...draft, title: draft.title.trim() });
+  };
+
+  // Ctrl+Enter saves from any field
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if ((event.ctrlKey || event.metaKey) && event.key === 'Enter') {
+      event.preventDefault();
+      save();
+    }
+  };
+
+  const fieldClassName = `w-full p-2 border rounded-md text-sm ${
+    isDarkMode
+      ? 'bg-theme-dark-bg border-gray-700 text-theme-dark-text'
+      : 'bg-theme-light-bg border-gray-300 text-theme-light-text'
+  }`;
+
+  return (
+    <div
+      onKeyDown={handleKeyDown}
+      className={`p-4 border-b space-y-2 ${
+        isDarkMode ? 'border-gray-800 bg-gray-900' : 'border-gray-200 bg-gray-50'
+      }`}
+    >
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={draft.title}
+          onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+          placeholder="Note title..."
+          className={fieldClassName}
+          autoFocus
+        />
+        <select
+          value={draft.sectionId}
+          onChange={(e) => setDraft({ ...draft, sectionId: e.target.value })}
+          disabled={anchorLocked}
+          className={`${fieldClassName} max-w-[16rem]`}
+        >
+          {anchorLocked && note ? (
+            <option value={note.sectionId}>{note.sectionTitle || 'Whole guide'}</option>
+          ) : (
+            <>
+              <option value="">Whole guide</option>
+              {sections.map((section) => (
+                <option key={section.id} value={section.id}>
+                  {'\u00a0\u00a0'.repeat(Math.max(0, section.level - 1))}{section.title}
+                </option>
+              ))}
+            </>
+          )}
+        </select>
+      </div>
+
+      <TagInput
+        tags={draft.tags}
+        onChange={(tags) => setDraft({ ...draft, tags })}
+        suggestions={tagSuggestions}
+        isDarkMode={isDarkMode}
+      />
+
+      {/* Markdown source and its preview, rendered like the guides */}
+      <div className="grid grid-cols-2 gap-2">
+        <textarea
+          value={draft.content}
+          onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+          placeholder="Write your note in Markdown..."
+          spellCheck
+          className={`${fieldClassName} h-80 resize-none font-mono`}
+        />
+        <div className={`h-80 overflow-y-auto p-3 border rounded-md text-sm ${
+          isDarkMode ? 'bg-theme-dark-bg border-gray-700' : 'bg-theme-light-bg border-gray-300'
+        }`}>
+          {draft.content.trim() ? (
+            <MarkdownRenderer content={draft.content} isDarkMode={isDarkMode} headingIdPrefix="note-preview-" />
+          ) : (
+            <p className={isDarkMode ? 'text-gray-500' : 'text-gray-400'}>Preview</p>
+          )}
+        </div>
+      </div>
+
+      {restoredFrom && (
+        <p className={`text-xs ${isDarkMode ? 'text-amber-300' : 'text-amber-700'}`}>
+          Restored the version from {formatRevisionDate(restoredFrom)}. Save to keep it.
+        </p>
+      )}
+
+      <div className="flex items-center justify-between">
+        {note && note.revisions.length > 0 ? (
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`flex items-center space-x-1 text-xs ${
+              isDarkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <History className="w-3.5 h-3.5" />
+            <span>History ({note.revisions.length})</span>
+          </button>
+        ) : (
+          <span />
+        )}
+        <div className="flex space-x-2">
+          <button
+            onClick={onCancel}
+            className={`px-3 py-1 text-sm rounded-md transition-colors ${
+              isDarkMode
+                ? 'text-theme-dark-text hover:bg-gray-800'
+                : 'text-theme-light-text hover:bg-gray-200'
+            }`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={!canSave}
+            title="Save (Ctrl+Enter)"
+            className="px-3 py-1 text-sm bg-emerald-600 text-white rounded-md hover:bg-emerald-700 transition-colors disabled:opacity-50"
+          >
+            {note ? 'Save Note' : 'Add Note'}
+          </button>
+        </div>
+      </div>
+
+      {showHistory && note && (
+        <ul className={`max-h-48 overflow-y-auto divide-y rounded-md border text-sm ${
+          isDarkMode ? 'border-gray-700 divide-gray-700' : 'border-gray-200 divide-gray-200'
+        }`}>
+          {note.revisions.map((revision, index) => (
+            <li key={`${revision.savedAt}-${index}`} className="flex items-center justify-between px-3 py-2">
+              <div className="min-w-0">
+                <p className="truncate font-medium">{revision.title}</p>
+                <p className={`text-xs ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                  {formatRevisionDate(revision.savedAt)} · {revision.content.length} characters
+                </p>
+              </div>
+              <button
+                onClick={() => {
+                  setDraft({ ...draft, title: revision.title, content: revision.content, tags: revision.tags });
+                  setRestoredFrom(revision.savedAt);
+                }}
+                title="Load this version into the editor"
+                className={`flex items-center space-x-1 ml-2 px-2 py-1 text-xs rounded-md shrink-0 ${
+                  isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-200'
+                }`}
+              >
+                <RotateCcw className="w-3 h-3" />
+                <span>Restore</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
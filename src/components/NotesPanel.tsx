@@ -1,66 +1,151 @@
-import { useState } from 'react';
-import { X, Plus, Trash2, Edit3, Calendar, FileText } from 'lucide-react';
-
-interface Note {
-  id: string;
-  title: string;
-  content: string;
-  section: string;
-  tags: string[];
-  createdAt: Date;
-  updatedAt: Date;
-}
+import { useState, useMemo, useEffect } from 'react';
+import { X, Plus, Trash2, Edit3, Calendar, FileText, Search, Tags } from 'lucide-react';
+import { NoteEditor, type NoteDraft } from './NoteEditor';
+import { MarkdownRenderer } from './MarkdownRenderer';
+import { getContentItemById } from '../utils/documentLoader';
+import type { DocumentSection } from '../utils/compileGuide';
+import { countTags, reviseNote } from '../utils/notes';
+import { useUserState } from '../utils/storage/userStore';
+import type { StoredNote } from '../utils/storage/schema';
 
 interface NotesPanelProps {
+  currentContentId: string;
+  // Sections of the open guide, which new notes are anchored to
+  sections: DocumentSection[];
+  // Start a new note on this section, as asked by a heading's note action
+  composeSectionId: string | null;
   isOpen: boolean;
   onClose: () => void;
+  onOpenNote: (contentId: string, sectionId: string) => void;
   isDarkMode: boolean;
 }
 
-export function NotesPanel({ isOpen, onClose, isDarkMode }: NotesPanelProps) {
-  const [notes, setNotes] = useState<Note[]>([
-    {
-      id: '1',
-      title: 'React Hooks Best Practices',
-      content: 'Remember to use useCallback for expensive computations and useMemo for derived state.',
-      section: 'Frontend Technologies',
-      tags: ['react', 'hooks', 'performance'],
-      createdAt: new Date(),
-      updatedAt: new Date()
-    },
-    {
-      id: '2',
-      title: 'Database Indexing Strategy',
-      content: 'Create composite indexes for queries that filter on multiple columns. Monitor query performance regularly.',
-      section: 'Database Design',
-      tags: ['database', 'performance', 'sql'],
-      createdAt: new Date(),
-      updatedAt: new Date()
-    }
-  ]);
-  const [newNote, setNewNote] = useState({ title: '', content: '', section: '', tags: '' });
-  const [showNewNoteForm, setShowNewNoteForm] = useState(false);
+type NoteScope = 'guide' | 'all';
+
+// Which note the editor is open for
+type EditorState = { type: 'closed' } | { type: 'new'; sectionId: string } | { type: 'edit'; note: StoredNote };
+
+// How long a deleted note can be brought back
+const UNDO_DELETE_MS = 10000;
+// Section filter value for notes on any section
+const ANY_SECTION = '\0any';
+
+export function NotesPanel({
+  currentContentId,
+  sections,
+  composeSectionId,
+  isOpen,
+  onClose,
+  onOpenNote,
+  isDarkMode
+}: NotesPanelProps) {
+  const [notes, setNotes] = useUserState('notes');
+  const [scope, setScope] = useState<NoteScope>('guide');
+  const [editor, setEditor] = useState<EditorState>(
+    composeSectionId !== null ? { type: 'new', sectionId: composeSectionId } : { type: 'closed' }
+  );
+  const [textFilter, setTextFilter] = useState('');
+  const [sectionFilter, setSectionFilter] = useState(ANY_SECTION);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  // The last deleted note and where it was, for undo
+  const [deleted, setDeleted] = useState<{ note: StoredNote; index: number } | null>(null);
+
+  useEffect(() => {
+    if (!deleted) return;
+    const timer = setTimeout(() => setDeleted(null), UNDO_DELETE_MS);
+    return () => clearTimeout(timer);
+  }, [deleted]);
+
+  const scopedNotes = useMemo(
+    () => notes.filter(note => scope === 'all' || note.contentId === currentContentId),
+    [notes, scope, currentContentId]
+  );
+  const tagCounts = useMemo(() => countTags(scopedNotes), [scopedNotes]);
+  const allTags = useMemo(() => countTags(notes).map(([tag]) => tag), [notes]);
+
+  // Sections of this guide that have notes, in document order
+  const notedSections = useMemo(() => {
+    const noted = new Set(scopedNotes.map(note => note.sectionId));
+    return [
+      ...(noted.has('') ? [{ id: '', title: 'Whole guide' }] : []),
+      ...sections.filter(section => noted.has(section.id))
+    ];
+  }, [scopedNotes, sections]);
+
+  // Filters on tags or sections that no longer have notes stop applying
+  const activeTags = useMemo(
+    () => tagFilter.filter(tag => tagCounts.some(([used]) => used === tag)),
+    [tagFilter, tagCounts]
+  );
+  const activeSection =
+    scope === 'guide' && notedSections.some(section => section.id === sectionFilter) ? sectionFilter : ANY_SECTION;
+
+  const visibleNotes = useMemo(() => {
+    const needle = textFilter.trim().toLowerCase();
+    return scopedNotes
+      .filter(note =>
+        (activeSection === ANY_SECTION || note.sectionId === activeSection) &&
+        activeTags.every(tag => note.tags.includes(tag)) &&
+        (!needle || [note.title, note.content, note.sectionTitle, ...note.tags].join('\n').toLowerCase().includes(needle))
+      )
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }, [scopedNotes, activeSection, activeTags, textFilter]);
+
+  const editingNote = editor.type === 'edit' ? editor.note : null;
+  // Notes from another guide keep their anchor, since its sections are not loaded
+  const anchorLocked = editingNote !== null && editingNote.contentId !== currentContentId;
+
+  const toggleTag = (tag: string) =>
+    setTagFilter(activeTags.includes(tag) ? activeTags.filter(t => t !== tag) : [...activeTags, tag]);
+
+  const saveNote = (draft: NoteDraft) => {
+    const now = new Date().toISOString();
+    const changes = { title: draft.title, content: draft.content, tags: draft.tags };
+    const anchor = {
+      contentId: currentContentId,
+      sectionId: draft.sectionId,
+      sectionTitle: sections.find(section => section.id === draft.sectionId)?.title ?? ''
+    };
 
-  const addNote = () => {
-    if (newNote.title.trim() && newNote.content.trim()) {
-      const note: Note = {
+    if (editingNote) {
+      setNotes(previous =>
+        previous.map(note =>
+          note.id === editingNote.id
+            ? { ...reviseNote(note, changes, now), ...(anchorLocked ? {} : anchor) }
+            : note
+        )
+      );
+    } else {
+      const note: StoredNote = {
         id: Date.now().toString(),
-        title: newNote.title,
-        content: newNote.content,
-        section: newNote.section || 'General',
-        tags: newNote.tags.split(',').map(tag => tag.trim()).filter(Boolean),
-        createdAt: new Date(),
-        updatedAt: new Date()
+        ...changes,
+        ...anchor,
+        createdAt: now,
+        updatedAt: now,
+        revisions: []
       };
-      
-      setNotes([note, ...notes]);
-      setNewNote({ title: '', content: '', section: '', tags: '' });
-      setShowNewNoteForm(false);
+      setNotes(previous => [note, ...previous]);
     }
+    setEditor({ type: 'closed' });
   };
 
   const deleteNote = (id: string) => {
-    setNotes(notes.filter(note => note.id !== id));
+    const index = notes.findIndex(note => note.id === id);
+    if (index === -1) return;
+    setDeleted({ note: notes[index], index });
+    setNotes(previous => previous.filter(note => note.id !== id));
+    if (editingNote?.id === id) setEditor({ type: 'closed' });
+  };
+
+  const undoDelete = () => {
+    if (!deleted) return;
+    setNotes(previous => [...previous.slice(0, deleted.index), deleted.note, ...previous.slice(deleted.index)]);
+    setDeleted(null);
+  };
+
+  const openNote = (note: StoredNote) => {
+    onOpenNote(note.contentId, note.sectionId);
+    onClose();
   };
 
   const formatDate = (date: Date) => {
@@ -74,18 +159,21 @@ export function NotesPanel({ isOpen, onClose, isDarkMode }: NotesPanelProps) {
 
   if (!isOpen) return null;
 
+  const maxTagCount = tagCounts[0]?.[1] ?? 1;
+  const hasFilters = textFilter.trim() !== '' || activeTags.length > 0 || activeSection !== ANY_SECTION;
+
   return (
     <div className="fixed inset-0 z-50 flex">
       {/* Backdrop */}
-      <div 
+      <div
         className="fixed inset-0 bg-black bg-opacity-50"
         onClick={onClose}
       />
 
-      {/* Panel */}
-      <div className={`relative ml-auto w-96 h-full shadow-2xl ${
-        isDarkMode ? 'bg-theme-dark-bg' : 'bg-theme-light-bg'
-      }`}>
+      {/* Panel, widened while the editor is open */}
+      <div className={`relative ml-auto max-w-full h-full shadow-2xl flex flex-col ${
+        editor.type === 'closed' ? 'w-96' : 'w-[56rem]'
+      } ${isDarkMode ? 'bg-theme-dark-bg' : 'bg-theme-light-bg'}`}>
         {/* Header */}
         <div className={`flex items-center justify-between p-4 border-b ${
           isDarkMode ? 'border-gray-800' : 'border-gray-200'
@@ -100,8 +188,12 @@ export function NotesPanel({ isOpen, onClose, isDarkMode }: NotesPanelProps) {
           </div>
           <div className="flex space-x-2">
             <button
-              onClick={() => setShowNewNoteForm(!showNewNoteForm)}
-              className={`p-2 rounded-lg hover:bg-opacity-80 transition-colors ${
+              onClick={() =>
+                setEditor(editor.type === 'new' ? { type: 'closed' } : { type: 'new', sectionId: '' })
+              }
+              disabled={!currentContentId}
+              title="New note"
+              className={`p-2 rounded-lg hover:bg-opacity-80 transition-colors disabled:opacity-50 ${
                 isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
               }`}
             >
@@ -118,73 +210,111 @@ export function NotesPanel({ isOpen, onClose, isDarkMode }: NotesPanelProps) {
           </div>
         </div>
 
-        {/* New Note Form */}
-        {showNewNoteForm && (
-          <div className={`p-4 border-b ${
-            isDarkMode ? 'border-gray-800 bg-gray-900' : 'border-gray-200 bg-gray-50'
-          }`}>
-            <input
-              type="text"
-              value={newNote.title}
-              onChange={(e) => setNewNote({ ...newNote, title: e.target.value })}
-              placeholder="Note title..."
-              className={`w-full p-2 mb-2 border rounded-md text-sm ${
-                isDarkMode 
-                  ? 'bg-theme-dark-bg border-gray-700 text-theme-dark-text'
-                  : 'bg-theme-light-bg border-gray-300 text-theme-light-text'
-              }`}
-            />
-            <textarea
-              value={newNote.content}
-              onChange={(e) => setNewNote({ ...newNote, content: e.target.value })}
-              placeholder="Write your note..."
-              rows={3}
-              className={`w-full p-2 mb-2 border rounded-md text-sm resize-none ${
-                isDarkMode 
-                  ? 'bg-theme-dark-bg border-gray-700 text-theme-dark-text'
-                  : 'bg-theme-light-bg border-gray-300 text-theme-light-text'
-              }`}
-            />
-            <input
-              type="text"
-              value={newNote.tags}
-              onChange={(e) => setNewNote({ ...newNote, tags: e.target.value })}
-              placeholder="Tags (comma-separated)..."
-              className={`w-full p-2 mb-3 border rounded-md text-sm ${
-                isDarkMode 
-                  ? 'bg-theme-dark-bg border-gray-700 text-theme-dark-text'
-                  : 'bg-theme-light-bg border-gray-300 text-theme-light-text'
-              }`}
-            />
-            <div className="flex justify-end space-x-2">
+        {/* Note Editor */}
+        {editor.type !== 'closed' && (
+          <NoteEditor
+            key={editor.type === 'edit' ? editor.note.id : `new-${editor.sectionId}`}
+            note={editingNote}
+            initialSectionId={editor.type === 'new' ? editor.sectionId : ''}
+            sections={sections}
+            anchorLocked={anchorLocked}
+            tagSuggestions={allTags}
+            onSave={saveNote}
+            onCancel={() => setEditor({ type: 'closed' })}
+            isDarkMode={isDarkMode}
+          />
+        )}
+
+        {/* Filters */}
+        <div className="px-4 pt-4 space-y-3">
+          <div className="flex items-center space-x-1 text-xs">
+            {([['guide', 'This guide'], ['all', 'All guides']] as const).map(([value, label]) => (
               <button
-                onClick={() => setShowNewNoteForm(false)}
-                className={`px-3 py-1 text-sm rounded-md transition-colors ${
-                  isDarkMode 
-                    ? 'text-theme-dark-text hover:bg-gray-800'
-                    : 'text-theme-light-text hover:bg-gray-200'
+                key={value}
+                onClick={() => setScope(value)}
+                className={`px-2 py-1 rounded-full transition-colors ${
+                  scope === value
+                    ? 'bg-emerald-600 text-white'
+                    : isDarkMode
+                      ? 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
                 }`}
               >
-                Cancel
-              </button>
-              <button
-                onClick={addNote}
-                className="px-3 py-1 text-sm bg-emerald-600 text-white rounded-md hover:bg-emerald-700 transition-colors"
-              >
-                Add Note
+                {label}
               </button>
-            </div>
+            ))}
           </div>
-        )}
+
+          {scopedNotes.length > 0 && (
+            <div className="flex space-x-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 w-3.5 h-3.5 text-gray-400" />
+                <input
+                  type="text"
+                  value={textFilter}
+                  onChange={(e) => setTextFilter(e.target.value)}
+                  placeholder="Filter notes..."
+                  className={`w-full pl-8 pr-2 py-1.5 border rounded-md text-sm ${
+                    isDarkMode
+                      ? 'bg-theme-dark-bg border-gray-700 text-theme-dark-text placeholder-gray-500'
+                      : 'bg-theme-light-bg border-gray-300 text-theme-light-text placeholder-gray-400'
+                  }`}
+                />
+              </div>
+              {scope === 'guide' && notedSections.length > 1 && (
+                <select
+                  value={activeSection}
+                  onChange={(e) => setSectionFilter(e.target.value)}
+                  className={`max-w-[10rem] px-2 py-1.5 border rounded-md text-sm ${
+                    isDarkMode
+                      ? 'bg-theme-dark-bg border-gray-700 text-theme-dark-text'
+                      : 'bg-theme-light-bg border-gray-300 text-theme-light-text'
+                  }`}
+                >
+                  <option value={ANY_SECTION}>All sections</option>
+                  {notedSections.map((section) => (
+                    <option key={section.id} value={section.id}>{section.title}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+
+          {/* Tag cloud, sized by how often each tag is used */}
+          {tagCounts.length > 0 && (
+            <div className="flex flex-wrap items-baseline gap-x-2 gap-y-1">
+              <Tags className="w-3.5 h-3.5 text-gray-400 self-center" />
+              {tagCounts.map(([tag, count]) => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  title={`${count} note${count !== 1 ? 's' : ''}`}
+                  style={{ fontSize: `${0.7 + 0.35 * (count / maxTagCount)}rem` }}
+                  className={`transition-colors ${
+                    activeTags.includes(tag)
+                      ? 'text-emerald-600 font-semibold'
+                      : isDarkMode
+                        ? 'text-gray-400 hover:text-gray-200'
+                        : 'text-gray-500 hover:text-gray-800'
+                  }`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
 
         {/* Notes List */}
         <div className="flex-1 overflow-y-auto p-4">
           <div className="space-y-4">
-            {notes.map((note) => (
+            {visibleNotes.map((note) => (
               <div key={note.id} className={`p-4 rounded-lg border transition-colors ${
-                isDarkMode 
-                  ? 'bg-gray-800 border-gray-700'
-                  : 'bg-theme-light-bg border-gray-200'
+                editingNote?.id === note.id
+                  ? 'border-emerald-500'
+                  : isDarkMode
+                    ? 'bg-gray-800 border-gray-700'
+                    : 'bg-theme-light-bg border-gray-200'
               }`}>
                 <div className="flex items-start justify-between mb-2">
                   <h3 className={`font-medium text-sm ${
@@ -192,66 +322,104 @@ export function NotesPanel({ isOpen, onClose, isDarkMode }: NotesPanelProps) {
                   }`}>
                     {note.title}
                   </h3>
-                  <button
-                    onClick={() => deleteNote(note.id)}
-                    className={`p-1 rounded hover:bg-opacity-80 transition-colors ${
-                      isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
-                    }`}
-                  >
-                    <Trash2 className="w-4 h-4 text-red-500" />
-                  </button>
+                  <div className="flex space-x-1">
+                    <button
+                      onClick={() => setEditor({ type: 'edit', note })}
+                      title="Edit note"
+                      className={`p-1 rounded hover:bg-opacity-80 transition-colors ${
+                        isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+                      }`}
+                    >
+                      <Edit3 className="w-4 h-4 text-gray-400" />
+                    </button>
+                    <button
+                      onClick={() => deleteNote(note.id)}
+                      title="Delete note"
+                      className={`p-1 rounded hover:bg-opacity-80 transition-colors ${
+                        isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+                      }`}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </button>
+                  </div>
                 </div>
-                
-                <p className={`text-sm mb-3 leading-relaxed ${
-                  isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
-                }`}>
-                  {note.content}
-                </p>
-                
+
+                <div className="mb-3 max-h-48 overflow-hidden text-sm">
+                  <MarkdownRenderer content={note.content} isDarkMode={isDarkMode} headingIdPrefix={`note-${note.id}-`} />
+                </div>
+
                 {note.tags.length > 0 && (
                   <div className="flex flex-wrap gap-1 mb-2">
                     {note.tags.map((tag) => (
-                      <span
+                      <button
                         key={tag}
+                        onClick={() => toggleTag(tag)}
                         className={`px-2 py-1 text-xs rounded-full ${
-                          isDarkMode 
-                            ? 'bg-gray-700 text-theme-dark-text'
-                            : 'bg-gray-100 text-theme-light-text'
+                          activeTags.includes(tag)
+                            ? 'bg-emerald-600 text-white'
+                            : isDarkMode
+                              ? 'bg-gray-700 text-theme-dark-text'
+                              : 'bg-gray-100 text-theme-light-text'
                         }`}
                       >
                         #{tag}
-                      </span>
+                      </button>
                     ))}
                   </div>
                 )}
-                
+
                 <div className={`flex items-center justify-between text-xs ${
                   isDarkMode ? 'text-gray-500' : 'text-gray-400'
                 }`}>
-                  <span className="flex items-center space-x-1">
-                    <FileText className="w-3 h-3" />
-                    <span>{note.section}</span>
-                  </span>
-                  <span className="flex items-center space-x-1">
+                  <button
+                    onClick={() => openNote(note)}
+                    title="Open this section"
+                    className="flex items-center space-x-1 min-w-0 text-left hover:text-emerald-600 hover:underline"
+                  >
+                    <FileText className="w-3 h-3 shrink-0" />
+                    <span className="truncate">
+                      {scope === 'all' && `${getContentItemById(note.contentId)?.title ?? note.contentId} · `}
+                      {note.sectionTitle || 'Whole guide'}
+                    </span>
+                  </button>
+                  <span className="flex items-center space-x-1 shrink-0 ml-2">
                     <Calendar className="w-3 h-3" />
-                    <span>{formatDate(note.updatedAt)}</span>
+                    <span>{formatDate(new Date(note.updatedAt))}</span>
                   </span>
                 </div>
               </div>
             ))}
           </div>
 
-          {notes.length === 0 && (
+          {visibleNotes.length === 0 && (
             <div className={`text-center py-8 ${
               isDarkMode ? 'text-gray-400' : 'text-gray-500'
             }`}>
               <Edit3 className="w-8 h-8 mx-auto mb-2 opacity-50" />
-              <p>No notes yet</p>
-              <p className="text-sm mt-1">Start taking notes to track your learning</p>
+              {hasFilters ? (
+                <p>No notes match these filters</p>
+              ) : (
+                <>
+                  <p>{scope === 'guide' && notes.length > 0 ? 'No notes on this guide' : 'No notes yet'}</p>
+                  <p className="text-sm mt-1">Start taking notes to track your learning</p>
+                </>
+              )}
             </div>
           )}
         </div>
+
+        {/* Undo Delete */}
+        {deleted && (
+          <div className={`flex items-center justify-between mx-4 mb-4 px-4 py-3 rounded-lg text-sm shadow-lg ${
+            isDarkMode ? 'bg-gray-800 text-theme-dark-text' : 'bg-gray-900 text-white'
+          }`}>
+            <span className="truncate">Deleted "{deleted.note.title}"</span>
+            <button onClick={undoDelete} className="ml-3 font-semibold text-emerald-400 hover:text-emerald-300">
+              Undo
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
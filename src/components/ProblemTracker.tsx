@@ -0,0 +1,531 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X, Target, Shuffle, ChevronDown, ChevronRight, ExternalLink, BookOpen, Trash2, Search } from 'lucide-react';
+import { contentItems, getContentItemById } from '../utils/documentLoader';
+import { localDate } from '../utils/flashcards';
+import {
+  countByTopic,
+  countStatuses,
+  loadProblems,
+  logAttempt,
+  pickUnsolvedProblem,
+  problemStatus,
+  removeAttempt,
+  updateProblem,
+  DIFFICULTIES,
+  type Difficulty,
+  type Problem
+} from '../utils/problems';
+import { useUserState } from '../utils/storage/userStore';
+import { PROBLEM_STATUSES, type ProblemStatus } from '../utils/storage/schema';
+
+interface ProblemTrackerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Show a problem where its guide lists it
+  onOpenProblem: (contentId: string, sectionId: string, title: string) => void;
+  isDarkMode: boolean;
+}
+
+const STATUS_STYLES: Record<ProblemStatus, { label: string; bar: string; text: string }> = {
+  todo: { label: 'To do', bar: 'bg-gray-300', text: 'text-gray-500' },
+  attempted: { label: 'Attempted', bar: 'bg-amber-500', text: 'text-amber-500' },
+  solved: { label: 'Solved', bar: 'bg-green-500', text: 'text-green-500' },
+  revisit: { label: 'Revisit', bar: 'bg-purple-500', text: 'text-purple-500' }
+};
+
+const DIFFICULTY_STYLES: Record<Difficulty, string> = {
+  easy: 'bg-green-100 text-green-800',
+  medium: 'bg-amber-100 text-amber-800',
+  hard: 'bg-red-100 text-red-800'
+};
+
+const problemItems = contentItems.filter(item => item.problems);
+
+interface AttemptDraft {
+  date: string;
+  minutes: string;
+  solved: boolean;
+  notes: string;
+}
+
+const emptyDraft = (): AttemptDraft => ({ date: localDate(new Date()), minutes: '', solved: false, notes: '' });
+
+export function ProblemTracker({ isOpen, onClose, onOpenProblem, isDarkMode }: ProblemTrackerProps) {
+  const [records, setRecords] = useUserState('problems');
+  const [problems, setProblems] = useState<Problem[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [query, setQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ProblemStatus | ''>('');
+  const [topicFilter, setTopicFilter] = useState('');
+  const [difficultyFilter, setDifficultyFilter] = useState<Difficulty | ''>('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [pickedId, setPickedId] = useState<string | null>(null);
+  // Set when every problem of the topic is solved
+  const [nothingToPick, setNothingToPick] = useState(false);
+  const [draft, setDraft] = useState<AttemptDraft>(emptyDraft);
+
+  useEffect(() => {
+    if (!isOpen || problems) return;
+    let cancelled = false;
+    setLoadError(false);
+    Promise.all(problemItems.map(item => loadProblems(item.id)))
+      .then(lists => {
+        if (!cancelled) setProblems(lists.flat());
+      })
+      .catch(error => {
+        console.error('Failed to load problems:', error);
+        if (!cancelled) setLoadError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, problems]);
+
+  const allProblems = useMemo(() => problems ?? [], [problems]);
+  const totals = useMemo(() => countStatuses(allProblems, records), [allProblems, records]);
+  const topics = useMemo(() => countByTopic(allProblems, records), [allProblems, records]);
+  const hasDifficulties = allProblems.some(problem => problem.difficulty);
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return allProblems.filter(
+      problem =>
+        (!statusFilter || problemStatus(records, problem.id) === statusFilter) &&
+        (!topicFilter || problem.topic === topicFilter) &&
+        (!difficultyFilter || problem.difficulty === difficultyFilter) &&
+        (!needle ||
+          problem.title.toLowerCase().includes(needle) ||
+          (records[problem.id]?.notes.toLowerCase().includes(needle) ?? false))
+    );
+  }, [allProblems, records, query, statusFilter, topicFilter, difficultyFilter]);
+
+  const picked = allProblems.find(problem => problem.id === pickedId) ?? null;
+
+  const toggleExpanded = (problemId: string, open = expandedId !== problemId) => {
+    setExpandedId(open ? problemId : null);
+    setDraft(emptyDraft());
+  };
+
+  const pickRandom = () => {
+    const problem = pickUnsolvedProblem(allProblems, records, topicFilter || null);
+    setNothingToPick(!problem);
+    setPickedId(problem?.id ?? null);
+    if (problem) toggleExpanded(problem.id, true);
+  };
+
+  const setStatus = (problem: Problem, status: ProblemStatus) =>
+    setRecords(previous => ({ ...previous, [problem.id]: updateProblem(previous[problem.id], problem, { status }, new Date()) }));
+
+  const saveNotes = (problem: Problem, notes: string) => {
+    if (notes === (records[problem.id]?.notes ?? '')) return;
+    setRecords(previous => ({ ...previous, [problem.id]: updateProblem(previous[problem.id], problem, { notes }, new Date()) }));
+  };
+
+  const submitAttempt = (problem: Problem) => {
+    const minutes = Number.parseInt(draft.minutes, 10);
+    setRecords(previous => ({
+      ...previous,
+      [problem.id]: logAttempt(
+        previous[problem.id],
+        problem,
+        {
+          date: draft.date || localDate(new Date()),
+          minutes: Number.isFinite(minutes) && minutes > 0 ? minutes : null,
+          solved: draft.solved,
+          notes: draft.notes.trim()
+        },
+        new Date()
+      )
+    }));
+    setDraft(emptyDraft());
+  };
+
+  const deleteAttempt = (problem: Problem, attemptId: string) =>
+    setRecords(previous => {
+      const record = previous[problem.id];
+      return record ? { ...previous, [problem.id]: removeAttempt(record, attemptId, new Date()) } : previous;
+    });
+
+  if (!isOpen) return null;
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const fieldClassName = `px-3 py-1.5 text-sm rounded-md border ${
+    isDarkMode ? 'bg-gray-800 border-gray-700 text-theme-dark-text' : 'bg-white border-gray-300 text-theme-light-text'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+
+  const renderBar = (counts: Record<ProblemStatus, number>, total: number) => (
+    <div className="flex-1 flex h-2.5 rounded-full overflow-hidden">
+      {(['solved', 'attempted', 'revisit', 'todo'] as const).map(status =>
+        counts[status] > 0 ? (
+          <div
+            key={status}
+            className={STATUS_STYLES[status].bar}
+            style={{ width: `${(counts[status] / total) * 100}%` }}
+          />
+        ) : null
+      )}
+    </div>
+  );
+
+  const renderDetails = (problem: Problem) => {
+    const record = records[problem.id];
+    return (
+      <div className={`px-4 pb-4 pt-1 space-y-4 text-sm border-t ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+        <div className="flex flex-wrap items-center gap-3 pt-3">
+          {problem.links.map(link => (
+            <a
+              key={link.url}
+              href={link.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={`flex items-center space-x-1 hover:underline ${isDarkMode ? 'text-blue-300' : 'text-blue-700'}`}
+            >
+              <ExternalLink className="w-3.5 h-3.5" />
+              <span>{link.label}</span>
+            </a>
+          ))}
+          <button
+            onClick={() => {
+              onOpenProblem(problem.contentId, problem.sectionId, problem.title);
+              onClose();
+            }}
+            className={`flex items-center space-x-1 ml-auto text-xs ${
+              isDarkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <BookOpen className="w-3.5 h-3.5" />
+            <span>Open in {getContentItemById(problem.contentId)?.title ?? 'guide'}</span>
+          </button>
+        </div>
+
+        <div>
+          <label className={`block mb-1 text-xs font-semibold uppercase tracking-wide ${mutedText}`}>Notes</label>
+          {/* Saved when the field loses focus */}
+          <textarea
+            key={problem.id}
+            defaultValue={record?.notes ?? ''}
+            onBlur={(event) => saveNotes(problem, event.target.value)}
+            rows={3}
+            placeholder="Approach, pitfalls, complexity..."
+            className={`w-full ${fieldClassName}`}
+          />
+        </div>
+
+        <div>
+          <p className={`mb-1 text-xs font-semibold uppercase tracking-wide ${mutedText}`}>
+            Attempts{record && record.attempts.length > 0 ? ` (${record.attempts.length})` : ''}
+          </p>
+          {record && record.attempts.length > 0 ? (
+            <ul className="space-y-1 mb-3">
+              {record.attempts.map(attempt => (
+                <li key={attempt.id} className="group flex items-start space-x-3">
+                  <span className={`shrink-0 tabular-nums ${mutedText}`}>{attempt.date}</span>
+                  <span className={`shrink-0 w-16 ${attempt.solved ? 'text-green-500' : 'text-amber-500'}`}>
+                    {attempt.solved ? 'Solved' : 'Not solved'}
+                  </span>
+                  <span className={`shrink-0 w-14 ${mutedText}`}>
+                    {attempt.minutes !== null ? `${attempt.minutes} min` : '—'}
+                  </span>
+                  <span className="flex-1 break-words">{attempt.notes}</span>
+                  <button
+                    onClick={() => deleteAttempt(problem, attempt.id)}
+                    title="Delete attempt"
+                    className="opacity-0 group-hover:opacity-100 transition-opacity text-gray-400 hover:text-red-500"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className={`mb-3 ${mutedText}`}>No attempts yet.</p>
+          )}
+
+          <form
+            onSubmit={(event) => {
+              event.preventDefault();
+              submitAttempt(problem);
+            }}
+            className="flex flex-wrap items-center gap-2"
+          >
+            <input
+              type="date"
+              value={draft.date}
+              onChange={(event) => setDraft({ ...draft, date: event.target.value })}
+              className={fieldClassName}
+            />
+            <input
+              type="number"
+              min={1}
+              value={draft.minutes}
+              onChange={(event) => setDraft({ ...draft, minutes: event.target.value })}
+              placeholder="Minutes"
+              className={`w-24 ${fieldClassName}`}
+            />
+            <label className="flex items-center space-x-1.5">
+              <input
+                type="checkbox"
+                checked={draft.solved}
+                onChange={(event) => setDraft({ ...draft, solved: event.target.checked })}
+                className="rounded"
+              />
+              <span>Solved</span>
+            </label>
+            <input
+              type="text"
+              value={draft.notes}
+              onChange={(event) => setDraft({ ...draft, notes: event.target.value })}
+              placeholder="What happened?"
+              className={`flex-1 min-w-[10rem] ${fieldClassName}`}
+            />
+            <button
+              type="submit"
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Log attempt
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const renderProblem = (problem: Problem) => {
+    const status = problemStatus(records, problem.id);
+    const isExpanded = expandedId === problem.id;
+    const attempts = records[problem.id]?.attempts.length ?? 0;
+    return (
+      <li
+        key={problem.id}
+        className={`rounded-lg border ${
+          problem.id === pickedId
+            ? 'border-blue-500'
+            : isDarkMode
+              ? 'border-gray-800'
+              : 'border-gray-200'
+        }`}
+      >
+        <div className="flex items-center space-x-3 px-4 py-2.5">
+          <button
+            onClick={() => toggleExpanded(problem.id)}
+            className="flex-1 flex items-center space-x-2 min-w-0 text-left"
+          >
+            {isExpanded ? (
+              <ChevronDown className="w-4 h-4 shrink-0 text-gray-400" />
+            ) : (
+              <ChevronRight className="w-4 h-4 shrink-0 text-gray-400" />
+            )}
+            <span className="truncate font-medium">{problem.title}</span>
+            <span className={`shrink-0 text-xs ${mutedText}`}>{problem.topic}</span>
+            {problem.difficulty && (
+              <span className={`shrink-0 px-1.5 py-0.5 text-xs rounded ${DIFFICULTY_STYLES[problem.difficulty]}`}>
+                {problem.difficulty}
+              </span>
+            )}
+          </button>
+          {attempts > 0 && (
+            <span className={`shrink-0 text-xs ${mutedText}`}>
+              {attempts} attempt{attempts !== 1 ? 's' : ''}
+            </span>
+          )}
+          <select
+            value={status}
+            onChange={(event) => setStatus(problem, event.target.value as ProblemStatus)}
+            className={`shrink-0 px-2 py-1 text-xs rounded-md border ${STATUS_STYLES[status].text} ${
+              isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-300'
+            }`}
+          >
+            {PROBLEM_STATUSES.map(value => (
+              <option key={value} value={value}>
+                {STATUS_STYLES[value].label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {isExpanded && renderDetails(problem)}
+      </li>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50"
+        onClick={onClose}
+      />
+
+      {/* Dialog */}
+      <div className={`relative w-full max-w-4xl h-[85vh] rounded-lg shadow-2xl flex flex-col ${
+        isDarkMode ? 'bg-theme-dark-bg text-theme-dark-text' : 'bg-theme-light-bg text-theme-light-text'
+      }`}>
+        {/* Header */}
+        <div className={`flex items-center justify-between p-4 border-b ${
+          isDarkMode ? 'border-gray-800' : 'border-gray-200'
+        }`}>
+          <div className="flex items-center space-x-2">
+            <Target className="w-5 h-5 text-green-500" />
+            <h2 className="font-semibold">Problem tracker</h2>
+            {problems && (
+              <span className={`text-sm ${mutedText}`}>
+                {totals.solved} of {allProblems.length} solved
+              </span>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className={`p-2 rounded-lg hover:bg-opacity-80 transition-colors ${
+              isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+            }`}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {loadError ? (
+          <div className="flex-1 flex flex-col items-center justify-center">
+            <p className={isDarkMode ? 'text-red-300' : 'text-red-600'}>The problem lists could not be loaded.</p>
+            <button
+              onClick={() => setProblems(null)}
+              className="mt-4 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Try again
+            </button>
+          </div>
+        ) : !problems ? (
+          <div className="flex-1 flex items-center justify-center">
+            <div className={`animate-spin rounded-full h-8 w-8 border-b-2 ${
+              isDarkMode ? 'border-theme-dark-text' : 'border-theme-light-text'
+            }`}></div>
+            <span className="ml-3">Collecting problems...</span>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {/* Topic breakdown */}
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className={`text-xs font-semibold uppercase tracking-wide ${mutedText}`}>By topic</h3>
+                <div className="flex items-center space-x-3 text-xs">
+                  {PROBLEM_STATUSES.map(status => (
+                    <span key={status} className={`flex items-center space-x-1 ${mutedText}`}>
+                      <span className={`w-2.5 h-2.5 rounded-full ${STATUS_STYLES[status].bar}`} />
+                      <span>{STATUS_STYLES[status].label} {totals[status]}</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <ul className="space-y-1">
+                {[...topics.entries()].map(([topic, counts]) => {
+                  const total = PROBLEM_STATUSES.reduce((sum, status) => sum + counts[status], 0);
+                  return (
+                    <li key={topic}>
+                      <button
+                        onClick={() => setTopicFilter(topicFilter === topic ? '' : topic)}
+                        title={PROBLEM_STATUSES.map(status => `${STATUS_STYLES[status].label}: ${counts[status]}`).join(' · ')}
+                        className={`w-full flex items-center space-x-3 px-2 py-1 rounded-md text-sm ${
+                          topicFilter === topic
+                            ? isDarkMode
+                              ? 'bg-blue-900'
+                              : 'bg-blue-50'
+                            : isDarkMode
+                              ? 'hover:bg-gray-800'
+                              : 'hover:bg-gray-100'
+                        }`}
+                      >
+                        <span className="w-48 truncate text-left">{topic}</span>
+                        {renderBar(counts, total)}
+                        <span className={`w-14 text-right text-xs tabular-nums ${mutedText}`}>
+                          {counts.solved}/{total}
+                        </span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+
+            {/* Filters */}
+            <section className="flex flex-wrap items-center gap-2">
+              <div className="relative flex-1 min-w-[12rem]">
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(event) => setQuery(event.target.value)}
+                  placeholder="Filter by title or notes..."
+                  className={`w-full pl-8 ${fieldClassName}`}
+                />
+              </div>
+              <select
+                value={statusFilter}
+                onChange={(event) => setStatusFilter(event.target.value as ProblemStatus | '')}
+                className={fieldClassName}
+              >
+                <option value="">Any status</option>
+                {PROBLEM_STATUSES.map(status => (
+                  <option key={status} value={status}>{STATUS_STYLES[status].label}</option>
+                ))}
+              </select>
+              <select
+                value={topicFilter}
+                onChange={(event) => setTopicFilter(event.target.value)}
+                className={`max-w-[12rem] ${fieldClassName}`}
+              >
+                <option value="">Any topic</option>
+                {[...topics.keys()].map(topic => (
+                  <option key={topic} value={topic}>{topic}</option>
+                ))}
+              </select>
+              {hasDifficulties && (
+                <select
+                  value={difficultyFilter}
+                  onChange={(event) => setDifficultyFilter(event.target.value as Difficulty | '')}
+                  className={fieldClassName}
+                >
+                  <option value="">Any difficulty</option>
+                  {DIFFICULTIES.map(difficulty => (
+                    <option key={difficulty} value={difficulty}>{difficulty}</option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={pickRandom}
+                title={`Pick a random unsolved problem${topicFilter ? ` of ${topicFilter}` : ''}`}
+                className="flex items-center space-x-1.5 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                <Shuffle className="w-4 h-4" />
+                <span>Random unsolved</span>
+              </button>
+            </section>
+
+            {nothingToPick && (
+              <p className="text-sm text-green-500">
+                Every problem{topicFilter ? ` of ${topicFilter}` : ''} is solved.
+              </p>
+            )}
+
+            {picked && (
+              <section>
+                <h3 className={`mb-2 text-xs font-semibold uppercase tracking-wide ${mutedText}`}>Picked for you</h3>
+                <ul>{renderProblem(picked)}</ul>
+              </section>
+            )}
+
+            <section>
+              <h3 className={`mb-2 text-xs font-semibold uppercase tracking-wide ${mutedText}`}>
+                {filtered.length} problem{filtered.length !== 1 ? 's' : ''}
+              </h3>
+              {filtered.length > 0 ? (
+                <ul className="space-y-2">
+                  {filtered.filter(problem => problem.id !== pickedId).map(renderProblem)}
+                </ul>
+              ) : (
+                <p className={`py-8 text-center ${mutedText}`}>No problems match these filters.</p>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
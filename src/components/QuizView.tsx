@@ -0,0 +1,232 @@
+import { useState, useMemo } from 'react';
+import { Eye, Shuffle, RotateCcw, CheckCircle2, AlertCircle, XCircle, ArrowRight } from 'lucide-react';
+import { MarkdownRenderer } from './MarkdownRenderer';
+import { extractFlashcards } from '../utils/flashcards';
+import { useUserState } from '../utils/storage/userStore';
+import type { Document } from '../utils/compileGuide';
+import type { FlashcardRule } from '../utils/catalog';
+import type { QuizAnswer, QuizRating } from '../utils/storage/schema';
+
+interface QuizViewProps {
+  contentId: string;
+  documentData: Document;
+  rule: FlashcardRule;
+  // Leave quiz mode at a question's section of the guide
+  onOpenSection: (sectionId: string) => void;
+  isDarkMode: boolean;
+}
+
+type QuizFilter = 'all' | 'unanswered' | 'weak';
+
+const FILTERS: { value: QuizFilter; label: string }[] = [
+  { value: 'all', label: 'All questions' },
+  { value: 'unanswered', label: 'Unanswered' },
+  { value: 'weak', label: 'Weak' }
+];
+
+const RATINGS: { rating: QuizRating; label: string; icon: typeof CheckCircle2; className: string }[] = [
+  { rating: 'knew', label: 'Knew it', icon: CheckCircle2, className: 'text-green-500 border-green-500' },
+  { rating: 'partial', label: 'Partially', icon: AlertCircle, className: 'text-amber-500 border-amber-500' },
+  { rating: 'missed', label: "Didn't know", icon: XCircle, className: 'text-red-500 border-red-500' }
+];
+
+const isWeak = (answer: QuizAnswer | undefined) => answer !== undefined && answer.rating !== 'knew';
+
+const shuffled = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export function QuizView({ contentId, documentData, rule, onOpenSection, isDarkMode }: QuizViewProps) {
+  const [quizResults, setQuizResults] = useUserState('quizResults');
+  const answers = useMemo(() => quizResults[contentId] ?? {}, [quizResults, contentId]);
+  const questions = useMemo(() => extractFlashcards(contentId, documentData, rule), [contentId, documentData, rule]);
+
+  // The questions of this run are fixed when it starts, so rating one does not drop it from a filtered list
+  const startRun = (filter: QuizFilter, shuffle: boolean) => {
+    const picked = questions
+      .filter(question =>
+        filter === 'unanswered' ? !answers[question.sectionId] : filter === 'weak' ? isWeak(answers[question.sectionId]) : true
+      )
+      .map(question => question.sectionId);
+    return { filter, shuffle, sectionIds: shuffle ? shuffled(picked) : picked };
+  };
+
+  const [run, setRun] = useState(() => startRun('all', false));
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+
+  const restart = (filter: QuizFilter, shuffle: boolean) => {
+    setRun(startRun(filter, shuffle));
+    setRevealed(new Set());
+  };
+
+  const questionsById = useMemo(() => new Map(questions.map(question => [question.sectionId, question])), [questions]);
+  const runQuestions = run.sectionIds.flatMap(sectionId => questionsById.get(sectionId) ?? []);
+  const rated = runQuestions.filter(question => answers[question.sectionId]);
+  const weak = runQuestions.filter(question => isWeak(answers[question.sectionId]));
+
+  const rate = (sectionId: string, rating: QuizRating) =>
+    setQuizResults(previous => ({
+      ...previous,
+      [contentId]: { ...previous[contentId], [sectionId]: { rating, answeredAt: new Date().toISOString() } }
+    }));
+
+  const resetAnswers = () => {
+    setQuizResults(previous => Object.fromEntries(Object.entries(previous).filter(([id]) => id !== contentId)));
+    setRevealed(new Set());
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const cardClassName = `p-6 rounded-xl border shadow-sm ${
+    isDarkMode ? 'bg-theme-dark-bg border-gray-800' : 'bg-theme-light-bg border-gray-200'
+  }`;
+
+  return (
+    <div className="not-prose space-y-6">
+      {/* Run controls */}
+      <div className="flex flex-wrap items-center gap-2">
+        {FILTERS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => restart(value, run.shuffle)}
+            className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+              run.filter === value
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : isDarkMode
+                  ? 'border-gray-700 hover:bg-gray-800'
+                  : 'border-gray-300 hover:bg-gray-100'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        <button
+          onClick={() => restart(run.filter, !run.shuffle)}
+          title={run.shuffle ? 'Back to guide order' : 'Shuffle questions'}
+          className={`flex items-center space-x-1 px-3 py-1 text-sm rounded-full border transition-colors ${
+            run.shuffle
+              ? 'bg-blue-600 border-blue-600 text-white'
+              : isDarkMode
+                ? 'border-gray-700 hover:bg-gray-800'
+                : 'border-gray-300 hover:bg-gray-100'
+          }`}
+        >
+          <Shuffle className="w-3.5 h-3.5" />
+          <span>Shuffle</span>
+        </button>
+        <span className={`ml-auto text-sm ${mutedText}`}>
+          {rated.length} of {runQuestions.length} answered
+        </span>
+        <button
+          onClick={resetAnswers}
+          title="Forget every rating in this guide"
+          className={`flex items-center space-x-1 px-2 py-1 text-sm rounded-md ${mutedText} ${
+            isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+          }`}
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          <span>Reset</span>
+        </button>
+      </div>
+
+      {runQuestions.length === 0 && (
+        <p className={`py-12 text-center ${mutedText}`}>
+          {run.filter === 'weak'
+            ? 'No weak questions left.'
+            : run.filter === 'unanswered'
+              ? 'Every question has been answered.'
+              : 'This guide has no questions to quiz on.'}
+        </p>
+      )}
+
+      {runQuestions.map((question, index) => {
+        const answer = answers[question.sectionId];
+        const isRevealed = revealed.has(question.sectionId);
+        return (
+          <section key={question.sectionId} className={cardClassName}>
+            <p className={`mb-1 text-xs ${mutedText}`}>Question {index + 1}</p>
+            <h3 className="text-lg font-semibold">{question.question}</h3>
+
+            {isRevealed ? (
+              <>
+                <div className={`mt-4 pt-4 border-t prose max-w-none ${
+                  isDarkMode ? 'prose-invert border-gray-800' : 'border-gray-200'
+                }`}>
+                  <MarkdownRenderer content={question.answer} isDarkMode={isDarkMode} headingIdPrefix="quiz-" />
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mt-4">
+                  <span className={`text-sm mr-1 ${mutedText}`}>How did you do?</span>
+                  {RATINGS.map(({ rating, label, icon: Icon, className }) => (
+                    <button
+                      key={rating}
+                      onClick={() => rate(question.sectionId, rating)}
+                      className={`flex items-center space-x-1 px-3 py-1 text-sm rounded-md border transition-colors ${
+                        answer?.rating === rating
+                          ? className
+                          : isDarkMode
+                            ? 'border-gray-700 hover:bg-gray-800'
+                            : 'border-gray-300 hover:bg-gray-100'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      <span>{label}</span>
+                    </button>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <button
+                onClick={() => setRevealed(previous => new Set(previous).add(question.sectionId))}
+                className="flex items-center space-x-1.5 mt-4 px-4 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                <Eye className="w-4 h-4" />
+                <span>Reveal answer</span>
+              </button>
+            )}
+          </section>
+        );
+      })}
+
+      {/* Summary */}
+      {runQuestions.length > 0 && (
+        <section className={cardClassName}>
+          <h3 className="text-lg font-semibold mb-2">Summary</h3>
+          <p className={`text-sm ${mutedText}`}>
+            {RATINGS.map(({ rating, label }) =>
+              `${label}: ${runQuestions.filter(question => answers[question.sectionId]?.rating === rating).length}`
+            ).join(' · ')}
+            {rated.length < runQuestions.length && ` · Not answered: ${runQuestions.length - rated.length}`}
+          </p>
+          {weak.length > 0 ? (
+            <>
+              <p className="mt-4 mb-2 text-sm font-medium">Worth another read</p>
+              <ul className="space-y-1">
+                {weak.map(question => (
+                  <li key={question.sectionId}>
+                    <button
+                      onClick={() => onOpenSection(question.sectionId)}
+                      className={`flex items-center space-x-2 text-sm text-left hover:underline ${
+                        isDarkMode ? 'text-blue-300' : 'text-blue-700'
+                      }`}
+                    >
+                      <ArrowRight className="w-3.5 h-3.5 shrink-0" />
+                      <span>{question.question}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            rated.length === runQuestions.length && (
+              <p className="mt-4 text-sm text-green-500">No weak questions in this run.</p>
+            )
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -1,79 +1,127 @@
-import { useState, useMemo } from 'react';
-import { Search, X, FileText } from 'lucide-react';
-
-interface Document {
-  title: string;
-  content: string;
-  sections: { id: string; title: string; level: number }[];
-}
+import React, { useState, useEffect, useMemo } from 'react';
+import { Search, X, FileText, BookOpen, Loader2, AlertTriangle } from 'lucide-react';
+import { searchAllDocuments, whenSearchIndexReady, isSearchIndexReady } from '../utils/search/searchClient';
+import type { SearchHit } from '../utils/search/searchIndex';
+import { QueryParseError } from '../utils/search/queryParser';
 
 interface SearchPanelProps {
-  documentData: Document;
+  currentContentId: string;
   isOpen: boolean;
   onClose: () => void;
+  // `matchText` is the highlighted text of the result, to be found in the opened document
+  onOpenResult: (contentId: string, sectionId: string, matchText?: string) => void;
   isDarkMode: boolean;
 }
 
-interface SearchResult {
-  sectionId: string;
-  sectionTitle: string;
-  snippet: string;
-  line: number;
+interface ResultGroup {
+  docId: string;
+  docTitle: string;
+  hits: SearchHit[];
 }
 
-export function SearchPanel({ documentData, isOpen, onClose, isDarkMode }: SearchPanelProps) {
+// Wait for a pause in typing before querying the worker
+const SEARCH_DEBOUNCE_MS = 120;
+
+const syntaxTips = ['"exact phrase"', '-exclude', '/regex/', 'doc:react-500', 'in:code', 'in:heading', 'lang:python', 'level:3'];
+
+const renderSnippet = (hit: SearchHit) => {
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  hit.highlights.forEach(([start, end], index) => {
+    if (start > lastIndex) parts.push(hit.snippet.slice(lastIndex, start));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 text-gray-900 px-1 rounded">
+        {hit.snippet.slice(start, end)}
+      </mark>
+    );
+    lastIndex = end;
+  });
+  if (lastIndex < hit.snippet.length) parts.push(hit.snippet.slice(lastIndex));
+  return parts;
+};
+
+export function SearchPanel({ currentContentId, isOpen, onClose, onOpenResult, isDarkMode }: SearchPanelProps) {
   const [searchQuery, setSearchQuery] = useState('');
+  const [indexReady, setIndexReady] = useState(isSearchIndexReady());
+  const [indexFailed, setIndexFailed] = useState(false);
+  // Bumped by "Try again" to start a new worker
+  const [indexAttempt, setIndexAttempt] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const [searchResults, setSearchResults] = useState<SearchHit[]>([]);
+  const [queryError, setQueryError] = useState<QueryParseError | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIndexFailed(false);
+    whenSearchIndexReady()
+      .then(() => {
+        if (!cancelled) setIndexReady(true);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to build the search index:', error);
+        setIndexFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [indexAttempt]);
 
-  const searchResults = useMemo(() => {
-    if (!searchQuery.trim()) return [];
-
-    const results: SearchResult[] = [];
-    const lines = documentData.content.split('\n');
-    let currentSection = { id: 'intro', title: 'Introduction' };
-
-    lines.forEach((line, index) => {
-      // Update current section when we hit a header
-      const headerMatch = line.match(/^## (.+?)(?:\s+\{#(.+?)\})?$/);
-      if (headerMatch) {
-        currentSection = {
-          title: headerMatch[1],
-          id: headerMatch[2] || headerMatch[1].toLowerCase().replace(/\s+/g, '-')
-        };
-        return;
-      }
-
-      // Search for query in line
-      if (line.toLowerCase().includes(searchQuery.toLowerCase())) {
-        const queryIndex = line.toLowerCase().indexOf(searchQuery.toLowerCase());
-        const start = Math.max(0, queryIndex - 30);
-        const end = Math.min(line.length, queryIndex + searchQuery.length + 30);
-        let snippet = line.slice(start, end);
-        
-        if (start > 0) snippet = '...' + snippet;
-        if (end < line.length) snippet = snippet + '...';
-
-        // Highlight the search term
-        const regex = new RegExp(`(${searchQuery})`, 'gi');
-        snippet = snippet.replace(regex, '<mark>$1</mark>');
-
-        results.push({
-          sectionId: currentSection.id,
-          sectionTitle: currentSection.title,
-          snippet,
-          line: index + 1
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults([]);
+      setQueryError(null);
+      setSearching(false);
+      return;
+    }
+
+    // Every search would start another worker; wait for "Try again" instead
+    if (indexFailed) {
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(() => {
+      searchAllDocuments(searchQuery)
+        .then(hits => {
+          if (cancelled) return;
+          setSearchResults(hits);
+          setQueryError(null);
+        })
+        .catch(error => {
+          if (cancelled) return;
+          setSearchResults([]);
+          if (error instanceof QueryParseError) setQueryError(error);
+          else console.error('Search failed:', error);
+        })
+        .finally(() => {
+          if (!cancelled) setSearching(false);
         });
-      }
-    });
+    }, SEARCH_DEBOUNCE_MS);
 
-    return results.slice(0, 20); // Limit results
-  }, [searchQuery, documentData.content]);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, indexFailed]);
 
-  const scrollToResult = (sectionId: string) => {
-    const element = document.getElementById(sectionId);
-    if (element) {
-      element.scrollIntoView({ behavior: 'smooth' });
-      onClose();
+  // Group by document, keeping documents in order of their best hit
+  const resultGroups = useMemo(() => {
+    const groups = new Map<string, ResultGroup>();
+    for (const hit of searchResults) {
+      const group = groups.get(hit.docId);
+      if (group) group.hits.push(hit);
+      else groups.set(hit.docId, { docId: hit.docId, docTitle: hit.docTitle, hits: [hit] });
     }
+    return [...groups.values()];
+  }, [searchResults]);
+
+  const openResult = (hit: SearchHit) => {
+    const [firstHighlight] = hit.highlights;
+    onOpenResult(hit.docId, hit.sectionId, firstHighlight && hit.snippet.slice(...firstHighlight));
+    onClose();
   };
 
   if (!isOpen) return null;
@@ -81,13 +129,13 @@ export function SearchPanel({ documentData, isOpen, onClose, isDarkMode }: Searc
   return (
     <div className="fixed inset-0 z-50 flex">
       {/* Backdrop */}
-      <div 
+      <div
         className="fixed inset-0 bg-black bg-opacity-50"
         onClick={onClose}
       />
 
       {/* Panel */}
-      <div className={`relative ml-auto w-96 h-full shadow-2xl ${
+      <div className={`relative ml-auto w-96 h-full shadow-2xl flex flex-col ${
         isDarkMode ? 'bg-theme-dark-bg' : 'bg-theme-light-bg'
       }`}>
         {/* Header */}
@@ -99,7 +147,7 @@ export function SearchPanel({ documentData, isOpen, onClose, isDarkMode }: Searc
             <h2 className={`font-semibold ${
               isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
             }`}>
-              Search Document
+              Search All Guides
             </h2>
           </div>
           <button
@@ -121,61 +169,119 @@ export function SearchPanel({ documentData, isOpen, onClose, isDarkMode }: Searc
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               placeholder="Search for concepts, code, or topics..."
-              className={`w-full pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-                isDarkMode 
+              className={`w-full pl-10 pr-10 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                isDarkMode
                   ? 'bg-theme-dark-bg border-gray-700 text-theme-dark-text placeholder-gray-400'
                   : 'bg-theme-light-bg border-gray-300 text-theme-light-text placeholder-gray-500'
               }`}
               autoFocus
             />
+            {(searching || !indexReady) && !indexFailed && searchQuery.trim() && (
+              <Loader2 className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 animate-spin" />
+            )}
           </div>
+          {indexFailed ? (
+            <div className={`mt-3 p-3 rounded-lg border text-xs flex items-start space-x-2 ${
+              isDarkMode ? 'bg-red-900/30 border-red-800 text-red-300' : 'bg-red-50 border-red-200 text-red-700'
+            }`}>
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span className="flex-1">The search index could not be built.</span>
+              <button onClick={() => setIndexAttempt(attempt => attempt + 1)} className="font-medium underline">
+                Try again
+              </button>
+            </div>
+          ) : !indexReady && (
+            <p className={`mt-2 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Building the search index...
+            </p>
+          )}
+          {!searchQuery.trim() && (
+            <div className={`mt-3 flex flex-wrap gap-1 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {syntaxTips.map(tip => (
+                <code
+                  key={tip}
+                  className={`px-1.5 py-0.5 rounded ${isDarkMode ? 'bg-gray-800' : 'bg-gray-100'}`}
+                >
+                  {tip}
+                </code>
+              ))}
+            </div>
+          )}
+          {queryError && (
+            <div className={`mt-3 p-3 rounded-lg border text-xs ${
+              isDarkMode ? 'bg-red-900/30 border-red-800 text-red-300' : 'bg-red-50 border-red-200 text-red-700'
+            }`}>
+              <p className="font-mono mb-1 break-all">
+                {searchQuery.slice(0, queryError.start)}
+                <span className="underline decoration-wavy decoration-red-500">
+                  {searchQuery.slice(queryError.start, queryError.end) || ' '}
+                </span>
+                {searchQuery.slice(queryError.end)}
+              </p>
+              <p>{queryError.message}</p>
+            </div>
+          )}
         </div>
 
         {/* Results */}
         <div className="flex-1 overflow-y-auto px-4 pb-4">
-          {searchQuery.trim() && (
+          {searchQuery.trim() && !searching && !queryError && (
             <div className={`mb-4 text-sm ${
               isDarkMode ? 'text-gray-400' : 'text-gray-600'
             }`}>
-              {searchResults.length} result{searchResults.length !== 1 ? 's' : ''} found
+              {searchResults.length} result{searchResults.length !== 1 ? 's' : ''} in {resultGroups.length} guide{resultGroups.length !== 1 ? 's' : ''}
             </div>
           )}
 
-          <div className="space-y-2">
-            {searchResults.map((result, index) => (
-              <button
-                key={index}
-                onClick={() => scrollToResult(result.sectionId)}
-                className={`w-full p-3 rounded-lg border text-left transition-colors hover:shadow-md ${
-                  isDarkMode 
-                    ? 'bg-gray-800 border-gray-700 hover:bg-gray-700'
-                    : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
-                }`}
-              >
-                <div className="flex items-center space-x-2 mb-2">
-                  <FileText className="w-4 h-4 text-blue-600" />
-                  <span className={`text-sm font-medium ${
-                    isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
-                  }`}>
-                    {result.sectionTitle}
-                  </span>
-                </div>
-                <div 
-                  className={`text-xs leading-relaxed ${
-                    isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
-                  }`}
-                  dangerouslySetInnerHTML={{ __html: result.snippet.replace('<mark>', '<mark class="bg-yellow-200 text-gray-900 px-1 rounded">').replace('</mark>', '</mark>') }}
-                />
-                <div className={`text-xs mt-1 ${
-                  isDarkMode ? 'text-gray-500' : 'text-gray-400'
+          <div className="space-y-6">
+            {resultGroups.map((group) => (
+              <section key={group.docId}>
+                <div className={`flex items-center space-x-2 mb-2 text-xs font-semibold uppercase tracking-wide ${
+                  isDarkMode ? 'text-gray-400' : 'text-gray-500'
                 }`}>
-                  Line {result.line}
+                  <BookOpen className="w-3.5 h-3.5" />
+                  <span>{group.docTitle}</span>
+                  {group.docId === currentContentId && (
+                    <span className="px-1.5 py-0.5 rounded bg-blue-600 text-white normal-case tracking-normal">current</span>
+                  )}
                 </div>
-              </button>
+                <div className="space-y-2">
+                  {group.hits.map((hit) => (
+                    <button
+                      key={`${hit.sectionId}-${hit.line}`}
+                      onClick={() => openResult(hit)}
+                      className={`w-full p-3 rounded-lg border text-left transition-colors hover:shadow-md ${
+                        isDarkMode
+                          ? 'bg-gray-800 border-gray-700 hover:bg-gray-700'
+                          : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
+                      }`}
+                    >
+                      <div className="flex items-center space-x-2 mb-2">
+                        <FileText className="w-4 h-4 text-blue-600 shrink-0" />
+                        <span className={`text-sm font-medium ${
+                          isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
+                        }`}>
+                          {hit.sectionTitle}
+                        </span>
+                      </div>
+                      <div className={`text-xs leading-relaxed ${
+                        isDarkMode ? 'text-theme-dark-text' : 'text-theme-light-text'
+                      }`}>
+                        {renderSnippet(hit)}
+                      </div>
+                      <div className={`text-xs mt-1 ${
+                        isDarkMode ? 'text-gray-500' : 'text-gray-400'
+                      }`}>
+                        Line {hit.line + 1}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </section>
             ))}
           </div>
 
-          {searchQuery.trim() && searchResults.length === 0 && (
+          {searchQuery.trim() && indexReady && !searching && !queryError && searchResults.length === 0 && (
             <div className={`text-center py-8 ${
               isDarkMode ? 'text-gray-400' : 'text-gray-500'
             }`}>
@@ -188,4 +294,4 @@ export function SearchPanel({ documentData, isOpen, onClose, isDarkMode }: Searc
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { useStorageStatus, type StorageStatus } from '../utils/storage/userStore';
+
+interface StorageNoticeProps {
+  isDarkMode: boolean;
+}
+
+const messages: Record<NonNullable<StorageStatus['error']>, string> = {
+  quota: 'Your browser is out of storage space. Recent bookmarks, notes and settings are kept in this tab only.',
+  'newer-version': 'Your data was saved by a newer version of Study Docs. Reload the page to keep your changes.',
+  unreadable: 'Your saved bookmarks, notes and settings could not be loaded. Reload the page; changes made now are not saved.',
+  failed: 'Your bookmarks, notes and settings could not be saved in this browser.'
+};
+
+export function StorageNotice({ isDarkMode }: StorageNoticeProps) {
+  const { backend, error } = useStorageStatus();
+  // Dismissing hides the current problem only; a different one shows again
+  const [dismissed, setDismissed] = useState<StorageStatus['error']>(null);
+
+  const message = error
+    ? messages[error]
+    : backend === 'memory'
+      ? 'Storage is disabled in this browser, so changes last until the page is closed.'
+      : null;
+  const noticeKey = error ?? (backend === 'memory' ? 'failed' : null);
+
+  if (!message || dismissed === noticeKey) return null;
+
+  return (
+    <div
+      role="status"
+      className={`fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-start space-x-3 max-w-lg px-4 py-3 rounded-lg border shadow-lg text-sm ${
+        isDarkMode ? 'bg-amber-900/90 border-amber-800 text-amber-100' : 'bg-amber-50 border-amber-200 text-amber-800'
+      }`}
+    >
+      <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      <span className="flex-1">{message}</span>
+      <button onClick={() => setDismissed(noticeKey)} title="Dismiss">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
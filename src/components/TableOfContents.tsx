@@ -1,5 +1,8 @@
 import React from 'react';
-import { ChevronRight, ChevronDown, Bookmark, BookmarkCheck } from 'lucide-react';
+import { ChevronRight, ChevronDown, Bookmark, BookmarkCheck, StickyNote, Circle, CheckCircle2, AlertCircle, Award, Timer } from 'lucide-react';
+import { navigateToSection } from '../utils/router';
+import { completionPercent, isSectionComplete, nextSectionStatus } from '../utils/sectionProgress';
+import type { DocumentProgress, SectionStatus, StoredBookmark } from '../utils/storage/schema';
 
 interface Section {
   id: string;
@@ -7,12 +10,27 @@ interface Section {
   level: number;
 }
 
+const statusDisplay: Record<SectionStatus | 'none', { label: string; icon: typeof Circle; className: string }> = {
+  none: { label: 'Not studied', icon: Circle, className: 'text-gray-400' },
+  read: { label: 'Read', icon: CheckCircle2, className: 'text-green-500' },
+  review: { label: 'Needs review', icon: AlertCircle, className: 'text-amber-500' },
+  mastered: { label: 'Mastered', icon: Award, className: 'text-purple-500' }
+};
+
 interface TableOfContentsProps {
   sections: Section[];
   activeSection: string;
-  bookmarks: string[];
+  // Bookmarks in this guide
+  bookmarks: StoredBookmark[];
   onSectionClick: (sectionId: string) => void;
   onToggleBookmark: (sectionId: string) => void;
+  // Notes per section ID
+  noteCounts: Record<string, number>;
+  // Study status of this guide's sections
+  progress: DocumentProgress;
+  onSetSectionStatus: (sectionId: string, status: SectionStatus | undefined) => void;
+  autoMarkRead: boolean;
+  onToggleAutoMarkRead: () => void;
   isDarkMode: boolean;
 }
 
@@ -22,6 +40,11 @@ export function TableOfContents({
   bookmarks,
   onSectionClick,
   onToggleBookmark,
+  noteCounts,
+  progress,
+  onSetSectionStatus,
+  autoMarkRead,
+  onToggleAutoMarkRead,
   isDarkMode
 }: TableOfContentsProps) {
   const [expandedSections, setExpandedSections] = React.useState<string[]>(['main']);
@@ -35,13 +58,15 @@ export function TableOfContents({
   };
 
   const scrollToSection = (sectionId: string) => {
-    const element = document.getElementById(sectionId);
-    if (element) {
-      element.scrollIntoView({ behavior: 'smooth' });
+    if (document.getElementById(sectionId)) {
+      navigateToSection(sectionId);
       onSectionClick(sectionId);
     }
   };
 
+  const completedCount = sections.filter(section => isSectionComplete(progress.sections[section.id])).length;
+  const percent = completionPercent({ ...progress, sectionCount: sections.length });
+
   return (
     <nav className="p-6">
       <h2 className={`text-lg font-semibold mb-4 ${
@@ -49,6 +74,29 @@ export function TableOfContents({
       }`}>
         Table of Contents
       </h2>
+
+      {/* Study progress across sessions, unlike the scroll progress in the header */}
+      <div className="mb-6">
+        <div className={`flex items-center justify-between mb-1 text-xs ${
+          isDarkMode ? 'text-gray-400' : 'text-gray-500'
+        }`}>
+          <span>{completedCount} of {sections.length} sections studied · {percent}%</span>
+          <button
+            onClick={onToggleAutoMarkRead}
+            title={autoMarkRead
+              ? 'Sections are marked read after you spend a while on them. Click to turn off.'
+              : 'Mark sections read after you spend a while on them'}
+            className={`p-1 rounded transition-colors ${
+              autoMarkRead ? 'text-green-500' : 'text-gray-400'
+            } ${isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'}`}
+          >
+            <Timer className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        <div className={`h-1.5 rounded-full overflow-hidden ${isDarkMode ? 'bg-gray-800' : 'bg-gray-200'}`}>
+          <div className="h-full bg-green-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
       
       {/* Bookmarks Section */}
       {bookmarks.length > 0 && (
@@ -76,16 +124,18 @@ export function TableOfContents({
           
           {expandedSections.includes('bookmarks') && (
             <ul className="ml-4 mt-2 space-y-1">
-              {bookmarks.map((bookmarkId) => {
-                const section = sections.find(s => s.id === bookmarkId);
-                if (!section) return null;
+              {bookmarks.map((bookmark) => {
+                // Headings renamed or removed since keep their bookmark, shown by its stored title
+                const section = sections.find(s => s.id === bookmark.sectionId);
                 
                 return (
-                  <li key={bookmarkId}>
+                  <li key={bookmark.sectionId} className="flex items-center">
                     <button
-                      onClick={() => scrollToSection(section.id)}
-                      className={`flex items-center justify-between w-full p-2 rounded-md text-left transition-colors ${
-                        activeSection === section.id
+                      onClick={() => scrollToSection(bookmark.sectionId)}
+                      disabled={!section}
+                      title={section ? undefined : 'This section no longer exists in the guide'}
+                      className={`flex items-center justify-between w-full p-2 rounded-md text-left transition-colors disabled:opacity-50 ${
+                        activeSection === bookmark.sectionId
                           ? isDarkMode
                             ? 'bg-blue-900 text-blue-200'
                             : 'bg-blue-100 text-blue-800'
@@ -94,8 +144,16 @@ export function TableOfContents({
                             : 'text-theme-light-text hover:bg-gray-100'
                       }`}
                     >
-                      <span className="text-sm">{section.title}</span>
+                      <span className="text-sm">{section?.title ?? bookmark.title}</span>
                     </button>
+                    {!section && (
+                      <button
+                        onClick={() => onToggleBookmark(bookmark.sectionId)}
+                        className="ml-2 text-xs text-gray-400 hover:text-red-500"
+                      >
+                        Remove
+                      </button>
+                    )}
                   </li>
                 );
               })}
@@ -127,7 +185,12 @@ export function TableOfContents({
         {expandedSections.includes('main') && (
           <ul className="ml-4 space-y-1">
             {sections.map((section) => {
-              const isBookmarked = bookmarks.includes(section.id);
+              const isBookmarked = bookmarks.some(bookmark => bookmark.sectionId === section.id);
+              const noteCount = noteCounts[section.id] ?? 0;
+              const status = progress.sections[section.id]?.status;
+              const display = statusDisplay[status ?? 'none'];
+              const next = nextSectionStatus(status);
+              const StatusIcon = display.icon;
               
               return (
                 <li key={section.id}>
@@ -143,7 +206,30 @@ export function TableOfContents({
                           : 'text-theme-light-text hover:bg-gray-100'
                     }`}
                   >
-                    <span className="text-sm">{section.title}</span>
+                    <span className="flex items-center text-sm">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onSetSectionStatus(section.id, next);
+                        }}
+                        title={`${display.label}. Click to mark as ${statusDisplay[next ?? 'none'].label.toLowerCase()}.`}
+                        className={`mr-2 shrink-0 ${display.className} ${
+                          status ? '' : 'opacity-40 group-hover:opacity-100 transition-opacity'
+                        }`}
+                      >
+                        <StatusIcon className="w-3.5 h-3.5" />
+                      </button>
+                      <span>{section.title}</span>
+                    </span>
+                    {noteCount > 0 && (
+                      <span
+                        title={`${noteCount} note${noteCount !== 1 ? 's' : ''}`}
+                        className="flex items-center space-x-0.5 ml-auto mr-2 text-xs text-emerald-500"
+                      >
+                        <StickyNote className="w-3.5 h-3.5" />
+                        <span>{noteCount}</span>
+                      </span>
+                    )}
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
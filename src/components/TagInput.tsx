@@ -0,0 +1,117 @@
+import { useState, useMemo, type KeyboardEvent } from 'react';
+import { X } from 'lucide-react';
+import { normalizeTag, normalizeTags } from '../utils/notes';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  // Tags already in use, offered as completions
+  suggestions: string[];
+  isDarkMode: boolean;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export function TagInput({ tags, onChange, suggestions, isDarkMode }: TagInputProps) {
+  const [input, setInput] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+
+  const matches = useMemo(() => {
+    const prefix = normalizeTag(input);
+    if (!prefix) return [];
+    return suggestions
+      .filter(tag => tag.startsWith(prefix) && !tags.includes(tag))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [input, suggestions, tags]);
+
+  const addTags = (values: string[]) => {
+    onChange(normalizeTags([...tags, ...values]));
+    setInput('');
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' && matches.length > 0) {
+      event.preventDefault();
+      setHighlighted((highlighted + 1) % matches.length);
+    } else if (event.key === 'ArrowUp' && matches.length > 0) {
+      event.preventDefault();
+      setHighlighted((highlighted - 1 + matches.length) % matches.length);
+    } else if (event.key === 'Enter' || event.key === ',' || (event.key === 'Tab' && input.trim())) {
+      if (!input.trim()) return;
+      event.preventDefault();
+      addTags([matches[highlighted] ?? input]);
+    } else if (event.key === 'Backspace' && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    } else if (event.key === 'Escape' && input) {
+      event.stopPropagation();
+      setInput('');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className={`flex flex-wrap items-center gap-1 w-full p-1.5 border rounded-md text-sm ${
+        isDarkMode ? 'bg-theme-dark-bg border-gray-700' : 'bg-theme-light-bg border-gray-300'
+      }`}>
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className={`flex items-center space-x-1 px-2 py-0.5 text-xs rounded-full ${
+              isDarkMode ? 'bg-gray-700 text-theme-dark-text' : 'bg-gray-100 text-theme-light-text'
+            }`}
+          >
+            <span>#{tag}</span>
+            <button onClick={() => onChange(tags.filter(t => t !== tag))} title={`Remove #${tag}`}>
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => {
+            // Pasted lists are split on commas
+            const parts = e.target.value.split(',');
+            if (parts.length > 1) addTags(parts);
+            else {
+              setInput(e.target.value);
+              setHighlighted(0);
+            }
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input.trim() && addTags([input])}
+          placeholder={tags.length === 0 ? 'Add tags...' : ''}
+          className={`flex-1 min-w-[6rem] px-1 py-0.5 bg-transparent outline-none ${
+            isDarkMode ? 'text-theme-dark-text placeholder-gray-500' : 'text-theme-light-text placeholder-gray-400'
+          }`}
+        />
+      </div>
+
+      {matches.length > 0 && (
+        <ul className={`absolute left-0 right-0 top-full mt-1 z-10 py-1 rounded-md border shadow-lg text-sm ${
+          isDarkMode ? 'bg-theme-dark-bg border-gray-700' : 'bg-theme-light-bg border-gray-200'
+        }`}>
+          {matches.map((tag, index) => (
+            <li key={tag}>
+              <button
+                // Keep focus in the input so blur does not add the partial text first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTags([tag]);
+                }}
+                className={`w-full px-3 py-1 text-left ${
+                  index === highlighted
+                    ? (isDarkMode ? 'bg-gray-800' : 'bg-gray-100')
+                    : ''
+                }`}
+              >
+                #{tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
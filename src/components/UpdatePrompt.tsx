@@ -0,0 +1,36 @@
+import { useState } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { applyUpdate, useOfflineStatus } from '../utils/offline';
+
+interface UpdatePromptProps {
+  isDarkMode: boolean;
+}
+
+export function UpdatePrompt({ isDarkMode }: UpdatePromptProps) {
+  const { updateReady } = useOfflineStatus();
+  // Later is fine: the new version takes over by itself once every tab is closed
+  const [dismissed, setDismissed] = useState(false);
+
+  if (!updateReady || dismissed) return null;
+
+  return (
+    <div
+      role="status"
+      className={`fixed bottom-4 right-4 z-50 flex items-center space-x-3 max-w-sm px-4 py-3 rounded-lg border shadow-lg text-sm ${
+        isDarkMode ? 'bg-blue-900/90 border-blue-800 text-blue-100' : 'bg-blue-50 border-blue-200 text-blue-800'
+      }`}
+    >
+      <RefreshCw className="w-4 h-4 flex-shrink-0" />
+      <span className="flex-1">A new version of Study Docs is available.</span>
+      <button
+        onClick={applyUpdate}
+        className="px-3 py-1 rounded-md bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors"
+      >
+        Reload
+      </button>
+      <button onClick={() => setDismissed(true)} title="Later">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -1,10 +1,17 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { hydrateUserState } from './utils/storage/userStore';
+import { registerServiceWorker } from './utils/offline';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+registerServiceWorker();
+
+// Render once saved preferences are known; hydration never rejects, it falls back to defaults
+hydrateUserState().then(() => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>
+  );
+});
@@ -1,144 +1,9 @@
-// Import markdown files as raw text using Vite's ?raw suffix
-import apiDesign50Content from './api-design-50.md?raw';
-import apiDevelopmentContent from './api-development.md?raw';
-import arrayDsaContent from './array-dsa.md?raw';
-import backtrackingDsaContent from './backtracking-dsa.md?raw';
-import binaryTreeDsaContent from './binary-tree-dsa.md?raw';
-import bitManipulationContent from './bit-manipulation.md?raw';
-import blockchainDsaContent from './blockchain-dsa.md?raw';
-import bytebytegoSystemDesignContent from './bytebytego-system-design.md?raw';
-import databaseContent from './database.md?raw';
-import divideNConquerDsaContent from './divide-n-conquer-dsa.md?raw';
-import dsaBasicsContent from './dsa-basics.md?raw';
-import dsaCodingInterviewUniContent from './dsa-coding-interview-uni.md?raw';
-import dsaQuestionListContent from './dsa-question-list.md?raw';
-import dynamicProgrammingContent from './dynamic-programming.md?raw';
-import express100Content from './express-100.md?raw';
-import fastapiContent from './fastapi.md?raw';
-import frontendChecklistContent from './frontend-checklist.md?raw';
-import frontendSystemDesignContent from './frontend-system-design.md?raw';
-import fullStackGuideContent from './full-stack-guide.md?raw';
-import gcpContent from './gcp.md?raw';
-import greedyDsaContent from './greedy-dsa.md?raw';
-import grokkingDsaShortcutContent from './grokking-dsa-shortcut.md?raw';
-import grokkingSystemDesignContent from './grokking-system-design.md?raw';
-import hashtableDsaContent from './hashtable-dsa.md?raw';
-import heapDsaContent from './heap-dsa.md?raw';
-import javascript100Content from './javascript-100.md?raw';
-import linkedListDsaContent from './linked-list-dsa.md?raw';
-import nodejs100Content from './nodejs-100.md?raw';
-import nodejsContent from './nodejs.md?raw';
-import python100Content from './python-100.md?raw';
-import pythonBasicsContent from './python-basics.md?raw';
-import pythonContent from './python.md?raw';
-import queueDsaContent from './queue-dsa.md?raw';
-import react500Content from './react-500.md?raw';
-import reactContent from './react.md?raw';
-import reactiveSystems32Content from './reactive-systems-32.md?raw';
-import recursionDsaContent from './recursion-dsa.md?raw';
-import searchinDsaContent from './searchin-dsa.md?raw';
-import softwareArchitechtureContent from './software-architechture.md?raw';
-import sortingDsaContent from './sorting-dsa.md?raw';
-import sql100Content from './sql-100.md?raw';
-import stackDsaContent from './stack-dsa.md?raw';
-import stringDsaContent from './string-dsa.md?raw';
-import systemDesignContent from './system-design.md?raw';
-import typescript100Content from './typescript-100.md?raw';
+import type { Document } from '../utils/compileGuide';
 
-// Export all content as named exports
-export {
-  apiDesign50Content,
-  apiDevelopmentContent,
-  arrayDsaContent,
-  backtrackingDsaContent,
-  binaryTreeDsaContent,
-  bitManipulationContent,
-  blockchainDsaContent,
-  bytebytegoSystemDesignContent,
-  databaseContent,
-  divideNConquerDsaContent,
-  dsaBasicsContent,
-  dsaCodingInterviewUniContent,
-  dsaQuestionListContent,
-  dynamicProgrammingContent,
-  express100Content,
-  fastapiContent,
-  frontendChecklistContent,
-  frontendSystemDesignContent,
-  fullStackGuideContent,
-  gcpContent,
-  greedyDsaContent,
-  grokkingDsaShortcutContent,
-  grokkingSystemDesignContent,
-  hashtableDsaContent,
-  heapDsaContent,
-  javascript100Content,
-  linkedListDsaContent,
-  nodejs100Content,
-  nodejsContent,
-  python100Content,
-  pythonBasicsContent,
-  pythonContent,
-  queueDsaContent,
-  react500Content,
-  reactContent,
-  reactiveSystems32Content,
-  recursionDsaContent,
-  searchinDsaContent,
-  softwareArchitechtureContent,
-  sortingDsaContent,
-  sql100Content,
-  stackDsaContent,
-  stringDsaContent,
-  systemDesignContent,
-  typescript100Content
-};
+// Loaders for each guide by file name, one chunk per guide, compiled at build time
+// (see plugins/guideCompiler.ts)
+const modules = import.meta.glob<Document>('./*.md', { query: '?compiled', import: 'default' });
 
-// Export content map for dynamic loading
-export const contentMap = {
-  'api-design-50': apiDesign50Content,
-  'api-development': apiDevelopmentContent,
-  'array-dsa': arrayDsaContent,
-  'backtracking-dsa': backtrackingDsaContent,
-  'binary-tree-dsa': binaryTreeDsaContent,
-  'bit-manipulation': bitManipulationContent,
-  'blockchain-dsa': blockchainDsaContent,
-  'bytebytego-system-design': bytebytegoSystemDesignContent,
-  'database': databaseContent,
-  'divide-n-conquer-dsa': divideNConquerDsaContent,
-  'dsa-basics': dsaBasicsContent,
-  'dsa-coding-interview-uni': dsaCodingInterviewUniContent,
-  'dsa-question-list': dsaQuestionListContent,
-  'dynamic-programming': dynamicProgrammingContent,
-  'express-100': express100Content,
-  'fastapi': fastapiContent,
-  'frontend-checklist': frontendChecklistContent,
-  'frontend-system-design': frontendSystemDesignContent,
-  'full-stack-guide': fullStackGuideContent,
-  'gcp': gcpContent,
-  'greedy-dsa': greedyDsaContent,
-  'grokking-dsa-shortcut': grokkingDsaShortcutContent,
-  'grokking-system-design': grokkingSystemDesignContent,
-  'hashtable-dsa': hashtableDsaContent,
-  'heap-dsa': heapDsaContent,
-  'javascript-100': javascript100Content,
-  'linked-list-dsa': linkedListDsaContent,
-  'nodejs-100': nodejs100Content,
-  'nodejs': nodejsContent,
-  'python-100': python100Content,
-  'python-basics': pythonBasicsContent,
-  'python': pythonContent,
-  'queue-dsa': queueDsaContent,
-  'react-500': react500Content,
-  'react': reactContent,
-  'reactive-systems-32': reactiveSystems32Content,
-  'recursion-dsa': recursionDsaContent,
-  'searchin-dsa': searchinDsaContent,
-  'software-architechture': softwareArchitechtureContent,
-  'sorting-dsa': sortingDsaContent,
-  'sql-100': sql100Content,
-  'stack-dsa': stackDsaContent,
-  'string-dsa': stringDsaContent,
-  'system-design': systemDesignContent,
-  'typescript-100': typescript100Content
-};
+export const contentLoaders: Record<string, () => Promise<Document>> = Object.fromEntries(
+  Object.entries(modules).map(([path, load]) => [path.slice('./'.length), load])
+);
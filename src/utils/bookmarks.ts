@@ -0,0 +1,53 @@
+import type { StoredBookmark } from './storage/schema';
+
+interface SectionRef {
+  id: string;
+  title: string;
+}
+
+const matches = (bookmark: StoredBookmark, contentId: string, sectionId: string) =>
+  bookmark.contentId === contentId && bookmark.sectionId === sectionId;
+
+export const toggleBookmark = (
+  bookmarks: StoredBookmark[],
+  contentId: string,
+  section: SectionRef
+): StoredBookmark[] =>
+  bookmarks.some(bookmark => matches(bookmark, contentId, section.id))
+    ? bookmarks.filter(bookmark => !matches(bookmark, contentId, section.id))
+    : [...bookmarks, { contentId, sectionId: section.id, title: section.title, createdAt: new Date().toISOString() }];
+
+export const updateBookmark = (
+  bookmarks: StoredBookmark[],
+  target: StoredBookmark,
+  changes: Pick<StoredBookmark, 'label' | 'folder'>
+): StoredBookmark[] =>
+  bookmarks.map(bookmark =>
+    matches(bookmark, target.contentId, target.sectionId) ? { ...bookmark, ...changes } : bookmark
+  );
+
+export const removeBookmark = (bookmarks: StoredBookmark[], target: StoredBookmark): StoredBookmark[] =>
+  bookmarks.filter(bookmark => !matches(bookmark, target.contentId, target.sectionId));
+
+// Keep stored titles in step with renamed headings; returns the same array when nothing changed
+export const refreshBookmarkTitles = (
+  bookmarks: StoredBookmark[],
+  contentId: string,
+  sections: SectionRef[]
+): StoredBookmark[] => {
+  const titles = new Map(sections.map(section => [section.id, section.title]));
+  let changed = false;
+  const refreshed = bookmarks.map(bookmark => {
+    const title = bookmark.contentId === contentId ? titles.get(bookmark.sectionId) : undefined;
+    if (title === undefined || title === bookmark.title) return bookmark;
+    changed = true;
+    return { ...bookmark, title };
+  });
+  return changed ? refreshed : bookmarks;
+};
+
+// Folder names in use, alphabetically; unfiled bookmarks are not a folder
+export const bookmarkFolders = (bookmarks: StoredBookmark[]): string[] =>
+  [...new Set(bookmarks.map(bookmark => bookmark.folder?.trim()).filter((folder): folder is string => !!folder))].sort(
+    (a, b) => a.localeCompare(b)
+  );
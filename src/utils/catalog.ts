@@ -0,0 +1,68 @@
+// Shapes of the guide catalog. The build reads it from the front matter of each file in
+// src/readmes and serves it as `virtual:content-catalog`, so this module stays free of
+// browser and Node APIs alike.
+
+// Icons a guide can name in its front matter; each one is mapped to a component in contentIcons.ts
+export const CONTENT_ICONS = [
+  'Activity',
+  'AlignLeft',
+  'BarChart2',
+  'BookOpen',
+  'CheckSquare',
+  'Cloud',
+  'Code',
+  'CornerUpLeft',
+  'Database',
+  'FastForward',
+  'FileText',
+  'GitBranch',
+  'Globe',
+  'Grid',
+  'Hash',
+  'Layers',
+  'Layout',
+  'Link',
+  'Link2',
+  'List',
+  'Network',
+  'Repeat',
+  'Scissors',
+  'Search',
+  'Server',
+  'Sliders',
+  'Terminal',
+  'TrendingUp',
+  'Triangle',
+  'Type',
+  'Zap'
+] as const;
+export type ContentIconName = (typeof CONTENT_ICONS)[number];
+
+export const CONTENT_DIFFICULTIES = ['beginner', 'intermediate', 'advanced'] as const;
+export type ContentDifficulty = (typeof CONTENT_DIFFICULTIES)[number];
+
+// How a guide's questions are found for flashcards
+export interface FlashcardRule {
+  // Heading level of the questions; deeper headings are part of the answer
+  level: number;
+  // Titles that are questions
+  match: RegExp;
+  // Part of the title left off the card, such as the question number
+  strip?: RegExp;
+}
+
+export interface ContentItem {
+  // The file name without `.md`, unless the front matter sets one
+  id: string;
+  title: string;
+  filename: string;
+  icon: ContentIconName;
+  category: string;
+  tags: string[];
+  difficulty: ContentDifficulty | null;
+  // Position in the catalog; guides without one come last, by title
+  order: number | null;
+  flashcards?: FlashcardRule;
+  // Problem tables and practice links of the guide go into the problem tracker
+  problems?: boolean;
+}
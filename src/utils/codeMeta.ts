@@ -0,0 +1,100 @@
+export interface CodeBlockMeta {
+  title?: string;
+  // 1-based lines within the block to emphasize, from `{3,5-7}`
+  highlightLines: Set<number>;
+  showLineNumbers: boolean;
+  // First displayed line number, from `showLineNumbers=10`
+  startLine: number;
+  wrap: boolean;
+}
+
+export type DiffMarker = 'added' | 'removed' | 'context' | 'header';
+
+export interface DiffLine {
+  marker: DiffMarker;
+  text: string;
+}
+
+const parseLineRanges = (spec: string): Set<number> => {
+  const lines = new Set<number>();
+  for (const part of spec.split(',')) {
+    const [from, to] = part.trim().split('-').map(value => parseInt(value, 10));
+    if (Number.isNaN(from)) continue;
+    const end = Number.isNaN(to) || to === undefined ? from : to;
+    for (let line = Math.min(from, end); line <= Math.max(from, end); line++) lines.add(line);
+  }
+  return lines;
+};
+
+// Parse fence metadata such as `title="server.ts" {3,5-7} showLineNumbers wrap`
+export const parseCodeMeta = (meta: string): CodeBlockMeta => {
+  const result: CodeBlockMeta = {
+    highlightLines: new Set(),
+    showLineNumbers: false,
+    startLine: 1,
+    wrap: false
+  };
+
+  const tokens = meta.match(/\w+=(?:"[^"]*"|'[^']*'|\S+)|\{[^}]*\}|\S+/g) ?? [];
+  for (const token of tokens) {
+    if (token.startsWith('{')) {
+      parseLineRanges(token.slice(1, -1)).forEach(line => result.highlightLines.add(line));
+      continue;
+    }
+
+    const [key, ...rest] = token.split('=');
+    const value = rest.join('=').replace(/^(["'])(.*)\1$/, '$2');
+    switch (key) {
+      case 'title':
+        result.title = value;
+        break;
+      case 'showLineNumbers': {
+        result.showLineNumbers = true;
+        const start = parseInt(value, 10);
+        if (!Number.isNaN(start)) result.startLine = start;
+        break;
+      }
+      case 'wrap':
+        result.wrap = value !== 'false';
+        break;
+    }
+  }
+
+  return result;
+};
+
+// `diff` and `diff-<lang>` fences; returns the underlying language or null
+export const getDiffLanguage = (lang: string): string | null => {
+  const match = /^diff(?:-(.+))?$/i.exec(lang.trim());
+  return match ? match[1] ?? '' : null;
+};
+
+// Hunk headers (`@@ -1,4 +1,5 @@`) of a full unified diff; they are not changes
+const HUNK_HEADER = /^@@/;
+// File headers (`--- a/file` then `+++ b/file`); alone, such lines are a removed `-- comment` or an
+// added `++i`, so only the pair before the first hunk, or right before a later file's hunk, counts
+const OLD_FILE_HEADER = /^---(?:\s|$)/;
+const NEW_FILE_HEADER = /^\+\+\+(?:\s|$)/;
+
+const fileHeaderLines = (lines: string[]): Set<number> => {
+  const headers = new Set<number>();
+  let sawHunk = false;
+  lines.forEach((line, i) => {
+    if (HUNK_HEADER.test(line)) sawHunk = true;
+    if (!OLD_FILE_HEADER.test(line) || !NEW_FILE_HEADER.test(lines[i + 1] ?? '')) return;
+    if (!sawHunk || HUNK_HEADER.test(lines[i + 2] ?? '')) headers.add(i).add(i + 1);
+  });
+  return headers;
+};
+
+// Separate unified-diff markers from line content
+export const parseDiffLines = (code: string): DiffLine[] => {
+  const lines = code.split('\n');
+  const fileHeaders = fileHeaderLines(lines);
+  return lines.map((line, i) => {
+    if (fileHeaders.has(i) || HUNK_HEADER.test(line)) return { marker: 'header', text: line };
+    if (line.startsWith('+')) return { marker: 'added', text: line.slice(1) };
+    if (line.startsWith('-')) return { marker: 'removed', text: line.slice(1) };
+    return { marker: 'context', text: line.startsWith(' ') ? line.slice(1) : line };
+  });
+};
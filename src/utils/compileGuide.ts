@@ -0,0 +1,66 @@
+import { parseMarkdown, type MarkdownRoot } from './markdown';
+import { collectHeadings } from './headingIds';
+import { collectTaskItems, type TaskItem } from './taskLists';
+import { toPlainLine } from './search/searchIndex';
+import { countWords } from './search/tokenizer';
+
+// A guide as the app reads it. The build compiles every guide into one of these (see
+// plugins/guideCompiler.ts), so pages only hydrate it; nothing here touches the browser or Node.
+
+export interface DocumentSection {
+  id: string;
+  title: string;
+  level: number;
+  // Zero-based line of the heading in the Markdown source
+  line: number;
+  // Words between this heading and the next one, subsections excluded
+  words: number;
+}
+
+export interface Document {
+  title: string;
+  content: string;
+  root: MarkdownRoot;
+  sections: DocumentSection[];
+  // Task-list items, for guides used as checklists
+  tasks: TaskItem[];
+  wordCount: number;
+}
+
+// Words of some Markdown source lines, without the syntax around them
+const countLineWords = (lines: string[]) =>
+  lines.reduce((total, line) => total + countWords(toPlainLine(line).replace(/<[^>]*>/g, ' ')), 0);
+
+export const compileGuide = (content: string): Document => {
+  // Extract title from first heading
+  const titleMatch = content.match(/^#\s+(.+)$/m);
+  const title = titleMatch ? titleMatch[1] : 'Untitled Document';
+
+  const root = parseMarkdown(content);
+  const lines = content.split('\n');
+  const headings = collectHeadings(root);
+  // IDs match the rendered heading anchors
+  const sections = headings.map(({ id, title, level, line }, index) => ({
+    id,
+    title,
+    level,
+    line,
+    words: countLineWords(lines.slice(line + 1, headings[index + 1]?.line ?? lines.length))
+  }));
+  const tasks = collectTaskItems(root).map(({ key, sectionId, text, line, checked }) => ({
+    key,
+    sectionId,
+    text,
+    line,
+    checked
+  }));
+
+  return {
+    title,
+    content,
+    root,
+    sections,
+    tasks,
+    wordCount: countLineWords(lines)
+  };
+};
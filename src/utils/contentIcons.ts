@@ -0,0 +1,70 @@
+import {
+  Activity,
+  AlignLeft,
+  BarChart2,
+  BookOpen,
+  CheckSquare,
+  Cloud,
+  Code,
+  CornerUpLeft,
+  Database,
+  FastForward,
+  FileText,
+  GitBranch,
+  Globe,
+  Grid,
+  Hash,
+  Layers,
+  Layout,
+  Link,
+  Link2,
+  List,
+  Network,
+  Repeat,
+  Scissors,
+  Search,
+  Server,
+  Sliders,
+  Terminal,
+  TrendingUp,
+  Triangle,
+  Type,
+  Zap,
+  type LucideIcon
+} from 'lucide-react';
+import type { ContentIconName } from './catalog';
+
+// Components for the icon names the catalog accepts
+export const contentIcons: Record<ContentIconName, LucideIcon> = {
+  Activity,
+  AlignLeft,
+  BarChart2,
+  BookOpen,
+  CheckSquare,
+  Cloud,
+  Code,
+  CornerUpLeft,
+  Database,
+  FastForward,
+  FileText,
+  GitBranch,
+  Globe,
+  Grid,
+  Hash,
+  Layers,
+  Layout,
+  Link,
+  Link2,
+  List,
+  Network,
+  Repeat,
+  Scissors,
+  Search,
+  Server,
+  Sliders,
+  Terminal,
+  TrendingUp,
+  Triangle,
+  Type,
+  Zap
+};
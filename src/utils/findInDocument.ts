@@ -0,0 +1,92 @@
+// Where in the rendered Markdown to look: everything, prose only, or code (blocks and inline) only
+export type FindScope = 'all' | 'prose' | 'code';
+
+export interface FindOptions {
+  query: string;
+  scope: FindScope;
+  matchCase: boolean;
+}
+
+// Show a search result in place: find `query`, starting at the section with heading `sectionId`
+export interface FindRequest {
+  query: string;
+  sectionId: string;
+}
+
+// Stop collecting past this many matches, e.g. for a single letter in react-500
+export const MAX_FIND_MATCHES = 2000;
+
+// Text that is on screen but not part of the document: controls, line numbers, KaTeX's MathML copy
+const IGNORED_SELECTOR = 'button, input, textarea, [aria-hidden="true"], .katex-mathml, [data-find-ignore]';
+
+// Matches never span these, so the end of one paragraph or code line does not run into the next
+const BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, td, th, blockquote, pre, [data-code-line], div, summary';
+
+interface TextSegment {
+  nodes: Text[];
+  // Offset of each node's text within the segment
+  offsets: number[];
+  text: string;
+}
+
+const collectSegments = (root: Element, scope: FindScope): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let current: TextSegment | null = null;
+  let currentBlock: Element | null = null;
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node as Text;
+    const parent = text.parentElement;
+    if (!parent || !text.data || parent.closest(IGNORED_SELECTOR)) continue;
+
+    const inCode = parent.closest('code') !== null;
+    if ((scope === 'code' && !inCode) || (scope === 'prose' && inCode)) {
+      // Skipped text still separates what comes before from what comes after
+      currentBlock = null;
+      continue;
+    }
+
+    const block = parent.closest(BLOCK_SELECTOR);
+    if (!current || block !== currentBlock) {
+      current = { nodes: [], offsets: [], text: '' };
+      currentBlock = block;
+      segments.push(current);
+    }
+    current.nodes.push(text);
+    current.offsets.push(current.text.length);
+    current.text += text.data;
+  }
+
+  return segments;
+};
+
+// Node and offset for a position inside a segment
+const locate = (segment: TextSegment, position: number, isEnd: boolean): [Text, number] => {
+  let index = segment.offsets.length - 1;
+  while (index > 0 && (segment.offsets[index] > position || (isEnd && segment.offsets[index] === position))) index--;
+  return [segment.nodes[index], position - segment.offsets[index]];
+};
+
+// Literal, Ctrl+F style matching over the rendered text under `root`, in document order
+export const findTextRanges = (root: Element, { query, scope, matchCase }: FindOptions): Range[] => {
+  if (!query) return [];
+  const needle = matchCase ? query : query.toLowerCase();
+  const ranges: Range[] = [];
+
+  for (const segment of collectSegments(root, scope)) {
+    const haystack = matchCase ? segment.text : segment.text.toLowerCase();
+    for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+      const range = document.createRange();
+      range.setStart(...locate(segment, index, false));
+      range.setEnd(...locate(segment, index + needle.length, true));
+      ranges.push(range);
+      if (ranges.length >= MAX_FIND_MATCHES) return ranges;
+    }
+  }
+
+  return ranges;
+};
+
+// CSS Custom Highlight API support; without it the current match is shown as the selection
+export const supportsHighlights = () => typeof CSS !== 'undefined' && 'highlights' in CSS;
@@ -0,0 +1,138 @@
+import { getContentItemById, loadMarkdownContent } from './documentLoader';
+import type { Document } from './compileGuide';
+import type { FlashcardRule } from './catalog';
+import type { FlashcardSchedule } from './storage/schema';
+
+export interface Flashcard {
+  id: string;
+  contentId: string;
+  sectionId: string;
+  question: string;
+  // Markdown of the section under the question
+  answer: string;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 response quality per answer button; below 3 the card starts over
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// New cards introduced per day, across all decks
+export const NEW_CARDS_PER_DAY = 20;
+
+// "Back to top" links of the guides point at their table of contents, which a card does not have
+const BACK_TO_TOP = /^\s*\**\[[^\]]*\]\(#table-of-contents\)\**\s*$/;
+
+export const flashcardId = (contentId: string, sectionId: string) => `${contentId}#${sectionId}`;
+
+// Local calendar date, YYYY-MM-DD; reviews fall due by day, not by the hour
+export const localDate = (date: Date): string =>
+  [date.getFullYear(), String(date.getMonth() + 1).padStart(2, '0'), String(date.getDate()).padStart(2, '0')].join('-');
+
+const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return localDate(new Date(year, month - 1, day + days));
+};
+
+// Questions inside list items (react-500) are indented along with their answers
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const dedent = (lines: string[]): string[] => {
+  const indents = lines.filter(line => line.trim()).map(indentOf);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.slice(Math.min(indent, indentOf(line))));
+};
+
+// A card per question heading, answered by everything up to the next heading at its level or above
+export const extractFlashcards = (contentId: string, { content, sections }: Document, rule: FlashcardRule): Flashcard[] => {
+  const lines = content.split('\n');
+  const cards: Flashcard[] = [];
+
+  sections.forEach((section, index) => {
+    if (section.level !== rule.level || !rule.match.test(section.title)) return;
+    const end = sections.slice(index + 1).find(next => next.level <= rule.level)?.line ?? lines.length;
+    const answer = dedent(lines.slice(section.line + 1, end).filter(line => !BACK_TO_TOP.test(line)))
+      .join('\n')
+      .trim();
+    if (!answer) return;
+    cards.push({
+      id: flashcardId(contentId, section.id),
+      contentId,
+      sectionId: section.id,
+      question: (rule.strip ? section.title.replace(rule.strip, '') : section.title).trim(),
+      answer
+    });
+  });
+
+  return cards;
+};
+
+const deckCache = new Map<string, Promise<Flashcard[]>>();
+
+// Cards of a guide, parsed once per session; guides without a rule have none
+export const loadFlashcards = (contentId: string): Promise<Flashcard[]> => {
+  const rule = getContentItemById(contentId)?.flashcards;
+  if (!rule) return Promise.resolve([]);
+  let cards = deckCache.get(contentId);
+  if (!cards) {
+    cards = loadMarkdownContent(contentId).then(document =>
+      document ? extractFlashcards(contentId, document, rule) : []
+    );
+    // A failed load is retried next time
+    cards.catch(() => deckCache.delete(contentId));
+    deckCache.set(contentId, cards);
+  }
+  return cards;
+};
+
+// Days until the next review after answering with `grade`
+export const nextInterval = (schedule: FlashcardSchedule | undefined, grade: ReviewGrade): number => {
+  const quality = GRADE_QUALITY[grade];
+  if (quality < 3 || !schedule || schedule.repetitions === 0) return 1;
+  if (schedule.repetitions === 1) return 6;
+  return Math.round(schedule.interval * schedule.ease);
+};
+
+export const scheduleReview = (
+  schedule: FlashcardSchedule | undefined,
+  card: Flashcard,
+  grade: ReviewGrade,
+  now: Date
+): FlashcardSchedule => {
+  const quality = GRADE_QUALITY[grade];
+  const today = localDate(now);
+  const ease = schedule?.ease ?? INITIAL_EASE;
+  const interval = nextInterval(schedule, grade);
+  return {
+    contentId: card.contentId,
+    sectionId: card.sectionId,
+    question: card.question,
+    ease: Math.max(MIN_EASE, ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))),
+    interval,
+    repetitions: quality < 3 ? 0 : (schedule?.repetitions ?? 0) + 1,
+    lapses: (schedule?.lapses ?? 0) + (quality < 3 && schedule ? 1 : 0),
+    due: addDays(today, interval),
+    introducedOn: schedule?.introducedOn ?? today,
+    reviewedAt: now.toISOString()
+  };
+};
+
+// Scheduled cards of the chosen decks due by `today`; counted from the store alone, so it can
+// include cards whose heading has since been removed
+export const countDueCards = (schedules: Record<string, FlashcardSchedule>, decks: string[], today: string) =>
+  Object.values(schedules).filter(schedule => decks.includes(schedule.contentId) && schedule.due <= today).length;
+
+// Today's review: due cards, oldest first, then as many new cards as today's allowance leaves
+export const buildReviewQueue = (
+  cards: Flashcard[],
+  schedules: Record<string, FlashcardSchedule>,
+  today: string
+): Flashcard[] => {
+  const due = cards
+    .filter(card => schedules[card.id] && schedules[card.id].due <= today)
+    .sort((a, b) => schedules[a.id].due.localeCompare(schedules[b.id].due));
+  const introducedToday = Object.values(schedules).filter(schedule => schedule.introducedOn === today).length;
+  const fresh = cards.filter(card => !schedules[card.id]).slice(0, Math.max(0, NEW_CARDS_PER_DAY - introducedToday));
+  return [...due, ...fresh];
+};
@@ -0,0 +1,86 @@
+import { inlineToText, type BlockNode, type HeadingNode, type MarkdownRoot } from './markdown';
+
+export interface HeadingEntry {
+  node: HeadingNode;
+  id: string;
+  title: string;
+  level: number;
+  line: number;
+}
+
+// GitHub-compatible slug: lowercase, drop punctuation and symbols, spaces become hyphens
+export const slugify = (text: string): string =>
+  text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu, '')
+    .replace(/ /g, '-');
+
+// Stateful slugger: repeated slugs get `-1`, `-2`, ... suffixes in document order
+export const createSlugger = () => {
+  const occurrences = new Map<string, number>();
+
+  return (text: string, customId?: string): string => {
+    if (customId) {
+      if (!occurrences.has(customId)) occurrences.set(customId, 0);
+      return customId;
+    }
+
+    const base = slugify(text) || 'section';
+    let id = base;
+    while (occurrences.has(id)) {
+      const count = (occurrences.get(base) ?? 0) + 1;
+      occurrences.set(base, count);
+      id = `${base}-${count}`;
+    }
+    occurrences.set(id, 0);
+    return id;
+  };
+};
+
+// Heading nodes in document order, walking into containers
+export const collectHeadingNodes = (blocks: BlockNode[], headings: HeadingNode[]) => {
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      headings.push(block);
+    } else if (block.type === 'blockquote' || block.type === 'details') {
+      collectHeadingNodes(block.children, headings);
+    } else if (block.type === 'list') {
+      block.children.forEach(item => collectHeadingNodes(item.children, headings));
+    }
+  }
+  return headings;
+};
+
+// Every heading in the document, in order, with its unique anchor ID.
+// The TOC, the renderer and search all derive section IDs from here.
+export const collectHeadings = (root: MarkdownRoot): HeadingEntry[] => {
+  const slug = createSlugger();
+  return collectHeadingNodes(root.children, []).map(node => {
+    const title = inlineToText(node.children).trim();
+    return {
+      node,
+      id: slug(title, node.customId),
+      title,
+      level: node.level,
+      line: node.line
+    };
+  });
+};
+
+// Find the section containing a zero-based source line
+export const findSectionAtLine = <T extends { line: number }>(sections: T[], line: number): T | undefined => {
+  let low = 0;
+  let high = sections.length - 1;
+  let match: T | undefined;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (sections[mid].line <= line) {
+      match = sections[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return match;
+};
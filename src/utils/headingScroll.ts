@@ -0,0 +1,57 @@
+// Heading lookups on the rendered page; headingIds.ts has the rest, which also runs at build time
+
+// Section whose heading was scrolled past last, '' above the first heading
+export const findSectionInView = (sections: { id: string }[], offset = 100): string => {
+  let current = '';
+  for (const section of sections) {
+    const element = document.getElementById(section.id);
+    if (!element) continue;
+    if (element.getBoundingClientRect().top > offset) break;
+    current = section.id;
+  }
+  return current;
+};
+
+// Sent by a heading's stand-in in a long guide, whose section is not rendered (see sectionWindow.ts);
+// the guide renders the section and scrolls to the heading itself
+export const REVEAL_HEADING_EVENT = 'reveal-heading';
+
+export interface RevealHeadingDetail {
+  id: string;
+  // Pixels below the heading's top to scroll to, jumping there rather than gliding
+  offset?: number;
+}
+
+// Jump to `offset` pixels below an element's top
+export const jumpToOffset = (element: Element, offset: number) =>
+  window.scrollTo(0, element.getBoundingClientRect().top + window.scrollY + offset);
+
+// Expand the collapsed `<details>` sections around an element, so scrolling to it shows it
+export const openDetailsAround = (element: Element | null) => {
+  for (let details = element?.closest('details'); details; details = details.parentElement?.closest('details')) {
+    details.open = true;
+  }
+};
+
+// Scroll to an in-document anchor, e.g. from a `[text](#anchor)` link; with an offset, jump to
+// that far below it, e.g. to restore a reading position
+export const scrollToHeading = (id: string, offset?: number): boolean => {
+  const element = document.getElementById(id);
+  if (!element) return false;
+  if (element.hasAttribute('data-heading-placeholder')) {
+    const detail: RevealHeadingDetail = { id, offset };
+    element.dispatchEvent(new CustomEvent(REVEAL_HEADING_EVENT, { bubbles: true, detail }));
+  } else if (offset !== undefined) {
+    jumpToOffset(element, offset);
+  } else {
+    openDetailsAround(element);
+    element.scrollIntoView({ behavior: 'smooth' });
+  }
+  return true;
+};
+
+// How far the page is scrolled past a heading, for scrollToHeading to return to
+export const offsetFromHeading = (id: string): number | undefined => {
+  const element = document.getElementById(id);
+  return element ? Math.round(-element.getBoundingClientRect().top) : undefined;
+};
@@ -0,0 +1,125 @@
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import cpp from 'highlight.js/lib/languages/cpp';
+import csharp from 'highlight.js/lib/languages/csharp';
+import dockerfile from 'highlight.js/lib/languages/dockerfile';
+import graphql from 'highlight.js/lib/languages/graphql';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import markdown from 'highlight.js/lib/languages/markdown';
+import plaintext from 'highlight.js/lib/languages/plaintext';
+import protobuf from 'highlight.js/lib/languages/protobuf';
+import python from 'highlight.js/lib/languages/python';
+import ruby from 'highlight.js/lib/languages/ruby';
+import scala from 'highlight.js/lib/languages/scala';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+import { resolveLanguageAlias } from './languageAliases';
+
+export interface HighlightResult {
+  // Normalized language actually used, e.g. `python` for a ```py fence
+  language: string;
+  // Escaped HTML with hljs token spans
+  html: string;
+  // True when the language was guessed because the fence had none
+  detected: boolean;
+}
+
+const languages = {
+  bash,
+  cpp,
+  csharp,
+  dockerfile,
+  graphql,
+  java,
+  javascript,
+  json,
+  markdown,
+  plaintext,
+  protobuf,
+  python,
+  ruby,
+  scala,
+  sql,
+  typescript,
+  xml,
+  yaml
+};
+
+Object.entries(languages).forEach(([name, definition]) => hljs.registerLanguage(name, definition));
+
+// Languages considered when a fence has no info string
+const detectableLanguages = [
+  'python',
+  'javascript',
+  'typescript',
+  'java',
+  'sql',
+  'xml',
+  'cpp',
+  'csharp',
+  'bash',
+  'json'
+];
+
+// Below this hljs relevance score a guess is no better than plain text
+const MIN_DETECTION_RELEVANCE = 3;
+
+export const normalizeLanguage = (lang: string): string => {
+  const normalized = resolveLanguageAlias(lang);
+  if (!normalized) return '';
+  return hljs.getLanguage(normalized) ? normalized : 'plaintext';
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const highlightCode = (code: string, lang: string): HighlightResult => {
+  const language = normalizeLanguage(lang);
+
+  if (!language) {
+    const guess = hljs.highlightAuto(code, detectableLanguages);
+    if (guess.language && guess.relevance >= MIN_DETECTION_RELEVANCE) {
+      return { language: guess.language, html: guess.value, detected: true };
+    }
+    return { language: 'plaintext', html: escapeHtml(code), detected: true };
+  }
+
+  if (language === 'plaintext') {
+    return { language, html: escapeHtml(code), detected: false };
+  }
+
+  return {
+    language,
+    html: hljs.highlight(code, { language, ignoreIllegals: true }).value,
+    detected: false
+  };
+};
+
+// Split highlighted HTML into lines, closing and reopening token spans that cross line breaks
+export const splitHighlightedLines = (html: string): string[] => {
+  const lines: string[] = [];
+  const openTags: string[] = [];
+  let current = '';
+
+  for (const token of html.match(/<span[^>]*>|<\/span>|\n|[^<\n]+/g) ?? []) {
+    if (token === '\n') {
+      lines.push(current + '</span>'.repeat(openTags.length));
+      current = openTags.join('');
+    } else if (token.startsWith('<span')) {
+      openTags.push(token);
+      current += token;
+    } else if (token === '</span>') {
+      openTags.pop();
+      current += token;
+    } else {
+      current += token;
+    }
+  }
+
+  lines.push(current);
+  return lines;
+};
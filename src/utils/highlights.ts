@@ -0,0 +1,28 @@
+import type { HighlightColor } from './storage/schema';
+
+// Where each highlight of the open guide was found; null for stale anchors whose text is gone,
+// no entry for those in sections of a long guide that are not rendered
+export type HighlightAnchors = Map<string, Range | null>;
+
+// Ask the highlight layer to scroll to a highlight; a new object repeats a request for the same one
+export interface HighlightFocusRequest {
+  id: string;
+}
+
+// Swatch classes for the color pickers; the page itself is painted by ::highlight rules in index.css
+export const highlightSwatches: Record<HighlightColor, string> = {
+  yellow: 'bg-yellow-300',
+  green: 'bg-green-300',
+  blue: 'bg-sky-300',
+  pink: 'bg-pink-300',
+  purple: 'bg-violet-300'
+};
+
+// Placed highlights in reading order, stale ones after them
+export const sortByDocumentOrder = <T extends { id: string }>(items: T[], anchors: HighlightAnchors): T[] =>
+  [...items].sort((a, b) => {
+    const rangeA = anchors.get(a.id);
+    const rangeB = anchors.get(b.id);
+    if (!rangeA || !rangeB) return (rangeA ? 0 : 1) - (rangeB ? 0 : 1);
+    return rangeA.compareBoundaryPoints(Range.START_TO_START, rangeB);
+  });
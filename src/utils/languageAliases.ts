@@ -0,0 +1,36 @@
+// Fence names used in the readmes that map onto a highlight.js language
+const languageAliases: Record<string, string> = {
+  py: 'python',
+  python3: 'python',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  node: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  html: 'xml',
+  svg: 'xml',
+  'c++': 'cpp',
+  c: 'cpp',
+  cs: 'csharp',
+  'c#': 'csharp',
+  yml: 'yaml',
+  md: 'markdown',
+  proto: 'protobuf',
+  docker: 'dockerfile',
+  rb: 'ruby',
+  gql: 'graphql',
+  text: 'plaintext',
+  txt: 'plaintext',
+  plain: 'plaintext'
+};
+
+// Canonical language name for a fence info string or `lang:` filter, e.g. `py` -> `python`
+export const resolveLanguageAlias = (lang: string): string => {
+  const name = lang.trim().toLowerCase();
+  return languageAliases[name] ?? name;
+};
@@ -0,0 +1,197 @@
+// Inline nodes
+export interface TextNode {
+  type: 'text';
+  value: string;
+}
+
+export interface StrongNode {
+  type: 'strong';
+  children: InlineNode[];
+}
+
+export interface EmphasisNode {
+  type: 'emphasis';
+  children: InlineNode[];
+}
+
+export interface DeleteNode {
+  type: 'delete';
+  children: InlineNode[];
+}
+
+export interface InlineCodeNode {
+  type: 'inlineCode';
+  value: string;
+}
+
+export interface InlineMathNode {
+  type: 'inlineMath';
+  value: string;
+  display: boolean;
+}
+
+export interface LinkNode {
+  type: 'link';
+  url: string;
+  title?: string;
+  children: InlineNode[];
+}
+
+export interface ImageNode {
+  type: 'image';
+  url: string;
+  alt: string;
+  title?: string;
+}
+
+export interface BreakNode {
+  type: 'break';
+}
+
+export interface HtmlInlineNode {
+  type: 'htmlInline';
+  value: string;
+}
+
+export type InlineNode =
+  | TextNode
+  | StrongNode
+  | EmphasisNode
+  | DeleteNode
+  | InlineCodeNode
+  | InlineMathNode
+  | LinkNode
+  | ImageNode
+  | BreakNode
+  | HtmlInlineNode;
+
+// Block nodes
+export interface HeadingNode {
+  type: 'heading';
+  level: number;
+  // Zero-based line in the source document
+  line: number;
+  customId?: string;
+  children: InlineNode[];
+}
+
+export interface ParagraphNode {
+  type: 'paragraph';
+  children: InlineNode[];
+}
+
+export interface CodeBlockNode {
+  type: 'code';
+  lang: string;
+  meta: string;
+  value: string;
+}
+
+export interface MathBlockNode {
+  type: 'math';
+  value: string;
+}
+
+export interface BlockquoteNode {
+  type: 'blockquote';
+  children: BlockNode[];
+}
+
+export interface ListItemNode {
+  type: 'listItem';
+  // Zero-based line of the item's marker in the source document
+  line: number;
+  // GFM task-list items: `- [ ]` or `- [x]`
+  checked?: boolean;
+  children: BlockNode[];
+}
+
+export interface ListNode {
+  type: 'list';
+  ordered: boolean;
+  start: number;
+  loose: boolean;
+  children: ListItemNode[];
+}
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface TableCellNode {
+  type: 'tableCell';
+  children: InlineNode[];
+}
+
+export interface TableNode {
+  type: 'table';
+  align: TableAlign[];
+  head: TableCellNode[];
+  rows: TableCellNode[][];
+}
+
+export interface ThematicBreakNode {
+  type: 'thematicBreak';
+}
+
+export interface HtmlBlockNode {
+  type: 'html';
+  value: string;
+}
+
+// GitHub-style collapsible section: an HTML block opening `<details>`, the Markdown after it, and
+// the HTML block closing it
+export interface DetailsNode {
+  type: 'details';
+  open: boolean;
+  // Raw HTML inside <summary>
+  summary: string;
+  children: BlockNode[];
+}
+
+export type BlockNode =
+  | HeadingNode
+  | ParagraphNode
+  | CodeBlockNode
+  | MathBlockNode
+  | BlockquoteNode
+  | ListNode
+  | TableNode
+  | ThematicBreakNode
+  | HtmlBlockNode
+  | DetailsNode;
+
+export interface MarkdownRoot {
+  type: 'root';
+  children: BlockNode[];
+}
+
+export interface LinkReference {
+  url: string;
+  title?: string;
+}
+
+export type ReferenceMap = Map<string, LinkReference>;
+
+// Reference labels match case-insensitively with collapsed whitespace
+export const normalizeLabel = (label: string): string =>
+  label.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Flatten inline nodes back to their visible text
+export const inlineToText = (nodes: InlineNode[]): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'inlineCode':
+        case 'inlineMath':
+          return node.value;
+        case 'image':
+          return node.alt;
+        case 'break':
+          return '\n';
+        case 'htmlInline':
+          return '';
+        default:
+          return inlineToText(node.children);
+      }
+    })
+    .join('');
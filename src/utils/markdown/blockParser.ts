@@ -0,0 +1,457 @@
+import {
+  normalizeLabel,
+  type BlockNode,
+  type HtmlBlockNode,
+  type InlineNode,
+  type ListItemNode,
+  type ReferenceMap,
+  type TableAlign,
+  type TableCellNode
+} from './ast';
+
+// Shared state while parsing one document: link references are collected during the
+// block pass and inline content is parsed once every reference is known
+export interface BlockParserContext {
+  refs: ReferenceMap;
+  inlineJobs: { raw: string; target: { children: InlineNode[] } }[];
+}
+
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?=[ \t]|$)(.*)$/;
+const MATH_OPEN = /^ {0,3}\$\$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])([ \t]+|$)(.*)$/;
+// `[ ]` or `[x]` opening a list item, followed by whitespace as in GFM
+const TASK_MARKER = /^\[([ xX])\](?:[ \t]+|$)/;
+const HTML_BLOCK = /^ {0,3}(?:<!--|<\/?(?:address|article|aside|blockquote|body|center|dd|details|dialog|div|dl|dt|figcaption|figure|footer|form|h[1-6]|header|hr|iframe|li|main|nav|ol|p|picture|pre|section|summary|table|tbody|td|tfoot|th|thead|tr|ul|video)(?=[\s/>]|$))/i;
+const DETAILS_OPEN = /^\s*<details(\s[^>]*)?>\s*(?:<summary(?:\s[^>]*)?>([\s\S]*?)<\/summary>)?/i;
+const DETAILS_CLOSE = /<\/details>\s*$/i;
+const TABLE_DELIMITER_ROW = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const LINK_REFERENCE = /^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?[ \t]*$/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+// Strip up to `count` columns of leading whitespace
+const outdent = (line: string, count: number) => {
+  let i = 0;
+  while (i < count && line[i] === ' ') i++;
+  return line.slice(i);
+};
+
+const expandTabs = (line: string) =>
+  line.replace(/^[ \t]+/, whitespace => whitespace.replace(/\t/g, '    '));
+
+// Lines that end a paragraph without a blank line in between
+const interruptsParagraph = (lines: string[], i: number) => {
+  const line = lines[i];
+  if (indentOf(line) >= 4) return false;
+  if (ATX_HEADING.test(line) || FENCE_OPEN.test(line) || THEMATIC_BREAK.test(line)) return true;
+  if (MATH_OPEN.test(line)) return parseMathBlock(lines, i) !== null;
+  if (BLOCKQUOTE.test(line) || HTML_BLOCK.test(line)) return true;
+  const item = LIST_ITEM.exec(line);
+  return !!item && item[4].trim() !== '' && (!/\d/.test(item[2]) || parseInt(item[2], 10) === 1);
+};
+
+// Split a table row on unescaped pipes, dropping the optional outer pipes
+const splitTableRow = (line: string) => {
+  const cells: string[] = [];
+  let cell = '';
+  const trimmed = line.trim().replace(/^\|/, '');
+  for (let i = 0; i < trimmed.length; i++) {
+    const ch = trimmed[i];
+    if (ch === '\\' && trimmed[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (ch === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell.trim() || !trimmed.endsWith('|')) cells.push(cell.trim());
+  return cells;
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  i + 1 < lines.length &&
+  lines[i].includes('|') &&
+  indentOf(lines[i]) < 4 &&
+  TABLE_DELIMITER_ROW.test(lines[i + 1]) &&
+  lines[i + 1].includes('|') &&
+  splitTableRow(lines[i]).length === splitTableRow(lines[i + 1]).length;
+
+const parseTable = (lines: string[], start: number, context: BlockParserContext) => {
+  const align: TableAlign[] = splitTableRow(lines[start + 1]).map(spec => {
+    const left = spec.startsWith(':');
+    const right = spec.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+  });
+
+  const toCells = (line: string) => {
+    const raw = splitTableRow(line);
+    return align.map((_, index) => {
+      const cell: TableCellNode = { type: 'tableCell', children: [] };
+      context.inlineJobs.push({ raw: raw[index] ?? '', target: cell });
+      return cell;
+    });
+  };
+
+  const head = toCells(lines[start]);
+  const rows: TableCellNode[][] = [];
+  let i = start + 2;
+  while (i < lines.length && !isBlank(lines[i]) && !interruptsParagraph(lines, i)) {
+    rows.push(toCells(lines[i]));
+    i++;
+  }
+
+  return { node: { type: 'table' as const, align, head, rows }, next: i };
+};
+
+const parseFence = (lines: string[], start: number) => {
+  const open = FENCE_OPEN.exec(lines[start])!;
+  const fenceIndent = open[1].length;
+  const fence = open[2];
+  const info = open[3].trim();
+  if (fence[0] === '`' && info.includes('`')) return null;
+
+  const body: string[] = [];
+  let i = start + 1;
+  for (; i < lines.length; i++) {
+    const close = /^ {0,3}(`{3,}|~{3,})[ \t]*$/.exec(lines[i]);
+    if (close && close[1][0] === fence[0] && close[1].length >= fence.length) {
+      i++;
+      break;
+    }
+    body.push(outdent(lines[i], fenceIndent));
+  }
+
+  const [lang = '', ...meta] = info.split(/\s+/);
+  return {
+    node: { type: 'code' as const, lang, meta: meta.join(' '), value: body.join('\n') },
+    next: i
+  };
+};
+
+// `$$ ... $$` display math, either on one line or spanning until a line ending in `$$`. Without
+// a closing `$$` before the end of the container there is no math block, and the line is text.
+const parseMathBlock = (lines: string[], start: number) => {
+  const opening = lines[start].trim().slice(2);
+  if (opening.length >= 2 && opening.endsWith('$$')) {
+    return { node: { type: 'math' as const, value: opening.slice(0, -2).trim() }, next: start + 1 };
+  }
+
+  const body = opening.trim() ? [opening] : [];
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    if (line.endsWith('$$')) {
+      const rest = line.slice(0, -2);
+      if (rest.trim()) body.push(rest);
+      return { node: { type: 'math' as const, value: body.join('\n').trim() }, next: i + 1 };
+    }
+    body.push(lines[i]);
+  }
+  return null;
+};
+
+const parseList = (lines: string[], start: number, context: BlockParserContext, lineOffset: number) => {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const ordered = /\d/.test(first[2]);
+  const marker = ordered ? first[2].slice(-1) : first[2];
+  const items: ListItemNode[] = [];
+  let loose = false;
+  let i = start;
+
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i]);
+    if (!match) break;
+    const itemMarker = /\d/.test(match[2]) ? match[2].slice(-1) : match[2];
+    if (/\d/.test(match[2]) !== ordered || itemMarker !== marker) break;
+    if (THEMATIC_BREAK.test(lines[i])) break;
+
+    const itemStart = i;
+    const spacing = match[3].length;
+    const contentOffset = match[1].length + match[2].length + (match[4] === '' || spacing > 4 ? 1 : spacing);
+    const itemLines = [spacing > 4 ? ' '.repeat(spacing - 1) + match[4] : match[4]];
+    let sawBlank = false;
+    let endedWithBlank = false;
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        let next = i + 1;
+        while (next < lines.length && isBlank(lines[next])) next++;
+        if (next < lines.length && indentOf(lines[next]) >= contentOffset && itemLines.some(l => !isBlank(l))) {
+          for (; i < next; i++) itemLines.push('');
+          sawBlank = true;
+          continue;
+        }
+        endedWithBlank = true;
+        i = next;
+        break;
+      }
+      if (indentOf(line) >= contentOffset) {
+        itemLines.push(outdent(line, contentOffset));
+        i++;
+        continue;
+      }
+      const previous = itemLines[itemLines.length - 1];
+      if (!isBlank(previous) && !interruptsParagraph(lines, i) && !LIST_ITEM.test(line)) {
+        // Lazy paragraph continuation
+        itemLines.push(line.trimStart());
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    const task = TASK_MARKER.exec(itemLines[0]);
+    if (task) itemLines[0] = itemLines[0].slice(task[0].length);
+
+    const children = parseBlockLines(itemLines, context, lineOffset + itemStart);
+    if (sawBlank && children.length > 1) loose = true;
+    items.push({
+      type: 'listItem',
+      line: lineOffset + itemStart,
+      ...(task ? { checked: task[1] !== ' ' } : {}),
+      children
+    });
+
+    if (endedWithBlank) {
+      const next = i < lines.length ? LIST_ITEM.exec(lines[i]) : null;
+      const sameList =
+        next &&
+        /\d/.test(next[2]) === ordered &&
+        (ordered ? next[2].slice(-1) : next[2]) === marker &&
+        !THEMATIC_BREAK.test(lines[i]);
+      if (!sameList) break;
+      loose = true;
+    }
+  }
+
+  return {
+    node: {
+      type: 'list' as const,
+      ordered,
+      start: ordered ? parseInt(first[2], 10) : 1,
+      loose,
+      children: items
+    },
+    next: i
+  };
+};
+
+const opensDetails = (node: BlockNode) =>
+  node.type === 'html' && DETAILS_OPEN.test(node.value) && !/<\/details>/i.test(node.value);
+const closesDetails = (node: BlockNode) =>
+  node.type === 'html' && DETAILS_CLOSE.test(node.value) && !/<details[\s>]/i.test(node.value);
+
+// The guides wrap Markdown in `<details>` the GitHub way, with the opening and closing tags in
+// HTML blocks of their own. Blocks between a matching pair become a details node; an opening tag
+// without its closing one stays an HTML block.
+const groupDetails = (blocks: BlockNode[]): BlockNode[] => {
+  const grouped: BlockNode[] = [];
+  let i = 0;
+  while (i < blocks.length) {
+    const node = blocks[i];
+    let close = -1;
+    if (opensDetails(node)) {
+      for (let j = i + 1, depth = 1; j < blocks.length; j++) {
+        if (opensDetails(blocks[j])) depth++;
+        else if (closesDetails(blocks[j]) && --depth === 0) {
+          close = j;
+          break;
+        }
+      }
+    }
+    if (node.type !== 'html' || close === -1) {
+      grouped.push(node);
+      i++;
+      continue;
+    }
+
+    const open = DETAILS_OPEN.exec(node.value)!;
+    const closing = blocks[close] as HtmlBlockNode;
+    // Text after the summary or before the closing tag, e.g. `<p>` wrappers or plain prose
+    const before = node.value.slice(open[0].length).trim();
+    const after = closing.value.replace(DETAILS_CLOSE, '').trim();
+    grouped.push({
+      type: 'details',
+      open: /(?:^|\s)open(?:[\s=]|$)/i.test(open[1] ?? ''),
+      summary: open[2]?.trim() ?? '',
+      children: [
+        ...(before ? [{ type: 'html' as const, value: before }] : []),
+        ...groupDetails(blocks.slice(i + 1, close)),
+        ...(after ? [{ type: 'html' as const, value: after }] : [])
+      ]
+    });
+    i = close + 1;
+  }
+  return grouped;
+};
+
+// Parse a run of lines into block nodes; container blocks recurse on their stripped lines.
+// Containers keep one stripped line per source line, so `lineOffset + i` is the source line
+export const parseBlockLines = (rawLines: string[], context: BlockParserContext, lineOffset = 0): BlockNode[] => {
+  const lines = rawLines.map(expandTabs);
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Indented code block
+    if (indentOf(line) >= 4) {
+      const body: string[] = [];
+      while (i < lines.length && (isBlank(lines[i]) || indentOf(lines[i]) >= 4)) {
+        body.push(outdent(lines[i], 4));
+        i++;
+      }
+      while (body.length && isBlank(body[body.length - 1])) body.pop();
+      blocks.push({ type: 'code', lang: '', meta: '', value: body.join('\n') });
+      continue;
+    }
+
+    if (FENCE_OPEN.test(line)) {
+      const fence = parseFence(lines, i);
+      if (fence) {
+        blocks.push(fence.node);
+        i = fence.next;
+        continue;
+      }
+    }
+
+    const math = MATH_OPEN.test(line) ? parseMathBlock(lines, i) : null;
+    if (math) {
+      blocks.push(math.node);
+      i = math.next;
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line);
+    if (heading) {
+      let text = heading[2].trim().replace(/(?:^|[ \t]+)#+$/, '').trim();
+      const idMatch = text.match(/\s*\{#([^}]+)\}$/);
+      if (idMatch) text = text.slice(0, idMatch.index).trim();
+      const node = {
+        type: 'heading' as const,
+        level: heading[1].length,
+        line: lineOffset + i,
+        customId: idMatch?.[1],
+        children: [] as InlineNode[]
+      };
+      context.inlineJobs.push({ raw: text, target: node });
+      blocks.push(node);
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      blocks.push({ type: 'thematicBreak' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoteStart = i;
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        if (BLOCKQUOTE.test(lines[i])) {
+          quoted.push(lines[i].replace(BLOCKQUOTE, ''));
+        } else if (!interruptsParagraph(lines, i) && !isBlank(quoted[quoted.length - 1] ?? '')) {
+          // Lazy continuation of a quoted paragraph
+          quoted.push(lines[i]);
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlockLines(quoted, context, lineOffset + quoteStart) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = parseList(lines, i, context, lineOffset);
+      blocks.push(list.node);
+      i = list.next;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const table = parseTable(lines, i, context);
+      blocks.push(table.node);
+      i = table.next;
+      continue;
+    }
+
+    if (HTML_BLOCK.test(line)) {
+      const body: string[] = [];
+      const isComment = line.trimStart().startsWith('<!--');
+      while (i < lines.length && (isComment || !isBlank(lines[i]))) {
+        body.push(lines[i]);
+        i++;
+        if (isComment && body[body.length - 1].includes('-->')) break;
+      }
+      blocks.push({ type: 'html', value: body.join('\n') });
+      continue;
+    }
+
+    // Paragraph, possibly turned into a setext heading or link reference definitions
+    let paragraphStart = i;
+    const paragraph: string[] = [];
+    let setextLevel = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      if (paragraph.length > 0) {
+        const underline = SETEXT_UNDERLINE.exec(lines[i]);
+        if (underline) {
+          setextLevel = underline[1][0] === '=' ? 1 : 2;
+          i++;
+          break;
+        }
+        if (interruptsParagraph(lines, i) || isTableStart(lines, i)) break;
+      }
+      paragraph.push(lines[i].trimStart());
+      i++;
+    }
+
+    while (paragraph.length > 0) {
+      const reference = LINK_REFERENCE.exec(paragraph[0]);
+      if (!reference) break;
+      const label = normalizeLabel(reference[1]);
+      if (!context.refs.has(label)) {
+        context.refs.set(label, { url: reference[2], title: reference[3] ?? reference[4] ?? reference[5] });
+      }
+      paragraph.shift();
+      paragraphStart++;
+    }
+    if (paragraph.length === 0) continue;
+
+    const raw = paragraph.join('\n').trimEnd();
+    if (setextLevel) {
+      const heading = {
+        type: 'heading' as const,
+        level: setextLevel,
+        line: lineOffset + paragraphStart,
+        children: [] as InlineNode[]
+      };
+      context.inlineJobs.push({ raw, target: heading });
+      blocks.push(heading);
+    } else {
+      const node = { type: 'paragraph' as const, children: [] as InlineNode[] };
+      context.inlineJobs.push({ raw, target: node });
+      blocks.push(node);
+    }
+  }
+
+  return groupDetails(blocks);
+};
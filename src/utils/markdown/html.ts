@@ -0,0 +1,81 @@
+// Raw HTML in the guides (GitHub-style `<details>`, `<p align="center">`, `<b>`…) read into a
+// small element tree. Lenient like browsers: stray closing tags are ignored and open ones are
+// closed at the end of the fragment.
+
+export interface HtmlElement {
+  type: 'element';
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export interface HtmlText {
+  type: 'text';
+  value: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+const TOKEN = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|[^<]+|</g;
+const ATTRIBUTE = /([^\s=>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+const VOID_TAGS = new Set(['area', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'wbr']);
+// Their content is not text for the reader
+const HIDDEN_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'title']);
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return ENTITIES[name.toLowerCase()] ?? entity;
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+
+const parseAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+export const parseHtml = (source: string): HtmlNode[] => {
+  const root: HtmlElement = { type: 'element', tag: '', attributes: {}, children: [] };
+  const stack = [root];
+
+  for (const match of source.matchAll(TOKEN)) {
+    const [token, closing, name, attributes, selfClosing] = match;
+    const parent = stack[stack.length - 1];
+    if (token.startsWith('<!--')) continue;
+    if (!name) {
+      parent.children.push({ type: 'text', value: decodeEntities(token) });
+      continue;
+    }
+
+    const tag = name.toLowerCase();
+    if (closing) {
+      const open = stack.map(element => element.tag).lastIndexOf(tag);
+      if (open > 0) stack.length = open;
+      continue;
+    }
+    const element: HtmlElement = { type: 'element', tag, attributes: parseAttributes(attributes), children: [] };
+    parent.children.push(element);
+    if (!selfClosing && !VOID_TAGS.has(tag)) stack.push(element);
+  }
+
+  return root.children;
+};
+
+const nodesToText = (nodes: HtmlNode[]): string =>
+  nodes
+    .map(node => {
+      if (node.type === 'text') return node.value;
+      if (HIDDEN_TAGS.has(node.tag)) return '';
+      return node.tag === 'br' ? '\n' : nodesToText(node.children);
+    })
+    .join('');
+
+// Visible text of an HTML fragment, whitespace collapsed
+export const htmlToText = (source: string): string => nodesToText(parseHtml(source)).replace(/[ \t\n]+/g, ' ').trim();
+
+export const isHiddenHtmlTag = (tag: string) => HIDDEN_TAGS.has(tag);
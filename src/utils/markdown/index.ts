@@ -0,0 +1,18 @@
+import { parseBlockLines, type BlockParserContext } from './blockParser';
+import { parseInline } from './inlineParser';
+import type { MarkdownRoot } from './ast';
+
+export * from './ast';
+export * from './html';
+
+// Parse a Markdown document (CommonMark + GFM extensions) into a typed AST
+export const parseMarkdown = (source: string): MarkdownRoot => {
+  const context: BlockParserContext = { refs: new Map(), inlineJobs: [] };
+  const children = parseBlockLines(source.replace(/\r\n?/g, '\n').split('\n'), context);
+
+  for (const job of context.inlineJobs) {
+    job.target.children = parseInline(job.raw, context.refs);
+  }
+
+  return { type: 'root', children };
+};
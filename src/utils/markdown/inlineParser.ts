@@ -0,0 +1,431 @@
+import { normalizeLabel, inlineToText, type InlineNode, type ReferenceMap } from './ast';
+
+interface DelimiterRun {
+  type: 'delimiter';
+  char: '*' | '_' | '~';
+  length: number;
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+type InlineItem = InlineNode | DelimiterRun;
+
+interface ParsedLink {
+  text: string;
+  url: string;
+  title?: string;
+  end: number;
+}
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const AUTOLINK = /<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/y;
+const EMAIL_AUTOLINK = /<([^\s@<>\\]+@[a-zA-Z0-9-]+(?:\.[a-zA-Z0-9-]+)+)>/y;
+const HTML_TAG = /<\/?([a-zA-Z][a-zA-Z0-9-]*)(?:\s+[a-zA-Z_:][\w.:-]*(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*\s*\/?>|<!--[\s\S]*?-->/y;
+const BARE_URL = /(?:https?:\/\/|www\.)[^\s<]+/y;
+const PLAIN_RUN = /[^\\`*_~![<$\nhw]+/y;
+
+const isWhitespace = (ch: string | undefined) => ch === undefined || /\s/.test(ch);
+const isPunctuation = (ch: string | undefined) => ch !== undefined && /[\p{P}\p{S}]/u.test(ch);
+
+const isDelimiter = (item: InlineItem): item is DelimiterRun => item.type === 'delimiter';
+
+const countRun = (source: string, start: number, ch: string) => {
+  let end = start;
+  while (source[end] === ch) end++;
+  return end - start;
+};
+
+// Find the `$` (or `$$`) closing a math span. A single `$` span ends at the next unescaped
+// `$`, which must not follow whitespace or precede a digit, so "$5 and $10" stays text
+const findMathEnd = (source: string, from: number, delimiter: string) => {
+  let i = source.indexOf(delimiter, from);
+  while (i !== -1 && source[i - 1] === '\\') {
+    i = source.indexOf(delimiter, i + 1);
+  }
+  if (i === -1 || delimiter === '$$') return i;
+  // Code spans take precedence over math
+  if (source.slice(from, i).includes('`')) return -1;
+  return /\s/.test(source[i - 1]) || /\d/.test(source[i + 1] ?? '') ? -1 : i;
+};
+
+const unescape = (text: string) => text.replace(/\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g, '$1');
+
+// Find the backtick run that closes a code span opened by `length` backticks
+const findCodeSpanEnd = (source: string, from: number, length: number) => {
+  let i = from;
+  while (i < source.length) {
+    if (source[i] === '`') {
+      const run = countRun(source, i, '`');
+      if (run === length) return i;
+      i += run;
+    } else {
+      i++;
+    }
+  }
+  return -1;
+};
+
+// Find the `]` matching the `[` at `start`, skipping escapes and code spans
+const findLabelEnd = (source: string, start: number) => {
+  let depth = 0;
+  let i = start;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '\\') {
+      i += 2;
+      continue;
+    }
+    if (ch === '`') {
+      const run = countRun(source, i, '`');
+      const close = findCodeSpanEnd(source, i + run, run);
+      i = close === -1 ? i + run : close + run;
+      continue;
+    }
+    if (ch === '[') depth++;
+    if (ch === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+    i++;
+  }
+  return -1;
+};
+
+// Parse `(destination "title")` starting at the opening parenthesis
+const parseInlineDestination = (source: string, start: number) => {
+  let i = start + 1;
+  while (source[i] === ' ' || source[i] === '\n') i++;
+
+  let url = '';
+  if (source[i] === '<') {
+    const close = source.indexOf('>', i);
+    if (close === -1) return null;
+    url = source.slice(i + 1, close);
+    i = close + 1;
+  } else {
+    let depth = 0;
+    const urlStart = i;
+    while (i < source.length) {
+      const ch = source[i];
+      if (ch === '\\') {
+        i += 2;
+        continue;
+      }
+      if (/\s/.test(ch)) break;
+      if (ch === '(') depth++;
+      if (ch === ')') {
+        if (depth === 0) break;
+        depth--;
+      }
+      i++;
+    }
+    url = source.slice(urlStart, i);
+  }
+
+  while (source[i] === ' ' || source[i] === '\n') i++;
+
+  let title: string | undefined;
+  const quote = source[i];
+  if (quote === '"' || quote === "'" || quote === '(') {
+    const closeChar = quote === '(' ? ')' : quote;
+    let j = i + 1;
+    while (j < source.length && source[j] !== closeChar) {
+      j += source[j] === '\\' ? 2 : 1;
+    }
+    if (j >= source.length) return null;
+    title = unescape(source.slice(i + 1, j));
+    i = j + 1;
+    while (source[i] === ' ' || source[i] === '\n') i++;
+  }
+
+  if (source[i] !== ')') return null;
+  return { url: unescape(url), title, end: i + 1 };
+};
+
+// Parse an inline, full, collapsed or shortcut link starting at `[`
+const parseLinkAt = (source: string, start: number, refs: ReferenceMap): ParsedLink | null => {
+  const labelEnd = findLabelEnd(source, start);
+  if (labelEnd === -1) return null;
+  const text = source.slice(start + 1, labelEnd);
+
+  if (source[labelEnd + 1] === '(') {
+    const destination = parseInlineDestination(source, labelEnd + 1);
+    if (destination) return { text, ...destination };
+  }
+
+  if (source[labelEnd + 1] === '[') {
+    const refEnd = source.indexOf(']', labelEnd + 2);
+    if (refEnd !== -1) {
+      const label = source.slice(labelEnd + 2, refEnd) || text;
+      const ref = refs.get(normalizeLabel(label));
+      if (ref) return { text, url: ref.url, title: ref.title, end: refEnd + 1 };
+    }
+  }
+
+  const ref = text.trim() ? refs.get(normalizeLabel(text)) : undefined;
+  if (ref) return { text, url: ref.url, title: ref.title, end: labelEnd + 1 };
+  return null;
+};
+
+// Trim trailing punctuation and unbalanced parentheses from a bare URL (GFM)
+const trimBareUrl = (url: string) => {
+  let result = url;
+  for (;;) {
+    if (/[?!.,:*_~'"]$/.test(result)) {
+      result = result.slice(0, -1);
+    } else if (result.endsWith(')') && (result.match(/\)/g)?.length ?? 0) > (result.match(/\(/g)?.length ?? 0)) {
+      result = result.slice(0, -1);
+    } else {
+      return result;
+    }
+  }
+};
+
+const toInlineNodes = (items: InlineItem[]): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  for (const item of items) {
+    const node: InlineNode = isDelimiter(item)
+      ? { type: 'text', value: item.char.repeat(item.length) }
+      : item;
+    const last = nodes[nodes.length - 1];
+    if (node.type === 'text' && last?.type === 'text') {
+      nodes[nodes.length - 1] = { type: 'text', value: last.value + node.value };
+    } else {
+      nodes.push(node);
+    }
+  }
+  return nodes;
+};
+
+// CommonMark "process emphasis": pair delimiter runs into strong/emphasis/delete nodes
+const processEmphasis = (items: InlineItem[]) => {
+  let closerIndex = 0;
+
+  while (closerIndex < items.length) {
+    const closer = items[closerIndex];
+    if (!isDelimiter(closer) || !closer.canClose) {
+      closerIndex++;
+      continue;
+    }
+
+    let openerIndex = -1;
+    for (let k = closerIndex - 1; k >= 0; k--) {
+      const candidate = items[k];
+      if (!isDelimiter(candidate) || candidate.char !== closer.char || !candidate.canOpen) continue;
+      if (closer.char === '~') {
+        if (candidate.length !== closer.length) continue;
+      } else if (
+        (candidate.canClose || closer.canOpen) &&
+        (candidate.length + closer.length) % 3 === 0 &&
+        !(candidate.length % 3 === 0 && closer.length % 3 === 0)
+      ) {
+        continue;
+      }
+      openerIndex = k;
+      break;
+    }
+
+    if (openerIndex === -1) {
+      closerIndex++;
+      continue;
+    }
+
+    const opener = items[openerIndex] as DelimiterRun;
+    const used = closer.char === '~' ? closer.length : opener.length >= 2 && closer.length >= 2 ? 2 : 1;
+    const children = toInlineNodes(items.slice(openerIndex + 1, closerIndex));
+    const node: InlineNode =
+      closer.char === '~'
+        ? { type: 'delete', children }
+        : used === 2
+          ? { type: 'strong', children }
+          : { type: 'emphasis', children };
+
+    opener.length -= used;
+    closer.length -= used;
+
+    const replacement: InlineItem[] = [];
+    if (opener.length > 0) replacement.push(opener);
+    replacement.push(node);
+    if (closer.length > 0) replacement.push(closer);
+    items.splice(openerIndex, closerIndex - openerIndex + 1, ...replacement);
+
+    closerIndex = openerIndex + replacement.length - (closer.length > 0 ? 1 : 0);
+  }
+};
+
+// Parse the inline content of a paragraph, heading or table cell
+export const parseInline = (source: string, refs: ReferenceMap): InlineNode[] => {
+  const items: InlineItem[] = [];
+  let text = '';
+
+  const flush = () => {
+    if (text) {
+      items.push({ type: 'text', value: text });
+      text = '';
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === '\\') {
+      const next = source[i + 1];
+      if (next === '\n') {
+        flush();
+        items.push({ type: 'break' });
+        i += 2;
+      } else if (next !== undefined && ESCAPABLE.test(next)) {
+        text += next;
+        i += 2;
+      } else {
+        text += ch;
+        i++;
+      }
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = countRun(source, i, '`');
+      const close = findCodeSpanEnd(source, i + run, run);
+      if (close === -1) {
+        text += source.slice(i, i + run);
+        i += run;
+        continue;
+      }
+      let value = source.slice(i + run, close).replace(/\n/g, ' ');
+      if (value.length > 2 && value.startsWith(' ') && value.endsWith(' ') && value.trim()) {
+        value = value.slice(1, -1);
+      }
+      flush();
+      items.push({ type: 'inlineCode', value });
+      i = close + run;
+      continue;
+    }
+
+    if (ch === '$') {
+      const delimiter = source[i + 1] === '$' ? '$$' : '$';
+      const contentStart = i + delimiter.length;
+      const close = /\s/.test(source[contentStart] ?? ' ') && delimiter === '$'
+        ? -1
+        : findMathEnd(source, contentStart + 1, delimiter);
+      if (close !== -1) {
+        flush();
+        items.push({ type: 'inlineMath', value: source.slice(contentStart, close).trim(), display: delimiter === '$$' });
+        i = close + delimiter.length;
+        continue;
+      }
+      text += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    if (ch === '*' || ch === '_' || ch === '~') {
+      const run = countRun(source, i, ch);
+      if (ch === '~' && run > 2) {
+        text += source.slice(i, i + run);
+        i += run;
+        continue;
+      }
+      const before = source[i - 1];
+      const after = source[i + run];
+      const leftFlanking = !isWhitespace(after) && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+      const rightFlanking = !isWhitespace(before) && (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+      const canOpen = ch === '_' ? leftFlanking && (!rightFlanking || isPunctuation(before)) : leftFlanking;
+      const canClose = ch === '_' ? rightFlanking && (!leftFlanking || isPunctuation(after)) : rightFlanking;
+      flush();
+      items.push({ type: 'delimiter', char: ch, length: run, canOpen, canClose });
+      i += run;
+      continue;
+    }
+
+    if (ch === '!' && source[i + 1] === '[') {
+      const link = parseLinkAt(source, i + 1, refs);
+      if (link) {
+        flush();
+        items.push({ type: 'image', url: link.url, alt: inlineToText(parseInline(link.text, refs)), title: link.title });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const link = parseLinkAt(source, i, refs);
+      if (link) {
+        flush();
+        items.push({ type: 'link', url: link.url, title: link.title, children: parseInline(link.text, refs) });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '<') {
+      AUTOLINK.lastIndex = i;
+      EMAIL_AUTOLINK.lastIndex = i;
+      HTML_TAG.lastIndex = i;
+      const autolink = AUTOLINK.exec(source);
+      const email = autolink ? null : EMAIL_AUTOLINK.exec(source);
+      const tag = autolink || email ? null : HTML_TAG.exec(source);
+
+      if (autolink || email) {
+        const target = (autolink ?? email)![1];
+        flush();
+        items.push({
+          type: 'link',
+          url: email ? `mailto:${target}` : target,
+          children: [{ type: 'text', value: target }]
+        });
+        i += (autolink ?? email)![0].length;
+        continue;
+      }
+      if (tag) {
+        flush();
+        items.push(tag[1]?.toLowerCase() === 'br' ? { type: 'break' } : { type: 'htmlInline', value: tag[0] });
+        i += tag[0].length;
+        continue;
+      }
+    }
+
+    if ((ch === 'h' || ch === 'w') && (i === 0 || /[\s*_~(]/.test(source[i - 1]))) {
+      BARE_URL.lastIndex = i;
+      const match = BARE_URL.exec(source);
+      if (match) {
+        const raw = trimBareUrl(match[0]);
+        if (raw.length > 4 && (raw.startsWith('www.') ? raw.length > 4 : /^https?:\/\/./.test(raw))) {
+          flush();
+          items.push({
+            type: 'link',
+            url: raw.startsWith('www.') ? `http://${raw}` : raw,
+            children: [{ type: 'text', value: raw }]
+          });
+          i += raw.length;
+          continue;
+        }
+      }
+    }
+
+    if (ch === '\n') {
+      let trailing = 0;
+      while (text[text.length - 1 - trailing] === ' ') trailing++;
+      text = text.slice(0, text.length - trailing);
+      if (trailing >= 2) {
+        flush();
+        items.push({ type: 'break' });
+      } else {
+        text += '\n';
+      }
+      i++;
+      while (source[i] === ' ') i++;
+      continue;
+    }
+
+    PLAIN_RUN.lastIndex = i;
+    const plain = PLAIN_RUN.exec(source);
+    text += plain ? plain[0] : ch;
+    i += plain ? plain[0].length : 1;
+  }
+
+  flush();
+  processEmphasis(items);
+  return toInlineNodes(items);
+};
@@ -0,0 +1,65 @@
+import type { NoteRevision, StoredNote } from './storage/schema';
+
+// Oldest revisions are dropped beyond this, to keep storage bounded
+export const MAX_NOTE_REVISIONS = 50;
+
+// Number of notes per section of one guide; notes on the whole guide count under ''
+export const countNotesBySection = (notes: StoredNote[], contentId: string): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (const note of notes) {
+    if (note.contentId === contentId) counts[note.sectionId] = (counts[note.sectionId] ?? 0) + 1;
+  }
+  return counts;
+};
+
+// Keep section titles in step with renamed headings; returns the same array when nothing changed
+export const refreshNoteSectionTitles = (
+  notes: StoredNote[],
+  contentId: string,
+  sections: { id: string; title: string }[]
+): StoredNote[] => {
+  const titles = new Map(sections.map(section => [section.id, section.title]));
+  let changed = false;
+  const refreshed = notes.map(note => {
+    const sectionTitle = note.contentId === contentId ? titles.get(note.sectionId) : undefined;
+    if (sectionTitle === undefined || sectionTitle === note.sectionTitle) return note;
+    changed = true;
+    return { ...note, sectionTitle };
+  });
+  return changed ? refreshed : notes;
+};
+
+// Tags are compared case-insensitively and cannot contain spaces or commas
+export const normalizeTag = (tag: string): string =>
+  tag.trim().toLowerCase().replace(/^#+/, '').replace(/[\s,]+/g, '-');
+
+// Tags in first-seen order without empties or duplicates
+export const normalizeTags = (tags: string[]): string[] => [...new Set(tags.map(normalizeTag).filter(Boolean))];
+
+// How many notes use each tag, most used first
+export const countTags = (notes: StoredNote[]): [string, number][] => {
+  const counts = new Map<string, number>();
+  for (const note of notes) {
+    for (const tag of note.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts].sort(([tagA, countA], [tagB, countB]) => countB - countA || tagA.localeCompare(tagB));
+};
+
+type NoteChanges = Pick<StoredNote, 'title' | 'content' | 'tags'>;
+
+// Apply an edit, keeping the previous version as a revision when the text or tags changed
+export const reviseNote = (note: StoredNote, changes: NoteChanges, savedAt: string): StoredNote => {
+  const unchanged =
+    note.title === changes.title &&
+    note.content === changes.content &&
+    note.tags.join('\n') === changes.tags.join('\n');
+  if (unchanged) return { ...note, ...changes };
+
+  const previous: NoteRevision = { title: note.title, content: note.content, tags: note.tags, savedAt: note.updatedAt };
+  return {
+    ...note,
+    ...changes,
+    updatedAt: savedAt,
+    revisions: [previous, ...note.revisions].slice(0, MAX_NOTE_REVISIONS)
+  };
+};
@@ -0,0 +1,92 @@
+import { useSyncExternalStore } from 'react';
+
+// The page's side of the service worker (src/workers/serviceWorker.ts), which keeps the app and
+// its guides in versioned caches. Production builds only; the dev server never registers it.
+
+// Messages from the page to the service worker
+export type ServiceWorkerRequest = { type: 'offline-guides' } | { type: 'skip-waiting' };
+
+// Messages from the service worker to its pages
+export type ServiceWorkerMessage = { type: 'offline-guides'; filenames: string[] };
+
+export interface OfflineStatus {
+  online: boolean;
+  // A newer build is installed and waits for the open tabs to reload
+  updateReady: boolean;
+  // File names of the guides in the cache; null without a service worker
+  offlineGuides: ReadonlySet<string> | null;
+}
+
+let status: OfflineStatus = {
+  online: typeof navigator === 'undefined' || navigator.onLine,
+  updateReady: false,
+  offlineGuides: null
+};
+const listeners = new Set<() => void>();
+let registration: ServiceWorkerRegistration | null = null;
+// Set once the reader asked for the update, so the new worker taking over reloads the page
+let reloadOnUpdate = false;
+
+const setStatus = (changes: Partial<OfflineStatus>) => {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+const send = (worker: ServiceWorker | null | undefined, request: ServiceWorkerRequest) => worker?.postMessage(request);
+
+const requestOfflineGuides = () => send(navigator.serviceWorker.controller, { type: 'offline-guides' });
+
+// A worker that finished installing while another one controls the page is an update
+const watchInstall = (worker: ServiceWorker | null) => {
+  worker?.addEventListener('statechange', () => {
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) setStatus({ updateReady: true });
+  });
+};
+
+export const registerServiceWorker = () => {
+  window.addEventListener('online', () => setStatus({ online: true }));
+  window.addEventListener('offline', () => setStatus({ online: false }));
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  navigator.serviceWorker.addEventListener('message', (event: MessageEvent<ServiceWorkerMessage>) => {
+    if (event.data?.type === 'offline-guides') setStatus({ offlineGuides: new Set(event.data.filenames) });
+  });
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloadOnUpdate) window.location.reload();
+    else requestOfflineGuides();
+  });
+
+  navigator.serviceWorker
+    .register(`${import.meta.env.BASE_URL}sw.js`, { scope: import.meta.env.BASE_URL })
+    .then(registered => {
+      registration = registered;
+      if (registered.waiting && navigator.serviceWorker.controller) setStatus({ updateReady: true });
+      watchInstall(registered.installing);
+      registered.addEventListener('updatefound', () => watchInstall(registered.installing));
+      requestOfflineGuides();
+
+      // Tabs stay open for days; look for a new build whenever the reader comes back to one
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') registered.update().catch(() => undefined);
+      });
+    })
+    .catch(error => console.error('Failed to register the service worker:', error));
+};
+
+// Let the waiting build take over; the page reloads once it has
+export const applyUpdate = () => {
+  if (!registration?.waiting) return;
+  reloadOnUpdate = true;
+  send(registration.waiting, { type: 'skip-waiting' });
+};
+
+export const useOfflineStatus = (): OfflineStatus =>
+  useSyncExternalStore(
+    listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    () => status
+  );
@@ -0,0 +1,228 @@
+import { inlineToText, type BlockNode, type InlineNode, type LinkNode, type MarkdownRoot } from './markdown';
+import { collectHeadings, slugify } from './headingIds';
+import { getContentItemById, loadMarkdownContent } from './documentLoader';
+import { PROBLEM_STATUSES, type ProblemAttempt, type ProblemRecord, type ProblemStatus } from './storage/schema';
+
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+export interface ProblemLink {
+  label: string;
+  url: string;
+}
+
+// A practice problem listed in a guide
+export interface Problem {
+  // Guide, topic and title, so records survive problems being added or reordered
+  id: string;
+  contentId: string;
+  sectionId: string;
+  // Title of the heading the problem is listed under
+  topic: string;
+  title: string;
+  links: ProblemLink[];
+  difficulty: Difficulty | null;
+}
+
+export type StatusCounts = Record<ProblemStatus, number>;
+
+// Practice sites whose links are problems to solve rather than reading
+const PROBLEM_SITES: { label: string; pattern: RegExp }[] = [
+  // Discussion threads live under a problem's URL too
+  { label: 'LeetCode', pattern: /\/\/(?:www\.)?leetcode\.com\/problems\/[^/]+(?:\/(?!discuss)|$)/ },
+  { label: 'GFG', pattern: /\/\/(?:practice\.|www\.)?geeksforgeeks\.org\/problems\// },
+  { label: 'InterviewBit', pattern: /\/\/(?:www\.)?interviewbit\.com\/problems\// },
+  { label: 'HackerRank', pattern: /\/\/(?:www\.)?hackerrank\.com\/challenges\// }
+];
+
+const DIFFICULTY = /\b(easy|medium|hard)\b/i;
+// Items that set coding exercises, e.g. "Implement:" followed by the functions to write
+const EXERCISE_LEAD = /^(?:I'll )?implement\b/i;
+const MAX_ID_TEXT = 80;
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const collectLinks = (nodes: InlineNode[], links: LinkNode[] = []): LinkNode[] => {
+  for (const node of nodes) {
+    if (node.type === 'link') links.push(node);
+    else if ('children' in node) collectLinks(node.children, links);
+  }
+  return links;
+};
+
+const difficultyOf = (text: string): Difficulty | null =>
+  (text.match(DIFFICULTY)?.[1].toLowerCase() as Difficulty | undefined) ?? null;
+
+type Entry = { title: string; links: ProblemLink[]; difficulty: Difficulty | null };
+
+// Rows of a table with a problem column, linked from its link column when there is one
+const tableEntries = (head: string[], rows: InlineNode[][][]): Entry[] => {
+  const titleColumn = head.findIndex(text => /problem|question|title|name/i.test(text) && !/link|url/i.test(text));
+  if (titleColumn < 0) return [];
+  const linkColumn = head.findIndex(text => /link|url/i.test(text));
+  const difficultyColumn = head.findIndex(text => /difficulty|level/i.test(text));
+
+  return rows.flatMap(cells => {
+    const title = collapse(inlineToText(cells[titleColumn] ?? []));
+    if (!title) return [];
+    const links = collectLinks([...(cells[titleColumn] ?? []), ...(linkColumn >= 0 ? cells[linkColumn] ?? [] : [])]);
+    return [{
+      title,
+      links: links.map(link => ({ label: collapse(inlineToText(link.children)) || link.url, url: link.url })),
+      difficulty: difficultyColumn >= 0 ? difficultyOf(inlineToText(cells[difficultyColumn] ?? [])) : null
+    }];
+  });
+};
+
+// List items linking to a practice site, wherever they are nested
+const listEntry = (children: InlineNode[]): Entry | null => {
+  const links = collectLinks(children).flatMap(link => {
+    const site = PROBLEM_SITES.find(({ pattern }) => pattern.test(link.url));
+    return site ? [{ label: site.label, url: link.url }] : [];
+  });
+  if (links.length === 0) return null;
+  // Kept as written, so finding the title in the guide matches its text
+  const text = inlineToText(children).trim();
+  return { title: text, links, difficulty: difficultyOf(text.match(/\((easy|medium|hard)\)/i)?.[0] ?? '') };
+};
+
+// Exercises under an "Implement" item are problems even without a practice link
+const exerciseEntry = (children: InlineNode[]): Entry | null => {
+  const text = inlineToText(children).trim();
+  return text ? { title: text, links: [], difficulty: null } : null;
+};
+
+export const extractProblems = (contentId: string, root: MarkdownRoot): Problem[] => {
+  const headings = new Map(collectHeadings(root).map(heading => [heading.node, heading]));
+  const occurrences = new Map<string, number>();
+  const problems: Problem[] = [];
+  let sectionId = '';
+  let topic = '';
+
+  const add = ({ title, links, difficulty }: Entry) => {
+    const base = `${contentId}/${slugify(topic) || 'guide'}/${slugify(title).slice(0, MAX_ID_TEXT) || 'problem'}`;
+    const count = occurrences.get(base) ?? 0;
+    occurrences.set(base, count + 1);
+    problems.push({ id: count === 0 ? base : `${base}-${count}`, contentId, sectionId, topic, title, links, difficulty });
+  };
+
+  const walk = (blocks: BlockNode[], exercises = false) => {
+    for (const block of blocks) {
+      if (block.type === 'heading') {
+        const heading = headings.get(block);
+        if (heading) {
+          sectionId = heading.id;
+          topic = heading.title;
+        }
+      } else if (block.type === 'table') {
+        tableEntries(
+          block.head.map(cell => inlineToText(cell.children)),
+          block.rows.map(row => row.map(cell => cell.children))
+        ).forEach(add);
+      } else if (block.type === 'blockquote' || block.type === 'details') {
+        walk(block.children);
+      } else if (block.type === 'list') {
+        // In task lists, plain items are notes on the exercises
+        const tasks = block.children.some(item => item.checked !== undefined);
+        for (const item of block.children) {
+          const first = item.children[0];
+          const text = first?.type === 'paragraph' ? first.children : null;
+          const exercise = exercises && (!tasks || item.checked !== undefined);
+          const entry = text && (listEntry(text) ?? (exercise ? exerciseEntry(text) : null));
+          if (entry) add(entry);
+          walk(item.children, text !== null && EXERCISE_LEAD.test(inlineToText(text).trim()));
+        }
+      }
+    }
+  };
+
+  walk(root.children);
+  return problems;
+};
+
+const problemCache = new Map<string, Promise<Problem[]>>();
+
+// Problems of a guide, parsed once per session; guides not marked as problem sets have none
+export const loadProblems = (contentId: string): Promise<Problem[]> => {
+  if (!getContentItemById(contentId)?.problems) return Promise.resolve([]);
+  let problems = problemCache.get(contentId);
+  if (!problems) {
+    problems = loadMarkdownContent(contentId).then(document =>
+      document ? extractProblems(contentId, document.root) : []
+    );
+    // A failed load is retried next time
+    problems.catch(() => problemCache.delete(contentId));
+    problemCache.set(contentId, problems);
+  }
+  return problems;
+};
+
+export const problemStatus = (records: Record<string, ProblemRecord>, problemId: string): ProblemStatus =>
+  records[problemId]?.status ?? 'todo';
+
+const emptyCounts = (): StatusCounts =>
+  Object.fromEntries(PROBLEM_STATUSES.map(status => [status, 0])) as StatusCounts;
+
+export const countStatuses = (problems: Problem[], records: Record<string, ProblemRecord>): StatusCounts => {
+  const counts = emptyCounts();
+  for (const problem of problems) counts[problemStatus(records, problem.id)]++;
+  return counts;
+};
+
+// Status counts per topic, topics in the order the guides list them
+export const countByTopic = (problems: Problem[], records: Record<string, ProblemRecord>): Map<string, StatusCounts> => {
+  const topics = new Map<string, StatusCounts>();
+  for (const problem of problems) {
+    const counts = topics.get(problem.topic) ?? emptyCounts();
+    counts[problemStatus(records, problem.id)]++;
+    topics.set(problem.topic, counts);
+  }
+  return topics;
+};
+
+// Any problem not solved yet, optionally of one topic
+export const pickUnsolvedProblem = (
+  problems: Problem[],
+  records: Record<string, ProblemRecord>,
+  topic: string | null
+): Problem | null => {
+  const candidates = problems.filter(
+    problem => (topic === null || problem.topic === topic) && problemStatus(records, problem.id) !== 'solved'
+  );
+  return candidates.length > 0 ? candidates[Math.floor(Math.random() * candidates.length)] : null;
+};
+
+const recordFor = (record: ProblemRecord | undefined, problem: Problem): ProblemRecord =>
+  record ?? { contentId: problem.contentId, title: problem.title, status: 'todo', attempts: [], notes: '', updatedAt: '' };
+
+export const updateProblem = (
+  record: ProblemRecord | undefined,
+  problem: Problem,
+  changes: Partial<Pick<ProblemRecord, 'status' | 'notes'>>,
+  now: Date
+): ProblemRecord => ({ ...recordFor(record, problem), ...changes, title: problem.title, updatedAt: now.toISOString() });
+
+// A solved attempt marks the problem solved; a failed one marks it attempted unless it is up for revisiting
+export const logAttempt = (
+  record: ProblemRecord | undefined,
+  problem: Problem,
+  attempt: Omit<ProblemAttempt, 'id'>,
+  now: Date
+): ProblemRecord => {
+  const current = recordFor(record, problem);
+  return {
+    ...current,
+    title: problem.title,
+    status: attempt.solved ? 'solved' : current.status === 'revisit' ? 'revisit' : 'attempted',
+    attempts: [...current.attempts, { ...attempt, id: now.getTime().toString() }].sort((a, b) =>
+      a.date.localeCompare(b.date)
+    ),
+    updatedAt: now.toISOString()
+  };
+};
+
+export const removeAttempt = (record: ProblemRecord, attemptId: string, now: Date): ProblemRecord => ({
+  ...record,
+  attempts: record.attempts.filter(attempt => attempt.id !== attemptId),
+  updatedAt: now.toISOString()
+});
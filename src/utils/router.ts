@@ -0,0 +1,83 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { scrollToHeading } from './headingScroll';
+
+// Routes: /docs/:contentId#:sectionId, with / redirecting to the last-read or default guide
+export type Route =
+  | { type: 'root'; sectionId: string }
+  | { type: 'document'; contentId: string; sectionId: string }
+  | { type: 'notFound'; path: string };
+
+export const DEFAULT_CONTENT_ID = 'full-stack-guide';
+
+// Fired after pushState/replaceState, which the browser does not announce
+const NAVIGATE_EVENT = 'app:navigate';
+
+// Vite's base path without the trailing slash, so deployments under a subpath keep working
+const BASE_PATH = import.meta.env.BASE_URL.replace(/\/$/, '');
+
+const decode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+export const documentPath = (contentId: string, sectionId = ''): string =>
+  `${BASE_PATH}/docs/${encodeURIComponent(contentId)}${sectionId ? `#${encodeURIComponent(sectionId)}` : ''}`;
+
+export const parseRoute = (pathname: string, hash: string): Route => {
+  const path = pathname.startsWith(BASE_PATH) ? pathname.slice(BASE_PATH.length) : pathname;
+  const sectionId = decode(hash.replace(/^#/, ''));
+
+  if (path === '' || path === '/') {
+    return { type: 'root', sectionId };
+  }
+
+  const match = /^\/docs\/([^/]+)\/?$/.exec(path);
+  if (match) {
+    return { type: 'document', contentId: decode(match[1]), sectionId };
+  }
+
+  return { type: 'notFound', path };
+};
+
+export const navigate = (path: string, { replace = false }: { replace?: boolean } = {}) => {
+  if (replace) window.history.replaceState(null, '', path);
+  else window.history.pushState(null, '', path);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+};
+
+// Link to a section of the open document; following the same link again just scrolls back to it
+export const navigateToSection = (sectionId: string) => {
+  const hash = `#${encodeURIComponent(sectionId)}`;
+  if (window.location.hash === hash) {
+    scrollToHeading(sectionId);
+    return;
+  }
+  navigate(`${window.location.pathname}${hash}`);
+};
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener('hashchange', onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener('hashchange', onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+};
+
+const getLocationKey = () => `${window.location.pathname}${window.location.hash}`;
+
+// Current route, updated on link navigation and browser back/forward
+export const useRoute = (): Route => {
+  const locationKey = useSyncExternalStore(subscribe, getLocationKey);
+  return useMemo(() => {
+    const hashIndex = locationKey.indexOf('#');
+    return hashIndex === -1
+      ? parseRoute(locationKey, '')
+      : parseRoute(locationKey.slice(0, hashIndex), locationKey.slice(hashIndex));
+  }, [locationKey]);
+};
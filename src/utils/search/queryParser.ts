@@ -0,0 +1,201 @@
+import { resolveLanguageAlias } from '../languageAliases';
+
+// Where in a section a clause has to match
+export type SearchScope = 'code' | 'heading' | 'text';
+
+interface ClauseBase {
+  // Leading `-`: the section must not match
+  negated: boolean;
+  // Offsets of the clause in the query string, for error reporting
+  start: number;
+  end: number;
+}
+
+export interface TermClause extends ClauseBase {
+  type: 'term';
+  text: string;
+}
+
+export interface PhraseClause extends ClauseBase {
+  type: 'phrase';
+  text: string;
+}
+
+export interface RegexClause extends ClauseBase {
+  type: 'regex';
+  pattern: RegExp;
+}
+
+export type FilterClause = ClauseBase & { type: 'filter' } & (
+  | { field: 'doc'; value: string }
+  | { field: 'in'; value: SearchScope }
+  | { field: 'lang'; value: string }
+  | { field: 'level'; min: number; max: number }
+);
+
+export type QueryClause = TermClause | PhraseClause | RegexClause | FilterClause;
+
+export interface SearchQuery {
+  clauses: QueryClause[];
+}
+
+export class QueryParseError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+    this.name = 'QueryParseError';
+  }
+}
+
+const scopeNames: Record<string, SearchScope> = {
+  code: 'code',
+  heading: 'heading',
+  headings: 'heading',
+  title: 'heading',
+  text: 'text',
+  prose: 'text'
+};
+
+const filterExamples: Record<string, string> = {
+  doc: 'doc:react-500',
+  lang: 'lang:python',
+  in: 'in:code',
+  level: 'level:3'
+};
+
+// Flags that make sense for matching a single line; `g` is added internally
+const REGEX_FLAGS = /^[imsu]*$/;
+
+// Index of the next unescaped `delimiter` at or after `from`, or -1
+const findClosing = (input: string, delimiter: string, from: number): number => {
+  for (let i = from; i < input.length; i++) {
+    if (input[i] === '\\') i++;
+    else if (input[i] === delimiter) return i;
+  }
+  return -1;
+};
+
+const parseFilter = (
+  field: string,
+  value: string,
+  negated: boolean,
+  start: number,
+  end: number
+): FilterClause | null => {
+  const base = { type: 'filter' as const, negated, start, end };
+  const describe = `"${field}:${value}"`;
+
+  switch (field) {
+    case 'doc':
+    case 'lang':
+    case 'in':
+    case 'level':
+      if (!value) throw new QueryParseError(`"${field}:" needs a value, e.g. ${filterExamples[field]}`, start, end);
+      break;
+    default:
+      // Not a filter: `std::vector` or `http://...` are ordinary search text
+      return null;
+  }
+
+  if (field === 'doc') return { ...base, field, value: value.toLowerCase() };
+  if (field === 'lang') return { ...base, field, value: resolveLanguageAlias(value) };
+
+  if (field === 'in') {
+    const scope = scopeNames[value.toLowerCase()];
+    if (!scope) {
+      throw new QueryParseError(`Unknown scope in ${describe}: use in:code, in:heading or in:text`, start, end);
+    }
+    return { ...base, field, value: scope };
+  }
+
+  const range = /^([1-6])(?:-([1-6]))?$/.exec(value);
+  if (!range) {
+    throw new QueryParseError(`Invalid heading level in ${describe}: use a level from 1 to 6, e.g. level:3 or level:2-3`, start, end);
+  }
+  const min = Number(range[1]);
+  const max = Number(range[2] ?? range[1]);
+  if (max < min) {
+    throw new QueryParseError(`Empty heading level range in ${describe}: write the lower level first`, start, end);
+  }
+  return { ...base, field, min, max };
+};
+
+// Parse the search box syntax:
+//   word  "exact phrase"  -exclude  /regex/i  doc:id  in:code|heading|text  lang:python  level:2-3
+export const parseQuery = (input: string): SearchQuery => {
+  const clauses: QueryClause[] = [];
+  let position = 0;
+
+  while (position < input.length) {
+    if (/\s/.test(input[position])) {
+      position++;
+      continue;
+    }
+
+    const start = position;
+    const negated = input[position] === '-' && position + 1 < input.length && !/\s/.test(input[position + 1]);
+    if (input[position] === '-' && !negated) {
+      throw new QueryParseError('Nothing to exclude after "-": write -word, -"phrase" or -/regex/', start, start + 1);
+    }
+    if (negated) position++;
+
+    if (input[position] === '"') {
+      const close = findClosing(input, '"', position + 1);
+      if (close === -1) {
+        throw new QueryParseError('Unterminated phrase: add a closing "', start, input.length);
+      }
+      const text = input.slice(position + 1, close).replace(/\\(.)/g, '$1').trim();
+      if (!text) throw new QueryParseError('Empty phrase: put some words between the quotes', start, close + 1);
+      position = close + 1;
+      clauses.push({ type: 'phrase', text, negated, start, end: position });
+      continue;
+    }
+
+    if (input[position] === '/') {
+      const close = findClosing(input, '/', position + 1);
+      if (close === -1) {
+        throw new QueryParseError(
+          'Unterminated regular expression: add a closing /, or quote the text to search for a literal "/"',
+          start,
+          input.length
+        );
+      }
+      const source = input.slice(position + 1, close);
+      const flagsMatch = /^[a-z]*/i.exec(input.slice(close + 1)) as RegExpExecArray;
+      const flags = flagsMatch[0];
+      position = close + 1 + flags.length;
+
+      if (!source) throw new QueryParseError('Empty regular expression: write a pattern between the slashes', start, position);
+      if (!REGEX_FLAGS.test(flags)) {
+        throw new QueryParseError(`Unsupported regex flags "${flags}": only i, m, s and u are allowed`, start, position);
+      }
+      if (position < input.length && !/\s/.test(input[position])) {
+        throw new QueryParseError('A regular expression must be followed by a space', start, position + 1);
+      }
+
+      let pattern: RegExp;
+      try {
+        // Case-insensitive unless the query spells out its own flags
+        pattern = new RegExp(source, `${flags || 'i'}g`);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message.replace(/^Invalid regular expression: \/.*\/[a-z]*: /, '') : String(error);
+        throw new QueryParseError(`Invalid regular expression: ${reason}`, start, position);
+      }
+      if (pattern.test('')) {
+        throw new QueryParseError('The regular expression matches empty text, so it would match every line', start, position);
+      }
+      clauses.push({ type: 'regex', pattern, negated, start, end: position });
+      continue;
+    }
+
+    let end = position;
+    while (end < input.length && !/\s/.test(input[end])) end++;
+    const word = input.slice(position, end);
+    position = end;
+
+    const filter = /^([a-z]+):(.*)$/i.exec(word);
+    const clause = filter && parseFilter(filter[1].toLowerCase(), filter[2], negated, start, end);
+    clauses.push(clause ?? { type: 'term', text: word, negated, start, end });
+  }
+
+  return { clauses };
+};
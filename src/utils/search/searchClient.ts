@@ -0,0 +1,90 @@
+import type { SearchHit } from './searchIndex';
+import { QueryParseError } from './queryParser';
+
+export type SearchWorkerRequest = {
+  type: 'search';
+  requestId: number;
+  query: string;
+  limit?: number;
+};
+
+export type SearchWorkerResponse =
+  | { type: 'ready'; documentCount: number; sectionCount: number; elapsed: number }
+  | { type: 'results'; requestId: number; hits: SearchHit[]; elapsed: number }
+  // `start`/`end` locate the offending part of the query for syntax errors
+  | { type: 'error'; requestId: number; message: string; start?: number; end?: number };
+
+type PendingRequest = {
+  resolve: (hits: SearchHit[]) => void;
+  reject: (error: Error) => void;
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+let ready = false;
+const pending = new Map<number, PendingRequest>();
+const readyListeners = new Set<{ resolve: () => void; reject: (error: Error) => void }>();
+
+// The worker failed to load or to build the index: fail everything waiting on it, and start a
+// new worker on the next call
+const handleWorkerError = () => {
+  const error = new Error('The search index could not be built.');
+  pending.forEach(request => request.reject(error));
+  pending.clear();
+  readyListeners.forEach(listener => listener.reject(error));
+  readyListeners.clear();
+  worker?.terminate();
+  worker = null;
+  ready = false;
+};
+
+// The index is built once per session inside a worker so typing never blocks the UI
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../../workers/searchWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'ready') {
+      ready = true;
+      readyListeners.forEach(listener => listener.resolve());
+      readyListeners.clear();
+      return;
+    }
+
+    const request = pending.get(message.requestId);
+    if (!request) return;
+    pending.delete(message.requestId);
+    if (message.type === 'results') {
+      request.resolve(message.hits);
+    } else if (message.start !== undefined && message.end !== undefined) {
+      request.reject(new QueryParseError(message.message, message.start, message.end));
+    } else {
+      request.reject(new Error(message.message));
+    }
+  };
+  worker.onerror = handleWorkerError;
+  worker.onmessageerror = handleWorkerError;
+
+  return worker;
+};
+
+export const isSearchIndexReady = () => ready;
+
+// Starts indexing in the background; resolves once the index can answer queries, rejects when
+// it could not be built
+export const whenSearchIndexReady = (): Promise<void> => {
+  getWorker();
+  if (ready) return Promise.resolve();
+  return new Promise((resolve, reject) => readyListeners.add({ resolve, reject }));
+};
+
+export const searchAllDocuments = (query: string, limit?: number): Promise<SearchHit[]> => {
+  const requestId = nextRequestId++;
+  const request: SearchWorkerRequest = { type: 'search', requestId, query, limit };
+
+  return new Promise((resolve, reject) => {
+    pending.set(requestId, { resolve, reject });
+    getWorker().postMessage(request);
+  });
+};
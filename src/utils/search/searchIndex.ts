@@ -0,0 +1,636 @@
+import type { DocumentSection } from '../compileGuide';
+import { resolveLanguageAlias } from '../languageAliases';
+import { analyze, isStopWord, tokenize } from './tokenizer';
+import { parseQuery, QueryParseError, type QueryClause, type SearchScope } from './queryParser';
+
+// One section of a guide's share of the index
+export interface FragmentSection {
+  // Empty for text before the first heading
+  sectionId: string;
+  sectionTitle: string;
+  line: number;
+  level: number;
+  lines: string[];
+  // [offset in `lines`, canonical fence language]
+  codeLanguages: [number, string][];
+  // [term, weighted frequency]
+  terms: [string, number][];
+}
+
+// A guide's share of the index. The build works these out for every guide (see
+// plugins/guideCompiler.ts), so the worker only has to put them together.
+export interface SearchFragment {
+  sections: FragmentSection[];
+}
+
+export interface SearchableDocument {
+  id: string;
+  title: string;
+  fragment: SearchFragment;
+}
+
+export interface IndexedSection {
+  docId: string;
+  docTitle: string;
+  // Empty for text before the first heading
+  sectionId: string;
+  sectionTitle: string;
+  // Zero-based source line of the section heading
+  line: number;
+  // Heading level, 0 for the introduction
+  level: number;
+  lines: string[];
+  // Canonical fence language by offset in `lines`, for lines inside fenced code ('' when unlabeled)
+  codeLanguages: Map<number, string>;
+  length: number;
+}
+
+// [section index, term frequency]
+type Posting = [number, number];
+
+export interface SearchIndex {
+  sections: IndexedSection[];
+  postings: Map<string, Posting[]>;
+  averageLength: number;
+}
+
+export interface SearchHit {
+  docId: string;
+  docTitle: string;
+  sectionId: string;
+  sectionTitle: string;
+  score: number;
+  // Plain-text excerpt around the best matching line
+  snippet: string;
+  // [start, end) ranges in `snippet` to highlight
+  highlights: [number, number][];
+  // Zero-based source line of the snippet
+  line: number;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Heading words count as if they appeared this many times in the section body
+const TITLE_BOOST = 3;
+// Weight of a term reached through a typo correction, per edit
+const FUZZY_PENALTY = 0.4;
+const SNIPPET_RADIUS = 60;
+// Separate snippet fragments used to show terms that never share a line
+const MAX_SNIPPET_FRAGMENTS = 3;
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+
+// Reduce a Markdown source line to readable text for snippets
+export const toPlainLine = (line: string): string =>
+  line
+    .replace(/^\s*(?:#{1,6}\s+|>\s*|[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+)/, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|`|~~)/g, '')
+    .replace(/\s*\|\s*/g, ' | ')
+    .trim();
+
+// Map each line inside a fenced code block, fences included, to the block's language
+const findCodeLanguages = (lines: string[]): Map<number, string> => {
+  const languages = new Map<number, string>();
+  let fence: { marker: string; language: string } | null = null;
+
+  lines.forEach((line, index) => {
+    const match = FENCE.exec(line);
+    if (!fence) {
+      if (!match) return;
+      fence = { marker: match[1], language: resolveLanguageAlias(match[2]) };
+      languages.set(index, fence.language);
+      return;
+    }
+    languages.set(index, fence.language);
+    if (match && match[1][0] === fence.marker[0] && match[1].length >= fence.marker.length && !match[2]) {
+      fence = null;
+    }
+  });
+
+  return languages;
+};
+
+export const indexGuide = (content: string, headings: DocumentSection[]): SearchFragment => {
+  const lines = content.split('\n');
+  const boundaries = [{ id: '', title: '', line: 0, level: 0 }, ...headings];
+  const codeLanguages = findCodeLanguages(lines);
+  const sections: FragmentSection[] = [];
+
+  boundaries.forEach((heading, index) => {
+    const start = index === 0 ? 0 : heading.line + 1;
+    const end = boundaries[index + 1]?.line ?? lines.length;
+    if (index === 0 && end === 0) return;
+
+    const sectionCodeLanguages: [number, string][] = [];
+    for (let line = start; line < end; line++) {
+      const language = codeLanguages.get(line);
+      if (language !== undefined) sectionCodeLanguages.push([line - start, language]);
+    }
+    const frequencies = new Map<string, number>();
+    const addTerms = (terms: string[], weight: number) =>
+      terms.forEach(term => frequencies.set(term, (frequencies.get(term) ?? 0) + weight));
+
+    const bodyLines = lines.slice(start, end);
+    addTerms(analyze(bodyLines.join('\n')), 1);
+    if (index > 0) addTerms(analyze(heading.title), TITLE_BOOST);
+
+    sections.push({
+      sectionId: heading.id,
+      sectionTitle: index === 0 ? 'Introduction' : heading.title,
+      line: heading.line,
+      level: heading.level,
+      lines: bodyLines,
+      codeLanguages: sectionCodeLanguages,
+      terms: [...frequencies]
+    });
+  });
+
+  return { sections };
+};
+
+export const buildSearchIndex = (documents: SearchableDocument[]): SearchIndex => {
+  const sections: IndexedSection[] = [];
+  const postings = new Map<string, Posting[]>();
+  let totalLength = 0;
+
+  for (const document of documents) {
+    for (const section of document.fragment.sections) {
+      const sectionIndex = sections.length;
+      let length = 0;
+      section.terms.forEach(([term, frequency]) => {
+        length += frequency;
+        const list = postings.get(term);
+        if (list) list.push([sectionIndex, frequency]);
+        else postings.set(term, [[sectionIndex, frequency]]);
+      });
+
+      totalLength += length;
+      sections.push({
+        docId: document.id,
+        docTitle: document.title,
+        sectionId: section.sectionId,
+        sectionTitle: section.sectionTitle,
+        line: section.line,
+        level: section.level,
+        lines: section.lines,
+        codeLanguages: new Map(section.codeLanguages),
+        length
+      });
+    }
+  }
+
+  return {
+    sections,
+    postings,
+    averageLength: sections.length ? totalLength / sections.length : 0
+  };
+};
+
+// Levenshtein distance, giving up early once it exceeds `limit`
+const boundedEditDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const maxTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Expand one query term into indexed terms with weights: exact, prefix (while typing) and typo matches
+export const expandTerm = (index: SearchIndex, term: string, allowPrefix: boolean): Map<string, number> => {
+  const expansions = new Map<string, number>();
+  if (index.postings.has(term)) expansions.set(term, 1);
+
+  const typos = maxTypos(term);
+  for (const candidate of index.postings.keys()) {
+    if (candidate === term) continue;
+    if (allowPrefix && term.length >= 3 && candidate.startsWith(term)) {
+      expansions.set(candidate, 0.8);
+      continue;
+    }
+    if (typos > 0 && expansions.size < 50) {
+      let distance = boundedEditDistance(term, candidate, typos);
+      // A typo can change how the word stems ("idempotncy" -> "idempotnci" vs "idempot"),
+      // so also compare against the query term cut to the candidate's length
+      if (distance > typos && candidate.length >= 5 && term.length > candidate.length && term.length - candidate.length <= 3) {
+        distance = boundedEditDistance(term.slice(0, candidate.length), candidate, typos) + 1;
+      }
+      if (distance <= typos) expansions.set(candidate, Math.pow(FUZZY_PENALTY, distance));
+    }
+  }
+  return expansions;
+};
+
+// Score sections with BM25 over the expanded query terms
+export const scoreSections = (index: SearchIndex, expandedTerms: Map<string, number>[]): Map<number, number> => {
+  const scores = new Map<number, number>();
+  const sectionCount = index.sections.length;
+
+  for (const expansions of expandedTerms) {
+    // Best contribution of this query term per section, so typo variants do not stack
+    const termScores = new Map<number, number>();
+    expansions.forEach((weight, term) => {
+      const list = index.postings.get(term) ?? [];
+      const idf = Math.log(1 + (sectionCount - list.length + 0.5) / (list.length + 0.5));
+      for (const [sectionIndex, frequency] of list) {
+        const length = index.sections[sectionIndex].length;
+        const tf = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * length) / index.averageLength));
+        const score = idf * tf * weight;
+        if (score > (termScores.get(sectionIndex) ?? 0)) termScores.set(sectionIndex, score);
+      }
+    });
+    termScores.forEach((score, sectionIndex) =>
+      scores.set(sectionIndex, (scores.get(sectionIndex) ?? 0) + score)
+    );
+  }
+
+  return scores;
+};
+
+
+// A line of a section that query clauses are matched against
+interface SectionLine {
+  scope: SearchScope;
+  // Canonical fence language for code lines
+  language: string;
+  text: string;
+  // Zero-based source line
+  line: number;
+}
+
+type Range = [number, number];
+
+interface MatchRange {
+  start: number;
+  end: number;
+  clause: number;
+}
+
+interface LineMatch {
+  line: SectionLine;
+  ranges: MatchRange[];
+  // Indexes of the positive clauses that matched this line
+  clauses: Set<number>;
+}
+
+interface CompiledQuery {
+  // Positive words, each expanded to indexed terms; phrase words are included without fuzzy variants
+  terms: { clause: number; expansions: Map<string, number>; required: boolean }[];
+  phrases: { clause: number; terms: string[]; negated: boolean }[];
+  regexes: { clause: number; pattern: RegExp; negated: boolean }[];
+  excludedTerms: string[];
+  // Positive clauses a section must match at least once: phrases and regexes
+  requiredClauses: number[];
+  hasTextClauses: boolean;
+  hasFilters: boolean;
+  acceptsSection: (section: IndexedSection) => boolean;
+  acceptsLine: (line: SectionLine) => boolean;
+  restrictsLines: boolean;
+}
+
+const sectionLines = (section: IndexedSection): SectionLine[] => {
+  const lines: SectionLine[] = [];
+  if (section.sectionId) {
+    lines.push({ scope: 'heading', language: '', text: section.sectionTitle, line: section.line });
+  }
+
+  const bodyStart = section.line + (section.sectionId ? 1 : 0);
+  section.lines.forEach((raw, offset) => {
+    const language = section.codeLanguages.get(offset);
+    if (language !== undefined && FENCE.test(raw)) return;
+    const text = language === undefined ? toPlainLine(raw) : raw.trimEnd();
+    if (!text.trim()) return;
+    lines.push({ scope: language === undefined ? 'text' : 'code', language: language ?? '', text, line: bodyStart + offset });
+  });
+
+  return lines;
+};
+
+const compileQuery = (index: SearchIndex, query: string): CompiledQuery => {
+  const { clauses } = parseQuery(query);
+  const compiled: CompiledQuery = {
+    terms: [],
+    phrases: [],
+    regexes: [],
+    excludedTerms: [],
+    requiredClauses: [],
+    hasTextClauses: false,
+    hasFilters: false,
+    acceptsSection: () => true,
+    acceptsLine: () => true,
+    restrictsLines: false
+  };
+
+  const filters = clauses.filter((clause): clause is Extract<QueryClause, { type: 'filter' }> => clause.type === 'filter');
+  const lastClause = clauses[clauses.length - 1];
+  // The last word is probably still being typed
+  const prefixClause = lastClause?.type === 'term' && !lastClause.negated && /[\p{L}\p{N}]$/u.test(query) ? lastClause : null;
+
+  clauses.forEach((clause, clauseIndex) => {
+    if (clause.type === 'term') {
+      const terms = analyze(clause.text);
+      if (clause.negated) {
+        compiled.excludedTerms.push(...terms);
+        return;
+      }
+      terms.forEach((term, position) => {
+        const allowPrefix = clause === prefixClause && position === terms.length - 1;
+        compiled.terms.push({ clause: clauseIndex, expansions: expandTerm(index, term, allowPrefix), required: false });
+      });
+    } else if (clause.type === 'phrase') {
+      const words = tokenize(clause.text, true);
+      if (words.length === 0) return;
+      compiled.phrases.push({ clause: clauseIndex, terms: words.map(word => word.term), negated: clause.negated });
+      if (clause.negated) return;
+      compiled.requiredClauses.push(clauseIndex);
+      words
+        .filter(word => !isStopWord(clause.text.slice(word.start, word.end)))
+        .forEach(word => compiled.terms.push({ clause: clauseIndex, expansions: new Map([[word.term, 1]]), required: true }));
+    } else if (clause.type === 'regex') {
+      compiled.regexes.push({ clause: clauseIndex, pattern: clause.pattern, negated: clause.negated });
+      if (!clause.negated) compiled.requiredClauses.push(clauseIndex);
+    }
+  });
+  compiled.hasTextClauses = compiled.terms.length > 0 || compiled.requiredClauses.length > 0;
+  compiled.hasFilters = filters.length > 0;
+
+  const docIds = [...new Set(index.sections.map(section => section.docId))];
+  const docFilters = filters.flatMap(filter => (filter.field === 'doc' ? [filter] : []));
+  docFilters.forEach(filter => {
+    if (!docIds.some(id => id.startsWith(filter.value))) {
+      throw new QueryParseError(`No guide id starts with "${filter.value}"`, filter.start, filter.end);
+    }
+  });
+  const levelFilters = filters.flatMap(filter => (filter.field === 'level' ? [filter] : []));
+  const matchesDoc = (docId: string, negated: boolean) =>
+    docFilters.some(filter => filter.negated === negated && docId.startsWith(filter.value));
+  const matchesLevel = (level: number, negated: boolean) =>
+    levelFilters.some(filter => filter.negated === negated && level >= filter.min && level <= filter.max);
+  const hasPositive = (list: { negated: boolean }[]) => list.some(filter => !filter.negated);
+
+  compiled.acceptsSection = section =>
+    (!hasPositive(docFilters) || matchesDoc(section.docId, false)) &&
+    !matchesDoc(section.docId, true) &&
+    (!hasPositive(levelFilters) || matchesLevel(section.level, false)) &&
+    !matchesLevel(section.level, true);
+
+  const scopes = new Set<SearchScope>();
+  const excludedScopes = new Set<SearchScope>();
+  const languages = new Set<string>();
+  const excludedLanguages = new Set<string>();
+  filters.forEach(filter => {
+    if (filter.field === 'in') (filter.negated ? excludedScopes : scopes).add(filter.value);
+    if (filter.field === 'lang') (filter.negated ? excludedLanguages : languages).add(filter.value);
+  });
+  // `lang:` on its own implies searching code
+  if (scopes.size === 0 && languages.size > 0) scopes.add('code');
+
+  compiled.restrictsLines = scopes.size + excludedScopes.size + languages.size + excludedLanguages.size > 0;
+  compiled.acceptsLine = line => {
+    if (scopes.size > 0 && !scopes.has(line.scope)) return false;
+    if (excludedScopes.has(line.scope)) return false;
+    if (line.scope !== 'code') return true;
+    return (languages.size === 0 || languages.has(line.language)) && !excludedLanguages.has(line.language);
+  };
+
+  return compiled;
+};
+
+const findPhrase = (tokens: ReturnType<typeof tokenize>, terms: string[]): Range[] => {
+  const ranges: Range[] = [];
+  for (let i = 0; i + terms.length <= tokens.length; i++) {
+    if (terms.every((term, offset) => tokens[i + offset].term === term)) {
+      ranges.push([tokens[i].start, tokens[i + terms.length - 1].end]);
+    }
+  }
+  return ranges;
+};
+
+// Match one line against every text clause. Returns null when an excluded clause matches
+const matchLine = (line: SectionLine, compiled: CompiledQuery): LineMatch | null => {
+  const match: LineMatch = { line, ranges: [], clauses: new Set() };
+  const needsTokens = compiled.terms.length > 0 || compiled.phrases.length > 0 || compiled.excludedTerms.length > 0;
+  const tokens = needsTokens ? tokenize(line.text, true) : [];
+
+  if (compiled.excludedTerms.some(term => tokens.some(token => token.term === term))) return null;
+
+  for (const { clause, expansions, required } of compiled.terms) {
+    // Phrase words only count where the whole phrase matches
+    if (required) continue;
+    for (const token of tokens) {
+      if (!expansions.has(token.term)) continue;
+      match.ranges.push({ start: token.start, end: token.end, clause });
+      match.clauses.add(clause);
+    }
+  }
+
+  for (const { clause, terms, negated } of compiled.phrases) {
+    const ranges = findPhrase(tokens, terms);
+    if (ranges.length === 0) continue;
+    if (negated) return null;
+    ranges.forEach(([start, end]) => match.ranges.push({ start, end, clause }));
+    match.clauses.add(clause);
+  }
+
+  for (const { clause, pattern, negated } of compiled.regexes) {
+    let found = false;
+    for (const result of line.text.matchAll(pattern)) {
+      if (!result[0]) continue;
+      found = true;
+      if (negated) break;
+      const start = result.index ?? 0;
+      match.ranges.push({ start, end: start + result[0].length, clause });
+    }
+    if (!found) continue;
+    if (negated) return null;
+    match.clauses.add(clause);
+  }
+
+  return match;
+};
+
+// Match every line of a section the query may look at. Returns null when the section is excluded
+const matchSection = (section: IndexedSection, compiled: CompiledQuery): LineMatch[] | null => {
+  const matches: LineMatch[] = [];
+  for (const line of sectionLines(section)) {
+    if (!compiled.acceptsLine(line)) continue;
+    const match = matchLine(line, compiled);
+    if (!match) return null;
+    matches.push(match);
+  }
+  return matches;
+};
+
+// A stretch of one line short enough to show in a snippet, with the clauses matched inside it
+interface SnippetWindow {
+  match: LineMatch;
+  ranges: MatchRange[];
+  clauses: Set<number>;
+}
+
+// Group a line's matches into windows of at most two snippet radii
+const splitWindows = (match: LineMatch): SnippetWindow[] => {
+  const windows: SnippetWindow[] = [];
+  for (const range of [...match.ranges].sort((a, b) => a.start - b.start)) {
+    const current = windows[windows.length - 1];
+    if (current && range.end - current.ranges[0].start <= SNIPPET_RADIUS * 2) {
+      current.ranges.push(range);
+      current.clauses.add(range.clause);
+    } else {
+      windows.push({ match, ranges: [range], clauses: new Set([range.clause]) });
+    }
+  }
+  return windows;
+};
+
+// Merge overlapping ranges, e.g. a phrase that contains a separately matched word
+const mergeRanges = (ranges: MatchRange[]): Range[] => {
+  const merged: Range[] = [];
+  for (const { start, end } of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+};
+
+const excerpt = ({ match, ranges }: SnippetWindow) => {
+  const text = match.line.text;
+  const merged = mergeRanges(ranges);
+  const first = merged[0][0];
+  const last = merged[merged.length - 1][1];
+  const slack = Math.max(0, SNIPPET_RADIUS * 2 - (last - first)) / 2;
+  const start = Math.max(0, Math.floor(first - slack));
+  const end = Math.min(text.length, Math.ceil(last + slack));
+  const prefix = start > 0 ? '...' : '';
+  const suffix = end < text.length ? '...' : '';
+  return {
+    snippet: prefix + text.slice(start, end) + suffix,
+    highlights: merged.map(([rangeStart, rangeEnd]): Range => [
+      rangeStart - start + prefix.length,
+      rangeEnd - start + prefix.length
+    ])
+  };
+};
+
+// Build a snippet that shows every matched clause: start from the window matching the most clauses,
+// then add windows for the clauses it is missing
+export const buildSnippet = (section: IndexedSection, matches: LineMatch[]) => {
+  const candidates = matches.flatMap(splitWindows);
+  const fragments: SnippetWindow[] = [];
+  const covered = new Set<number>();
+
+  while (fragments.length < MAX_SNIPPET_FRAGMENTS) {
+    let best: SnippetWindow | null = null;
+    let bestGain = 0;
+    for (const candidate of candidates) {
+      const gain = [...candidate.clauses].filter(clause => !covered.has(clause)).length;
+      if (gain > bestGain) {
+        best = candidate;
+        bestGain = gain;
+      }
+    }
+    if (!best) break;
+    fragments.push(best);
+    best.clauses.forEach(clause => covered.add(clause));
+  }
+
+  if (fragments.length === 0) {
+    const first = matches[0]?.line ?? sectionLines(section)[0];
+    return { snippet: first?.text ?? '', highlights: [] as Range[], line: first?.line ?? section.line };
+  }
+
+  // Keep fragments in reading order
+  fragments.sort((a, b) => a.match.line.line - b.match.line.line || a.ranges[0].start - b.ranges[0].start);
+  let snippet = '';
+  const highlights: Range[] = [];
+  fragments.forEach((fragment, position) => {
+    if (position > 0) snippet += ' … ';
+    const part = excerpt(fragment);
+    part.highlights.forEach(([start, end]) => highlights.push([start + snippet.length, end + snippet.length]));
+    snippet += part.snippet;
+  });
+
+  return { snippet, highlights, line: fragments[0].match.line.line };
+};
+
+export const searchDocumentsIndex = (index: SearchIndex, query: string, limit = 50): SearchHit[] => {
+  const compiled = compileQuery(index, query);
+  // Exclusions alone would list nearly every section
+  if (!compiled.hasTextClauses && !compiled.hasFilters) return [];
+
+  // Candidate sections and their BM25 scores
+  let candidates: Map<number, number>;
+  if (compiled.terms.length > 0) {
+    candidates = scoreSections(index, compiled.terms.map(term => term.expansions));
+    // Every word of a phrase must occur in the section
+    for (const { expansions, required } of compiled.terms) {
+      if (!required) continue;
+      const [term] = [...expansions.keys()];
+      const containing = new Set((index.postings.get(term) ?? []).map(([sectionIndex]) => sectionIndex));
+      candidates.forEach((_, sectionIndex) => {
+        if (!containing.has(sectionIndex)) candidates.delete(sectionIndex);
+      });
+    }
+  } else {
+    candidates = new Map(index.sections.map((_, sectionIndex) => [sectionIndex, 0]));
+  }
+
+  // Excluded words can be checked against the index when they may appear anywhere in the section
+  if (!compiled.restrictsLines) {
+    for (const term of compiled.excludedTerms) {
+      (index.postings.get(term) ?? []).forEach(([sectionIndex]) => candidates.delete(sectionIndex));
+    }
+  }
+
+  // Line-level checks are only needed for phrases, regexes, exclusions and scopes
+  const needsLineMatching = compiled.phrases.length > 0 || compiled.regexes.length > 0 || compiled.restrictsLines;
+
+  const results: { sectionIndex: number; score: number; matches: LineMatch[] | null }[] = [];
+  candidates.forEach((score, sectionIndex) => {
+    const section = index.sections[sectionIndex];
+    if (!compiled.acceptsSection(section)) return;
+    if (!needsLineMatching) {
+      results.push({ sectionIndex, score, matches: null });
+      return;
+    }
+
+    const matches = matchSection(section, compiled);
+    if (!matches || matches.length === 0) return;
+    const matchedClauses = new Set(matches.flatMap(match => [...match.clauses]));
+    if (!compiled.requiredClauses.every(clause => matchedClauses.has(clause))) return;
+    const words = compiled.terms.filter(term => !term.required);
+    if (words.length > 0 && !words.some(term => matchedClauses.has(term.clause))) return;
+
+    // Regex matches have no index statistics; reward them by how many lines matched
+    const regexLines = matches.filter(match => compiled.regexes.some(regex => match.clauses.has(regex.clause))).length;
+    results.push({ sectionIndex, score: score + Math.log1p(regexLines), matches });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.sectionIndex - b.sectionIndex)
+    .slice(0, limit)
+    .map(({ sectionIndex, score, matches }) => {
+      const section = index.sections[sectionIndex];
+      return {
+        docId: section.docId,
+        docTitle: section.docTitle,
+        sectionId: section.sectionId,
+        sectionTitle: section.sectionTitle,
+        score,
+        ...buildSnippet(section, matches ?? matchSection(section, compiled) ?? [])
+      };
+    });
+};
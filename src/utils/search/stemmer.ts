@@ -0,0 +1,135 @@
+// Porter stemming algorithm (M.F. Porter, 1980), used so "caching", "cached" and "caches" share a term
+
+const isConsonant = (word: string, i: number): boolean => {
+  const ch = word[i];
+  if ('aeiou'.includes(ch)) return false;
+  if (ch === 'y') return i === 0 || !isConsonant(word, i - 1);
+  return true;
+};
+
+// m(): the number of vowel-consonant sequences in the stem
+const measure = (stem: string): number => {
+  let count = 0;
+  let i = 0;
+  const length = stem.length;
+  while (i < length && isConsonant(stem, i)) i++;
+  while (i < length) {
+    while (i < length && !isConsonant(stem, i)) i++;
+    if (i >= length) break;
+    while (i < length && isConsonant(stem, i)) i++;
+    count++;
+  }
+  return count;
+};
+
+const hasVowel = (stem: string): boolean => {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+};
+
+const endsWithDoubleConsonant = (word: string): boolean => {
+  const length = word.length;
+  return length >= 2 && word[length - 1] === word[length - 2] && isConsonant(word, length - 1);
+};
+
+// *o: stem ends consonant-vowel-consonant, where the last consonant is not w, x or y
+const endsCvc = (word: string): boolean => {
+  const length = word.length;
+  if (length < 3) return false;
+  return (
+    isConsonant(word, length - 3) &&
+    !isConsonant(word, length - 2) &&
+    isConsonant(word, length - 1) &&
+    !'wxy'.includes(word[length - 1])
+  );
+};
+
+const replaceSuffix = (
+  word: string,
+  rules: [string, string][],
+  condition: (stem: string) => boolean
+): string => {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return condition(stem) ? stem + replacement : word;
+    }
+  }
+  return word;
+};
+
+const step2Rules: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+  ['logi', 'log']
+];
+
+const step3Rules: [string, string][] = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+
+const step4Suffixes = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent',
+  'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize'
+];
+
+export const stem = (input: string): string => {
+  if (input.length <= 2 || !/^[a-z]+$/.test(input)) return input;
+  let word = input;
+
+  // Step 1a: plurals
+  if (word.endsWith('sses')) word = word.slice(0, -2);
+  else if (word.endsWith('ies')) word = word.slice(0, -2);
+  else if (!word.endsWith('ss') && word.endsWith('s')) word = word.slice(0, -1);
+
+  // Step 1b: -eed, -ed, -ing
+  if (word.endsWith('eed')) {
+    if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+  } else {
+    const suffix = word.endsWith('ed') ? 'ed' : word.endsWith('ing') ? 'ing' : '';
+    if (suffix && hasVowel(word.slice(0, -suffix.length))) {
+      word = word.slice(0, -suffix.length);
+      if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+        word += 'e';
+      } else if (endsWithDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1])) {
+        word = word.slice(0, -1);
+      } else if (measure(word) === 1 && endsCvc(word)) {
+        word += 'e';
+      }
+    }
+  }
+
+  // Step 1c: y -> i
+  if (word.endsWith('y') && hasVowel(word.slice(0, -1))) {
+    word = word.slice(0, -1) + 'i';
+  }
+
+  word = replaceSuffix(word, step2Rules, stemPart => measure(stemPart) > 0);
+  word = replaceSuffix(word, step3Rules, stemPart => measure(stemPart) > 0);
+
+  // Step 4: drop suffixes when m > 1
+  for (const suffix of step4Suffixes) {
+    if (word.endsWith(suffix)) {
+      const stemPart = word.slice(0, -suffix.length);
+      const allowed = suffix === 'ion' ? /[st]$/.test(stemPart) : true;
+      if (allowed && measure(stemPart) > 1) word = stemPart;
+      break;
+    }
+  }
+
+  // Step 5: tidy up final -e and -ll
+  if (word.endsWith('e')) {
+    const stemPart = word.slice(0, -1);
+    const m = measure(stemPart);
+    if (m > 1 || (m === 1 && !endsCvc(stemPart))) word = stemPart;
+  }
+  if (measure(word) > 1 && endsWithDoubleConsonant(word) && word.endsWith('l')) {
+    word = word.slice(0, -1);
+  }
+
+  return word;
+};
@@ -0,0 +1,38 @@
+import { stem } from './stemmer';
+
+export interface Token {
+  // Normalized (lowercased, stemmed) term
+  term: string;
+  // Offsets of the original word in the source text
+  start: number;
+  end: number;
+}
+
+const WORD = /[\p{L}\p{N}]+(?:[_'’][\p{L}\p{N}]+)*/gu;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'is', 'it',
+  'of', 'on', 'or', 'such', 'that', 'the', 'their', 'then', 'there', 'these', 'they', 'this',
+  'to', 'was', 'will', 'with', 'we', 'you', 'your', 'can', 'do', 'does', 'how', 'what', 'which'
+]);
+
+export const normalizeWord = (word: string): string =>
+  stem(word.toLowerCase().replace(/[’']/g, ''));
+
+export const isStopWord = (word: string): boolean => STOP_WORDS.has(word.toLowerCase());
+
+// Split text into normalized tokens, keeping source offsets for highlighting
+export const tokenize = (text: string, keepStopWords = false): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(WORD)) {
+    const word = match[0];
+    if (!keepStopWords && isStopWord(word)) continue;
+    tokens.push({ term: normalizeWord(word), start: match.index ?? 0, end: (match.index ?? 0) + word.length });
+  }
+  return tokens;
+};
+
+export const analyze = (text: string): string[] => tokenize(text).map(token => token.term);
+
+// Words of the text, stop words included
+export const countWords = (text: string): number => text.match(WORD)?.length ?? 0;
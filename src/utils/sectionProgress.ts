@@ -0,0 +1,138 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import { getUserState, setUserState } from './storage/userStore';
+import type { DocumentProgress, SectionProgress, SectionStatus } from './storage/schema';
+import type { Document, DocumentSection } from './compileGuide';
+
+// Check the viewport this often while the reader is on a guide
+const DWELL_TICK_MS = 1000;
+// Time without scrolling, typing or moving the mouse after which the reader is taken to be away
+const IDLE_AFTER_MS = 60_000;
+// Reading speed the dwell time is measured against; skimming at twice this still counts
+const WORDS_PER_MINUTE = 250;
+const MIN_DWELL_MS = 5_000;
+const MAX_DWELL_MS = 120_000;
+
+const EMPTY_PROGRESS: DocumentProgress = { sectionCount: 0, sections: {} };
+
+export const documentProgress = (
+  progress: Record<string, DocumentProgress>,
+  contentId: string
+): DocumentProgress => progress[contentId] ?? EMPTY_PROGRESS;
+
+// Sections marked for review are not done yet, so only read and mastered ones count
+export const isSectionComplete = (section: SectionProgress | undefined) =>
+  section !== undefined && section.status !== 'review';
+
+export const completionPercent = ({ sectionCount, sections }: DocumentProgress): number => {
+  if (sectionCount === 0) return 0;
+  const complete = Object.values(sections).filter(isSectionComplete).length;
+  return Math.min(100, Math.round((complete / sectionCount) * 100));
+};
+
+// Order the status control steps through; undefined clears the section
+export const nextSectionStatus = (status: SectionStatus | undefined): SectionStatus | undefined =>
+  status === undefined ? 'read' : status === 'read' ? 'review' : status === 'review' ? 'mastered' : undefined;
+
+export const setSectionStatus = (
+  progress: Record<string, DocumentProgress>,
+  contentId: string,
+  sectionId: string,
+  status: SectionStatus | undefined,
+  source: SectionProgress['source']
+): Record<string, DocumentProgress> => {
+  const { sectionCount, sections } = documentProgress(progress, contentId);
+  const others = Object.fromEntries(Object.entries(sections).filter(([id]) => id !== sectionId));
+  return {
+    ...progress,
+    [contentId]: {
+      sectionCount,
+      sections: status ? { ...others, [sectionId]: { status, source, updatedAt: new Date().toISOString() } } : others
+    }
+  };
+};
+
+// Record the guide's section count and drop statuses of headings it no longer has, so the
+// percentage stays honest after edits; returns the same object when nothing changed
+export const refreshSectionProgress = (
+  progress: Record<string, DocumentProgress>,
+  contentId: string,
+  sections: DocumentSection[]
+): Record<string, DocumentProgress> => {
+  const current = documentProgress(progress, contentId);
+  const sectionIds = new Set(sections.map(section => section.id));
+  const kept = Object.entries(current.sections).filter(([sectionId]) => sectionIds.has(sectionId));
+  if (current.sectionCount === sections.length && kept.length === Object.keys(current.sections).length) {
+    return progress;
+  }
+  return { ...progress, [contentId]: { sectionCount: sections.length, sections: Object.fromEntries(kept) } };
+};
+
+export const requiredDwellMs = (words: number) =>
+  Math.min(MAX_DWELL_MS, Math.max(MIN_DWELL_MS, (words / WORDS_PER_MINUTE) * 60_000 * 0.5));
+
+// Sections taking up a good part of the viewport: at least half of the section, or half of the
+// screen for sections taller than it. Several short sections can be in view at once.
+const sectionsInView = (sections: DocumentSection[], contentBottom: number): string[] => {
+  const viewportHeight = window.innerHeight;
+  const visible: string[] = [];
+  const tops = sections.map(section => document.getElementById(section.id)?.getBoundingClientRect().top);
+
+  sections.forEach((section, index) => {
+    const top = tops[index];
+    if (top === undefined) return;
+    const bottom = tops.slice(index + 1).find((next): next is number => next !== undefined) ?? contentBottom;
+    const shown = Math.min(bottom, viewportHeight) - Math.max(top, 0);
+    if (shown > 0 && shown >= Math.min(bottom - top, viewportHeight) * 0.5) visible.push(section.id);
+  });
+  return visible;
+};
+
+// Mark sections read once the reader has spent long enough on them. Only the active tab, with
+// a reader who is not idle, accrues time; sections that already have a status keep it.
+export const useSectionDwell = (
+  contentId: string,
+  documentData: Document | null,
+  containerRef: RefObject<HTMLElement>,
+  enabled: boolean
+) => {
+  const dwellRef = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    dwellRef.current = new Map();
+  }, [contentId]);
+
+  useEffect(() => {
+    if (!enabled || !documentData) return;
+    // Counted at build time, up to the next heading of any level
+    const words = new Map(documentData.sections.map(section => [section.id, section.words]));
+    let lastActivity = Date.now();
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+    };
+
+    const tick = () => {
+      const container = containerRef.current;
+      if (!container || document.visibilityState !== 'visible' || !document.hasFocus()) return;
+      if (Date.now() - lastActivity > IDLE_AFTER_MS) return;
+
+      const statuses = documentProgress(getUserState('sectionProgress'), contentId).sections;
+      for (const sectionId of sectionsInView(documentData.sections, container.getBoundingClientRect().bottom)) {
+        if (statuses[sectionId]) continue;
+        const dwell = (dwellRef.current.get(sectionId) ?? 0) + DWELL_TICK_MS;
+        dwellRef.current.set(sectionId, dwell);
+        if (dwell >= requiredDwellMs(words.get(sectionId) ?? 0)) {
+          setUserState('sectionProgress', progress => setSectionStatus(progress, contentId, sectionId, 'read', 'auto'));
+        }
+      }
+    };
+
+    const activityEvents = ['scroll', 'mousemove', 'keydown', 'touchstart'] as const;
+    activityEvents.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+    const timer = setInterval(tick, DWELL_TICK_MS);
+    return () => {
+      clearInterval(timer);
+      activityEvents.forEach(type => window.removeEventListener(type, handleActivity));
+    };
+  }, [contentId, documentData, containerRef, enabled]);
+};
@@ -0,0 +1,270 @@
+import { useEffect, useLayoutEffect, useRef, useState, type RefObject } from 'react';
+import {
+  htmlToText,
+  inlineToText,
+  type BlockNode,
+  type HeadingNode,
+  type ListItemNode,
+  type MarkdownRoot
+} from './markdown';
+import { collectHeadingNodes } from './headingIds';
+import { jumpToOffset, REVEAL_HEADING_EVENT, type RevealHeadingDetail } from './headingScroll';
+
+// Long guides render in section blocks: runs of top-level Markdown blocks, or of the items of one
+// long list, of which only those near the viewport are rendered. The rest stand in as placeholders
+// of their measured height.
+
+export interface SectionBlock {
+  // Top-level nodes from `start` up to `end`
+  start: number;
+  end: number;
+  // For part of a long list, the only node: its items from `from` up to `to`
+  items?: { from: number; to: number };
+  // Headings anywhere in the block, list items included
+  headings: HeadingNode[];
+  // Visible text, for the browser's own find while the block is a placeholder
+  text: string;
+  // Height in pixels to hold until the block has been rendered and measured
+  estimatedHeight: number;
+}
+
+// A new block starts at each top-level heading, or once a block has this much text. Most
+// questions in the 500-question guides are headings inside the items of one list, so lists
+// longer than this are split between their items.
+const MAX_BLOCK_CHARS = 3000;
+// Shorter guides render whole
+const MIN_WINDOWED_CHARS = 60_000;
+// Blocks this far above and below the viewport are rendered too
+const OVERSCAN = '1500px 0px';
+// Rendered before the first visibility report
+const INITIAL_BLOCKS = 3;
+
+// Rough rendered sizes, in pixels, for blocks not measured yet
+const LINE_HEIGHT = 28;
+const CHARS_PER_LINE = 90;
+const CODE_LINE_HEIGHT = 20;
+const BLOCK_GAP = 16;
+
+const blockText = (node: BlockNode): string => {
+  switch (node.type) {
+    case 'heading':
+    case 'paragraph':
+      return inlineToText(node.children);
+    case 'code':
+    case 'math':
+      return node.value;
+    case 'blockquote':
+      return node.children.map(blockText).join('\n');
+    case 'details':
+      return [htmlToText(node.summary), ...node.children.map(blockText)].join('\n');
+    case 'html':
+      return htmlToText(node.value);
+    case 'list':
+      return node.children.map(item => item.children.map(blockText).join('\n')).join('\n');
+    case 'table':
+      return [node.head, ...node.rows].map(row => row.map(cell => inlineToText(cell.children)).join(' ')).join('\n');
+    default:
+      return '';
+  }
+};
+
+const itemText = (item: ListItemNode) => item.children.map(blockText).join('\n');
+
+const estimateHeight = (node: BlockNode): number => {
+  switch (node.type) {
+    case 'code':
+      return node.value.split('\n').length * CODE_LINE_HEIGHT + 3 * BLOCK_GAP;
+    case 'heading':
+      return 2 * LINE_HEIGHT + 3 * BLOCK_GAP;
+    case 'list':
+      return node.children.reduce((total, item) => total + estimateItemHeight(item), 0);
+    default:
+      return Math.ceil(blockText(node).length / CHARS_PER_LINE) * LINE_HEIGHT + BLOCK_GAP;
+  }
+};
+
+const estimateItemHeight = (item: ListItemNode) =>
+  item.children.reduce((total, child) => total + estimateHeight(child), 0);
+
+const appendText = (block: SectionBlock, text: string) => {
+  block.text = block.text ? `${block.text}\n${text}` : text;
+};
+
+export const splitSectionBlocks = (root: MarkdownRoot): SectionBlock[] => {
+  const blocks: SectionBlock[] = [];
+  let current: SectionBlock | null = null;
+  const startBlock = (start: number, items?: SectionBlock['items']) => {
+    const block: SectionBlock = { start, end: items ? start + 1 : start, items, headings: [], text: '', estimatedHeight: 0 };
+    blocks.push(block);
+    return block;
+  };
+
+  root.children.forEach((node, index) => {
+    const text = blockText(node);
+    if (node.type === 'list' && text.length > MAX_BLOCK_CHARS) {
+      let part: SectionBlock | null = null;
+      node.children.forEach((item, itemIndex) => {
+        if (!part || part.text.length >= MAX_BLOCK_CHARS) part = startBlock(index, { from: itemIndex, to: itemIndex });
+        part.items!.to = itemIndex + 1;
+        collectHeadingNodes(item.children, part.headings);
+        appendText(part, itemText(item));
+        part.estimatedHeight += estimateItemHeight(item);
+      });
+      // Whatever follows the list starts a block of its own
+      current = null;
+      return;
+    }
+
+    if (!current || (node.type === 'heading' && current.end > current.start) || current.text.length >= MAX_BLOCK_CHARS) {
+      current = startBlock(index);
+    }
+    current.end = index + 1;
+    collectHeadingNodes([node], current.headings);
+    appendText(current, text);
+    current.estimatedHeight += estimateHeight(node);
+  });
+
+  return blocks;
+};
+
+// The nodes a block renders; part of a long list is a list of its own, numbered on from the part before
+export const sectionBlockNodes = (root: MarkdownRoot, block: SectionBlock): BlockNode[] => {
+  const first = root.children[block.start];
+  if (!block.items || first.type !== 'list') return root.children.slice(block.start, block.end);
+  return [{ ...first, start: first.start + block.items.from, children: first.children.slice(block.items.from, block.items.to) }];
+};
+
+export const isLongDocument = (blocks: SectionBlock[]) =>
+  blocks.length > 1 && blocks.reduce((total, block) => total + block.text.length, 0) >= MIN_WINDOWED_CHARS;
+
+// Heights measured per guide, kept while the page keeps its width
+const measuredHeights = new WeakMap<MarkdownRoot, { width: number; heights: Map<number, number> }>();
+
+const heightsFor = (root: MarkdownRoot) => {
+  let entry = measuredHeights.get(root);
+  if (!entry) {
+    entry = { width: 0, heights: new Map() };
+    measuredHeights.set(root, entry);
+  }
+  return entry;
+};
+
+const blockIndexOf = (element: Element | null) => {
+  const block = element?.closest('[data-section-block]');
+  return block ? Number(block.getAttribute('data-section-block')) : null;
+};
+
+interface WindowState {
+  root: MarkdownRoot;
+  visible: ReadonlySet<number>;
+  // Block brought in for a heading out of view, and the heading to scroll to once it renders
+  revealed: { index: number; headingId: string | null; offset?: number } | null;
+}
+
+const initialState = (root: MarkdownRoot): WindowState => ({
+  root,
+  visible: new Set(Array.from({ length: INITIAL_BLOCKS }, (_, index) => index)),
+  revealed: null
+});
+
+// Which section blocks of `root` to render. The blocks are the children of `containerRef`, marked
+// with `data-section-block`; placeholders also carry `data-section-placeholder`.
+export const useSectionWindow = (
+  containerRef: RefObject<HTMLElement>,
+  root: MarkdownRoot,
+  blockByHeading: Map<string, number>,
+  enabled: boolean
+) => {
+  const [state, setState] = useState<WindowState>(() => initialState(root));
+  const current = state.root === root ? state : initialState(root);
+  const scrolledRevealRef = useRef<WindowState['revealed']>(null);
+
+  // Track which blocks are near the viewport, and measure the rendered ones
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) return;
+    const measured = heightsFor(root);
+    const inView = new Set<number>();
+
+    const intersections = new IntersectionObserver(
+      entries => {
+        for (const entry of entries) {
+          const index = blockIndexOf(entry.target);
+          if (index === null) continue;
+          if (entry.isIntersecting) inView.add(index);
+          else inView.delete(index);
+        }
+        setState(previous => ({ ...(previous.root === root ? previous : initialState(root)), visible: new Set(inView) }));
+      },
+      { rootMargin: OVERSCAN }
+    );
+
+    const sizes = new ResizeObserver(entries => {
+      // Text wraps differently at another width; the blocks report their new heights alongside
+      const width = entries.find(entry => entry.target === container)?.contentRect.width;
+      if (width !== undefined && width !== measured.width) {
+        measured.heights.clear();
+        measured.width = width;
+      }
+      for (const entry of entries) {
+        const index = entry.target === container ? null : blockIndexOf(entry.target);
+        if (index !== null && !entry.target.hasAttribute('data-section-placeholder')) {
+          measured.heights.set(index, entry.contentRect.height);
+        }
+      }
+    });
+
+    sizes.observe(container);
+    container.querySelectorAll(':scope > [data-section-block]').forEach(block => {
+      intersections.observe(block);
+      sizes.observe(block);
+    });
+    return () => {
+      intersections.disconnect();
+      sizes.disconnect();
+    };
+  }, [containerRef, root, enabled]);
+
+  // Headings of placeholders are scrolled to through here (see scrollToHeading), and the browser's
+  // find opens the placeholders it matches in
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) return;
+
+    const reveal = (index: number | undefined | null, headingId: string | null, offset?: number) => {
+      if (index === undefined || index === null) return;
+      setState(previous => ({
+        ...(previous.root === root ? previous : initialState(root)),
+        revealed: { index, headingId, offset }
+      }));
+    };
+    const handleReveal = (event: Event) => {
+      const { id, offset } = (event as CustomEvent<RevealHeadingDetail>).detail;
+      reveal(blockByHeading.get(id), id, offset);
+    };
+    const handleBeforeMatch = (event: Event) => reveal(blockIndexOf(event.target as Element), null);
+
+    container.addEventListener(REVEAL_HEADING_EVENT, handleReveal);
+    container.addEventListener('beforematch', handleBeforeMatch);
+    return () => {
+      container.removeEventListener(REVEAL_HEADING_EVENT, handleReveal);
+      container.removeEventListener('beforematch', handleBeforeMatch);
+    };
+  }, [containerRef, root, blockByHeading, enabled]);
+
+  // Jump, not glide, to a revealed heading: a smooth scroll would render every block on the way
+  useLayoutEffect(() => {
+    const revealed = current.revealed;
+    if (!revealed?.headingId || scrolledRevealRef.current === revealed) return;
+    scrolledRevealRef.current = revealed;
+    const heading = document.getElementById(revealed.headingId);
+    if (heading && revealed.offset !== undefined) jumpToOffset(heading, revealed.offset);
+    else heading?.scrollIntoView();
+  }, [current.revealed]);
+
+  return {
+    isRendered: (index: number) =>
+      !enabled || current.visible.has(index) || current.revealed?.index === index,
+    heightOf: (index: number, block: SectionBlock) => heightsFor(root).heights.get(index) ?? block.estimatedHeight
+  };
+};
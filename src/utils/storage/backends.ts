@@ -0,0 +1,107 @@
+import type { StoredSnapshot } from './schema';
+
+export type StorageBackendName = 'indexeddb' | 'localstorage' | 'memory';
+
+export interface StorageBackend {
+  name: StorageBackendName;
+  readAll: () => Promise<StoredSnapshot>;
+  write: (entries: StoredSnapshot) => Promise<void>;
+}
+
+const DATABASE_NAME = 'study-docs';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'userState';
+// Prefix for the localStorage fallback, one entry per key
+export const LOCAL_STORAGE_PREFIX = 'study-docs:';
+
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22);
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => {
+      const database = request.result;
+      // Let a newer version of the app in another tab upgrade the database
+      database.onversionchange = () => database.close();
+      resolve(database);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+
+export const createIndexedDbBackend = async (): Promise<StorageBackend> => {
+  const database = await openDatabase();
+
+  return {
+    name: 'indexeddb',
+    readAll: async () => {
+      const store = database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const [keys, values] = await Promise.all([promisify(store.getAllKeys()), promisify(store.getAll())]);
+      return Object.fromEntries(keys.map((key, index) => [String(key), values[index]]));
+    },
+    write: entries =>
+      new Promise((resolve, reject) => {
+        const transaction = database.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        Object.entries(entries).forEach(([key, value]) => store.put(value, key));
+        transaction.oncomplete = () => resolve();
+        // Quota failures abort the transaction rather than erroring a single request
+        transaction.onabort = () => reject(transaction.error);
+        transaction.onerror = () => reject(transaction.error);
+      })
+  };
+};
+
+export const createLocalStorageBackend = (): StorageBackend => {
+  // Throws in browsers where storage is disabled, so callers can fall back further
+  const probe = `${LOCAL_STORAGE_PREFIX}probe`;
+  window.localStorage.setItem(probe, '1');
+  window.localStorage.removeItem(probe);
+
+  return {
+    name: 'localstorage',
+    readAll: async () => {
+      const snapshot: StoredSnapshot = {};
+      for (let index = 0; index < window.localStorage.length; index++) {
+        const key = window.localStorage.key(index);
+        if (!key?.startsWith(LOCAL_STORAGE_PREFIX)) continue;
+        try {
+          snapshot[key.slice(LOCAL_STORAGE_PREFIX.length)] = JSON.parse(window.localStorage.getItem(key) ?? 'null');
+        } catch {
+          // A corrupt entry is dropped and replaced by its default
+        }
+      }
+      return snapshot;
+    },
+    write: async entries => {
+      Object.entries(entries).forEach(([key, value]) =>
+        window.localStorage.setItem(`${LOCAL_STORAGE_PREFIX}${key}`, JSON.stringify(value))
+      );
+    }
+  };
+};
+
+// Last resort when the browser refuses both: state lives for this page load only
+export const createMemoryBackend = (): StorageBackend => {
+  const snapshot: StoredSnapshot = {};
+  return {
+    name: 'memory',
+    readAll: async () => ({ ...snapshot }),
+    write: async entries => {
+      Object.assign(snapshot, entries);
+    }
+  };
+};
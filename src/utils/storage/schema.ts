@@ -0,0 +1,341 @@
+import { DEFAULT_CONTENT_ID } from '../router';
+import type { TextAnchor } from '../textAnchors';
+
+// Shape of everything persisted for the reader. Bump SCHEMA_VERSION and add a migration
+// whenever a stored value changes shape; adding a new key with a default needs neither.
+
+export interface NoteRevision {
+  title: string;
+  content: string;
+  tags: string[];
+  // When this version was saved
+  savedAt: string;
+}
+
+export interface StoredNote {
+  id: string;
+  title: string;
+  content: string;
+  // Section the note is about; an empty sectionId anchors it to the whole guide
+  contentId: string;
+  sectionId: string;
+  // Heading text when written, refreshed whenever the guide is opened
+  sectionTitle: string;
+  tags: string[];
+  // ISO timestamps, so notes survive the JSON round trip of the localStorage fallback
+  createdAt: string;
+  updatedAt: string;
+  // Earlier versions, newest first
+  revisions: NoteRevision[];
+}
+
+export interface StoredBookmark {
+  contentId: string;
+  sectionId: string;
+  // Heading text when bookmarked, refreshed whenever the guide is opened
+  title: string;
+  createdAt: string;
+  label?: string;
+  folder?: string;
+}
+
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink', 'purple'] as const;
+export type HighlightColor = (typeof HIGHLIGHT_COLORS)[number];
+
+// A highlighted passage of a guide, optionally with a comment
+export interface StoredHighlight extends TextAnchor {
+  id: string;
+  contentId: string;
+  // Heading text when created, to report highlights whose section is gone
+  sectionTitle: string;
+  color: HighlightColor;
+  comment: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReadingPosition {
+  scrollY: number;
+  // Section the reader was in, when known
+  sectionId: string;
+  // How far past that section's heading the page was scrolled; positions are restored from it,
+  // as long guides do not render every section (see sectionWindow.ts). Missing in older positions.
+  sectionOffset?: number;
+  updatedAt: string;
+}
+
+export const SECTION_STATUSES = ['read', 'review', 'mastered'] as const;
+export type SectionStatus = (typeof SECTION_STATUSES)[number];
+
+export interface SectionProgress {
+  status: SectionStatus;
+  // 'auto' when the reader stayed on the section long enough, 'manual' when they set it
+  source: 'auto' | 'manual';
+  updatedAt: string;
+}
+
+export interface DocumentProgress {
+  // Sections the guide had when last opened, so guides not loaded yet still show a percentage
+  sectionCount: number;
+  sections: Record<string, SectionProgress>;
+}
+
+// Review schedule of one flashcard, kept by SM-2
+export interface FlashcardSchedule {
+  contentId: string;
+  sectionId: string;
+  // Question text when last reviewed, to list due cards before their guide is loaded
+  question: string;
+  ease: number;
+  // Days until the next review
+  interval: number;
+  // Successful reviews in a row
+  repetitions: number;
+  lapses: number;
+  // Local calendar dates, YYYY-MM-DD
+  due: string;
+  introducedOn: string;
+  reviewedAt: string;
+}
+
+export const QUIZ_RATINGS = ['knew', 'partial', 'missed'] as const;
+export type QuizRating = (typeof QUIZ_RATINGS)[number];
+
+// How the reader rated themselves on a question in quiz mode
+export interface QuizAnswer {
+  rating: QuizRating;
+  answeredAt: string;
+}
+
+export const PROBLEM_STATUSES = ['todo', 'attempted', 'solved', 'revisit'] as const;
+export type ProblemStatus = (typeof PROBLEM_STATUSES)[number];
+
+export interface ProblemAttempt {
+  id: string;
+  // Local calendar date, YYYY-MM-DD
+  date: string;
+  minutes: number | null;
+  solved: boolean;
+  notes: string;
+}
+
+// The reader's work on a tracked problem; problems without one are still to do
+export interface ProblemRecord {
+  contentId: string;
+  title: string;
+  status: ProblemStatus;
+  attempts: ProblemAttempt[];
+  notes: string;
+  updatedAt: string;
+}
+
+export interface UserState {
+  isDarkMode: boolean;
+  sidebarOpen: boolean;
+  bookmarks: StoredBookmark[];
+  notes: StoredNote[];
+  highlights: StoredHighlight[];
+  // Last scroll position per guide
+  readingPositions: Record<string, ReadingPosition>;
+  // Guide to reopen when the app starts at /
+  lastContentId: string | null;
+  // Study status per guide and section
+  sectionProgress: Record<string, DocumentProgress>;
+  // Mark sections read once the reader has spent long enough on them
+  autoMarkRead: boolean;
+  // Schedules by card ID; cards never reviewed have none
+  flashcards: Record<string, FlashcardSchedule>;
+  // Guides whose questions are in the daily review
+  flashcardDecks: string[];
+  // Latest quiz rating per guide and question section
+  quizResults: Record<string, Record<string, QuizAnswer>>;
+  // Task-list items the reader checked or unchecked, per guide and item key
+  taskChecks: Record<string, Record<string, boolean>>;
+  hideCompletedTasks: boolean;
+  // Tracker records by problem ID
+  problems: Record<string, ProblemRecord>;
+}
+
+export type UserStateKey = keyof UserState;
+
+export const SCHEMA_VERSION = 4;
+
+export const createDefaultState = (): UserState => ({
+  isDarkMode: false,
+  sidebarOpen: true,
+  bookmarks: [],
+  notes: [],
+  highlights: [],
+  readingPositions: {},
+  lastContentId: null,
+  sectionProgress: {},
+  autoMarkRead: true,
+  flashcards: {},
+  flashcardDecks: [],
+  quizResults: {},
+  taskChecks: {},
+  hideCompletedTasks: false,
+  problems: {}
+});
+
+// Raw stored values by key, before validation
+export type StoredSnapshot = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// migrations[n] upgrades a snapshot written by schema version n - 1 to version n
+export const migrations: Record<number, (snapshot: StoredSnapshot) => StoredSnapshot> = {
+  // v2: bookmarks were bare section IDs shared by every guide. The guide they were made in is
+  // unknown, so they move to the last-read one and take their real titles when it next opens.
+  2: snapshot => {
+    const { bookmarks, lastContentId } = snapshot;
+    if (!Array.isArray(bookmarks)) return snapshot;
+    const contentId = typeof lastContentId === 'string' ? lastContentId : DEFAULT_CONTENT_ID;
+    const createdAt = new Date().toISOString();
+    return {
+      ...snapshot,
+      bookmarks: bookmarks
+        .filter((sectionId): sectionId is string => typeof sectionId === 'string')
+        .map((sectionId): StoredBookmark => ({ contentId, sectionId, title: sectionId, createdAt }))
+    };
+  },
+  // v3: notes named their section in free text. It cannot be matched to a heading reliably,
+  // so notes move to the last-read guide as a whole and keep the text as their section title.
+  3: snapshot => {
+    const { notes, lastContentId } = snapshot;
+    if (!Array.isArray(notes)) return snapshot;
+    const contentId = typeof lastContentId === 'string' ? lastContentId : DEFAULT_CONTENT_ID;
+    return {
+      ...snapshot,
+      notes: notes.filter(isPlainObject).map(({ section, ...note }) => ({
+        ...note,
+        contentId,
+        sectionId: '',
+        sectionTitle: typeof section === 'string' ? section : ''
+      }))
+    };
+  },
+  // v4: notes keep their earlier versions
+  4: snapshot => {
+    const { notes } = snapshot;
+    if (!Array.isArray(notes)) return snapshot;
+    return { ...snapshot, notes: notes.map(note => (isPlainObject(note) ? { ...note, revisions: [] } : note)) };
+  }
+};
+
+const isBookmark = (value: unknown): value is StoredBookmark =>
+  isPlainObject(value) &&
+  typeof value.contentId === 'string' &&
+  typeof value.sectionId === 'string' &&
+  typeof value.title === 'string';
+
+const isNote = (value: unknown): value is StoredNote =>
+  isPlainObject(value) &&
+  ['id', 'title', 'content', 'contentId', 'sectionId', 'sectionTitle', 'createdAt', 'updatedAt'].every(
+    key => typeof value[key] === 'string'
+  ) &&
+  Array.isArray(value.tags) &&
+  Array.isArray(value.revisions);
+
+const isHighlight = (value: unknown): value is StoredHighlight =>
+  isPlainObject(value) &&
+  ['id', 'contentId', 'sectionId', 'sectionTitle', 'exact', 'prefix', 'suffix', 'comment', 'createdAt', 'updatedAt'].every(
+    key => typeof value[key] === 'string'
+  ) &&
+  typeof value.start === 'number' &&
+  typeof value.end === 'number' &&
+  HIGHLIGHT_COLORS.includes(value.color as HighlightColor);
+
+const isSectionProgress = (value: unknown): value is SectionProgress =>
+  isPlainObject(value) &&
+  SECTION_STATUSES.includes(value.status as SectionStatus) &&
+  (value.source === 'auto' || value.source === 'manual') &&
+  typeof value.updatedAt === 'string';
+
+const isFlashcardSchedule = (value: unknown): value is FlashcardSchedule =>
+  isPlainObject(value) &&
+  ['contentId', 'sectionId', 'question', 'due', 'introducedOn', 'reviewedAt'].every(key => typeof value[key] === 'string') &&
+  ['ease', 'interval', 'repetitions', 'lapses'].every(key => typeof value[key] === 'number');
+
+const isQuizAnswer = (value: unknown): value is QuizAnswer =>
+  isPlainObject(value) && QUIZ_RATINGS.includes(value.rating as QuizRating) && typeof value.answeredAt === 'string';
+
+const isProblemAttempt = (value: unknown): value is ProblemAttempt =>
+  isPlainObject(value) &&
+  ['id', 'date', 'notes'].every(key => typeof value[key] === 'string') &&
+  (value.minutes === null || typeof value.minutes === 'number') &&
+  typeof value.solved === 'boolean';
+
+const isProblemRecord = (value: unknown): value is ProblemRecord =>
+  isPlainObject(value) &&
+  ['contentId', 'title', 'notes', 'updatedAt'].every(key => typeof value[key] === 'string') &&
+  PROBLEM_STATUSES.includes(value.status as ProblemStatus) &&
+  Array.isArray(value.attempts);
+
+// Stored values that no longer match the default's shape fall back to the default
+export const sanitizeState = (snapshot: StoredSnapshot): UserState => {
+  const state = createDefaultState();
+  const target = state as unknown as Record<string, unknown>;
+
+  for (const key of Object.keys(state) as UserStateKey[]) {
+    const value = snapshot[key];
+    const fallback = target[key];
+    const valid =
+      value !== undefined &&
+      (fallback === null
+        ? value === null || typeof value === 'string'
+        : Array.isArray(fallback)
+          ? Array.isArray(value)
+          : isPlainObject(fallback)
+            ? isPlainObject(value)
+            : typeof value === typeof fallback);
+    if (valid) target[key] = value;
+  }
+  // Lists render every entry, so one malformed entry is dropped instead of breaking the view
+  state.bookmarks = state.bookmarks.filter(isBookmark);
+  state.notes = state.notes.filter(isNote);
+  state.highlights = state.highlights.filter(isHighlight);
+  state.flashcards = Object.fromEntries(
+    Object.entries(state.flashcards).filter(([, schedule]) => isFlashcardSchedule(schedule))
+  );
+  state.flashcardDecks = state.flashcardDecks.filter(contentId => typeof contentId === 'string');
+  state.quizResults = Object.fromEntries(
+    Object.entries(state.quizResults)
+      .filter(([, answers]) => isPlainObject(answers))
+      .map(([contentId, answers]) => [
+        contentId,
+        Object.fromEntries(Object.entries(answers).filter(([, answer]) => isQuizAnswer(answer)))
+      ])
+  );
+  state.taskChecks = Object.fromEntries(
+    Object.entries(state.taskChecks)
+      .filter(([, checks]) => isPlainObject(checks))
+      .map(([contentId, checks]) => [
+        contentId,
+        Object.fromEntries(Object.entries(checks).filter(([, checked]) => typeof checked === 'boolean'))
+      ])
+  );
+  state.problems = Object.fromEntries(
+    Object.entries(state.problems)
+      .filter(([, record]) => isProblemRecord(record))
+      .map(([id, record]) => [id, { ...record, attempts: record.attempts.filter(isProblemAttempt) }])
+  );
+  state.sectionProgress = Object.fromEntries(
+    Object.entries(state.sectionProgress)
+      .filter(([, progress]) => isPlainObject(progress) && typeof progress.sectionCount === 'number')
+      .map(([contentId, progress]) => [
+        contentId,
+        {
+          sectionCount: progress.sectionCount,
+          sections: Object.fromEntries(
+            Object.entries(isPlainObject(progress.sections) ? progress.sections : {}).filter(([, section]) =>
+              isSectionProgress(section)
+            )
+          )
+        }
+      ])
+  );
+
+  return state;
+};
@@ -0,0 +1,213 @@
+import { useCallback, useSyncExternalStore, type SetStateAction } from 'react';
+import {
+  createIndexedDbBackend,
+  createLocalStorageBackend,
+  createMemoryBackend,
+  isQuotaError,
+  LOCAL_STORAGE_PREFIX,
+  type StorageBackend,
+  type StorageBackendName
+} from './backends';
+import {
+  createDefaultState,
+  migrations,
+  sanitizeState,
+  SCHEMA_VERSION,
+  type StoredSnapshot,
+  type UserState,
+  type UserStateKey
+} from './schema';
+
+export interface StorageStatus {
+  backend: StorageBackendName;
+  // 'quota': the browser is out of space, recent changes only live in this tab
+  // 'newer-version': another tab runs a newer app whose data this one must not overwrite
+  // 'unreadable': saved data could not be loaded, so this tab must not overwrite it either
+  // 'failed': writing failed for another reason
+  error: 'quota' | 'newer-version' | 'unreadable' | 'failed' | null;
+}
+
+type SyncMessage = { type: 'changed'; sourceId: string; entries: Partial<UserState> };
+
+const VERSION_KEY = 'schemaVersion';
+const CHANNEL_NAME = 'study-docs-user-state';
+// Batch rapid changes (typing a note, scrolling) into one write
+const WRITE_DELAY_MS = 250;
+
+let state: UserState = createDefaultState();
+let backend: StorageBackend = createMemoryBackend();
+let status: StorageStatus = { backend: backend.name, error: null };
+let hydration: Promise<void> | null = null;
+let channel: BroadcastChannel | null = null;
+let writeTimer: ReturnType<typeof setTimeout> | undefined;
+const pendingKeys = new Set<UserStateKey>();
+const keyListeners = new Map<UserStateKey, Set<() => void>>();
+const statusListeners = new Set<() => void>();
+// Lets a tab ignore its own broadcasts
+const tabId = Math.random().toString(36).slice(2);
+
+const notifyKey = (key: UserStateKey) => keyListeners.get(key)?.forEach(listener => listener());
+
+const setStatus = (next: StorageStatus) => {
+  if (next.backend === status.backend && next.error === status.error) return;
+  status = next;
+  statusListeners.forEach(listener => listener());
+};
+
+// Apply values that another tab already persisted
+const applyRemote = (entries: Partial<UserState>) => {
+  const updates = sanitizeState({ ...state, ...entries });
+  for (const key of Object.keys(entries) as UserStateKey[]) {
+    if (!(key in updates) || pendingKeys.has(key)) continue;
+    state = { ...state, [key]: updates[key] };
+    notifyKey(key);
+  }
+};
+
+const flush = async () => {
+  clearTimeout(writeTimer);
+  writeTimer = undefined;
+  // Writes replace whole keys, so a tab that never saw the stored values would erase them
+  if (pendingKeys.size === 0 || status.error === 'newer-version' || status.error === 'unreadable') return;
+
+  const keys = [...pendingKeys];
+  pendingKeys.clear();
+  const entries = Object.fromEntries(keys.map(key => [key, state[key]])) as Partial<UserState>;
+
+  try {
+    await backend.write(entries);
+    setStatus({ backend: backend.name, error: null });
+    channel?.postMessage({ type: 'changed', sourceId: tabId, entries } satisfies SyncMessage);
+  } catch (error) {
+    console.error('Failed to save user state:', error);
+    // Keep the keys dirty so the next change retries them
+    keys.forEach(key => pendingKeys.add(key));
+    setStatus({ backend: backend.name, error: isQuotaError(error) ? 'quota' : 'failed' });
+  }
+};
+
+const scheduleWrite = () => {
+  if (writeTimer === undefined) writeTimer = setTimeout(flush, WRITE_DELAY_MS);
+};
+
+// Upgrade a stored snapshot to the current schema, one version at a time
+const migrate = (snapshot: StoredSnapshot, fromVersion: number): StoredSnapshot => {
+  let migrated = snapshot;
+  for (let version = fromVersion + 1; version <= SCHEMA_VERSION; version++) {
+    const migration = migrations[version];
+    if (migration) migrated = migration(migrated);
+  }
+  return migrated;
+};
+
+const openBackend = async (): Promise<StorageBackend> => {
+  try {
+    if (typeof indexedDB !== 'undefined') return await createIndexedDbBackend();
+  } catch (error) {
+    console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+  }
+  try {
+    return createLocalStorageBackend();
+  } catch (error) {
+    console.warn('localStorage unavailable, changes will not be saved:', error);
+    return createMemoryBackend();
+  }
+};
+
+const listenForOtherTabs = () => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+      if (event.data?.type === 'changed' && event.data.sourceId !== tabId) applyRemote(event.data.entries);
+    };
+    return;
+  }
+
+  // Without BroadcastChannel, localStorage writes still announce themselves to other tabs
+  if (backend.name !== 'localstorage') return;
+  window.addEventListener('storage', event => {
+    if (!event.key?.startsWith(LOCAL_STORAGE_PREFIX) || event.newValue === null) return;
+    try {
+      applyRemote({ [event.key.slice(LOCAL_STORAGE_PREFIX.length)]: JSON.parse(event.newValue) });
+    } catch {
+      // Ignore entries written by something else
+    }
+  });
+};
+
+// Load persisted state once, before the first render, so the UI never flashes defaults
+export const hydrateUserState = (): Promise<void> => {
+  hydration ??= (async () => {
+    backend = await openBackend();
+    let error: StorageStatus['error'] = null;
+
+    try {
+      const snapshot = await backend.readAll();
+      const storedVersion = typeof snapshot[VERSION_KEY] === 'number' ? (snapshot[VERSION_KEY] as number) : null;
+
+      if (storedVersion !== null && storedVersion > SCHEMA_VERSION) {
+        error = 'newer-version';
+        state = sanitizeState(snapshot);
+      } else {
+        const migrated = storedVersion === null ? snapshot : migrate(snapshot, storedVersion);
+        state = sanitizeState(migrated);
+        if (storedVersion !== SCHEMA_VERSION) {
+          await backend.write({ ...state, [VERSION_KEY]: SCHEMA_VERSION });
+        }
+      }
+    } catch (readError) {
+      console.error('Failed to load user state:', readError);
+      error = 'unreadable';
+    }
+
+    setStatus({ backend: backend.name, error });
+    listenForOtherTabs();
+    // Do not lose the last batch when the tab goes away
+    window.addEventListener('pagehide', () => void flush());
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') void flush();
+    });
+  })();
+  return hydration;
+};
+
+export const getUserState = <K extends UserStateKey>(key: K): UserState[K] => state[key];
+
+export const setUserState = <K extends UserStateKey>(key: K, value: SetStateAction<UserState[K]>) => {
+  const next = typeof value === 'function' ? (value as (previous: UserState[K]) => UserState[K])(state[key]) : value;
+  if (Object.is(next, state[key])) return;
+  state = { ...state, [key]: next };
+  notifyKey(key);
+  pendingKeys.add(key);
+  scheduleWrite();
+};
+
+export const subscribeUserState = (key: UserStateKey, listener: () => void) => {
+  let listeners = keyListeners.get(key);
+  if (!listeners) keyListeners.set(key, (listeners = new Set()));
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Drop-in replacement for useState whose value is persisted and shared between tabs
+export const useUserState = <K extends UserStateKey>(key: K) => {
+  const value = useSyncExternalStore(
+    useCallback((listener: () => void) => subscribeUserState(key, listener), [key]),
+    () => state[key]
+  );
+  const setValue = useCallback((next: SetStateAction<UserState[K]>) => setUserState(key, next), [key]);
+  return [value, setValue] as const;
+};
+
+export const useStorageStatus = (): StorageStatus =>
+  useSyncExternalStore(
+    listener => {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+    () => status
+  );
@@ -0,0 +1,120 @@
+import { inlineToText, type BlockNode, type HeadingNode, type ListItemNode, type MarkdownRoot } from './markdown';
+import { collectHeadings, slugify } from './headingIds';
+
+// A GFM task-list item (`- [ ] ...`) of a guide
+export interface TaskItem {
+  // Section and text of the item, so checks survive items being added or moved elsewhere
+  key: string;
+  sectionId: string;
+  text: string;
+  // Zero-based source line of the item
+  line: number;
+  // As written in the guide, before the reader's checks
+  checked: boolean;
+}
+
+export interface TaskEntry extends TaskItem {
+  node: ListItemNode;
+}
+
+export interface TaskCount {
+  done: number;
+  total: number;
+  // Items under the heading, its subsections included
+  keys: string[];
+}
+
+const MAX_KEY_TEXT = 80;
+
+// Task items and headings in document order, walking into lists and blockquotes
+const collectNodes = (blocks: BlockNode[], nodes: (HeadingNode | ListItemNode)[]) => {
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      nodes.push(block);
+    } else if (block.type === 'blockquote' || block.type === 'details') {
+      collectNodes(block.children, nodes);
+    } else if (block.type === 'list') {
+      for (const item of block.children) {
+        if (item.checked !== undefined) nodes.push(item);
+        collectNodes(item.children, nodes);
+      }
+    }
+  }
+  return nodes;
+};
+
+const itemText = (item: ListItemNode) => {
+  const first = item.children[0];
+  return first?.type === 'paragraph' ? inlineToText(first.children).replace(/\s+/g, ' ').trim() : '';
+};
+
+export const collectTaskItems = (root: MarkdownRoot): TaskEntry[] => {
+  const headingIds = new Map(collectHeadings(root).map(heading => [heading.node, heading.id]));
+  const occurrences = new Map<string, number>();
+  const tasks: TaskEntry[] = [];
+  let sectionId = '';
+
+  for (const node of collectNodes(root.children, [])) {
+    if (node.type === 'heading') {
+      sectionId = headingIds.get(node) ?? sectionId;
+      continue;
+    }
+    const text = itemText(node);
+    const base = `${sectionId}/${slugify(text).slice(0, MAX_KEY_TEXT) || 'item'}`;
+    const count = occurrences.get(base) ?? 0;
+    occurrences.set(base, count + 1);
+    tasks.push({
+      key: count === 0 ? base : `${base}-${count}`,
+      sectionId,
+      text,
+      line: node.line,
+      checked: node.checked ?? false,
+      node
+    });
+  }
+
+  return tasks;
+};
+
+export const isTaskChecked = (task: TaskItem, checks: Record<string, boolean>) => checks[task.key] ?? task.checked;
+
+// Done and total items per heading, counting the items of its subsections too
+export const countTasksBySection = (
+  sections: { id: string; level: number }[],
+  tasks: TaskItem[],
+  checks: Record<string, boolean>
+): Map<string, TaskCount> => {
+  const counts = new Map<string, TaskCount>();
+  const parents = new Map<string, string[]>();
+  const stack: { id: string; level: number }[] = [];
+
+  for (const section of sections) {
+    while (stack.length > 0 && stack[stack.length - 1].level >= section.level) stack.pop();
+    stack.push(section);
+    parents.set(section.id, stack.map(entry => entry.id));
+  }
+
+  for (const task of tasks) {
+    for (const sectionId of parents.get(task.sectionId) ?? []) {
+      const count = counts.get(sectionId) ?? { done: 0, total: 0, keys: [] };
+      count.total++;
+      if (isTaskChecked(task, checks)) count.done++;
+      count.keys.push(task.key);
+      counts.set(sectionId, count);
+    }
+  }
+
+  return counts;
+};
+
+// The guide's Markdown with each item's box showing the reader's checks
+export const exportTaskList = (content: string, tasks: TaskItem[], checks: Record<string, boolean>): string => {
+  const lines = content.split('\n');
+  for (const task of tasks) {
+    lines[task.line] = lines[task.line]?.replace(
+      /^((?:\s*>)*\s*(?:[-+*]|\d{1,9}[.)])\s+)\[[ xX]\]/,
+      `$1[${isTaskChecked(task, checks) ? 'x' : ' '}]`
+    );
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,163 @@
+// Anchors for passages of rendered Markdown: a text quote with some context plus its position
+// within the section, so a passage is still found after edits move or partly rewrite it.
+
+export interface TextAnchor {
+  // Section whose heading precedes the passage; '' before the first heading
+  sectionId: string;
+  exact: string;
+  prefix: string;
+  suffix: string;
+  // Offsets from the start of the section's text; the passage may run into later sections
+  start: number;
+  end: number;
+}
+
+export interface TextModel {
+  nodes: Text[];
+  // Offset of each node's text within `text`
+  offsets: number[];
+  text: string;
+  // Where each section's text starts, by heading ID
+  sectionStarts: Map<string, number>;
+}
+
+// Same exclusions as find in document: controls, line numbers, KaTeX's MathML copy
+const IGNORED_SELECTOR = 'button, input, textarea, [aria-hidden="true"], .katex-mathml, [data-find-ignore]';
+const HEADING_SELECTOR = 'h1[id], h2[id], h3[id], h4[id], h5[id], h6[id]';
+const CONTEXT_LENGTH = 32;
+// Give up on quotes this common; they would be placed by guesswork
+const MAX_CANDIDATES = 200;
+
+// Changes to this node leave the text model as it was
+export const isOutsideTextModel = (node: Node) => {
+  const element = node instanceof Element ? node : node.parentElement;
+  return element?.closest(IGNORED_SELECTOR) != null;
+};
+
+export const buildTextModel = (root: Element): TextModel => {
+  const model: TextModel = { nodes: [], offsets: [], text: '', sectionStarts: new Map([['', 0]]) };
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+    acceptNode: node =>
+      node instanceof Element && node.matches(IGNORED_SELECTOR) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT
+  });
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node instanceof Element) {
+      if (node.matches(HEADING_SELECTOR) && !model.sectionStarts.has(node.id)) {
+        model.sectionStarts.set(node.id, model.text.length);
+      }
+      continue;
+    }
+    const text = node as Text;
+    if (!text.data) continue;
+    model.nodes.push(text);
+    model.offsets.push(model.text.length);
+    model.text += text.data;
+  }
+
+  return model;
+};
+
+// Index of the node holding `position`; ends prefer the node they close over the next one
+const nodeIndexAt = (model: TextModel, position: number, isEnd: boolean) => {
+  let low = 0;
+  let high = model.offsets.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    const offset = model.offsets[middle];
+    if (offset < position || (!isEnd && offset === position)) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+};
+
+const createRange = (model: TextModel, start: number, end: number): Range => {
+  const startIndex = nodeIndexAt(model, start, false);
+  const endIndex = nodeIndexAt(model, end, true);
+  const range = document.createRange();
+  range.setStart(model.nodes[startIndex], start - model.offsets[startIndex]);
+  range.setEnd(model.nodes[endIndex], end - model.offsets[endIndex]);
+  return range;
+};
+
+// Section a text position falls in
+const sectionAt = (model: TextModel, position: number): [string, number] => {
+  let found: [string, number] = ['', 0];
+  for (const [sectionId, start] of model.sectionStarts) {
+    if (start <= position && start >= found[1]) found = [sectionId, start];
+  }
+  return found;
+};
+
+// Describe a selection; null when it holds no document text
+export const describeRange = (model: TextModel, range: Range): TextAnchor | null => {
+  let start = -1;
+  let end = -1;
+
+  model.nodes.forEach((node, index) => {
+    if (!range.intersectsNode(node)) return;
+    const offset = model.offsets[index];
+    if (start === -1) start = offset + (node === range.startContainer ? range.startOffset : 0);
+    end = offset + (node === range.endContainer ? range.endOffset : node.data.length);
+  });
+
+  if (start === -1 || end <= start || !model.text.slice(start, end).trim()) return null;
+
+  const [sectionId, sectionStart] = sectionAt(model, start);
+  return {
+    sectionId,
+    exact: model.text.slice(start, end),
+    prefix: model.text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: model.text.slice(end, end + CONTEXT_LENGTH),
+    start: start - sectionStart,
+    end: end - sectionStart
+  };
+};
+
+// Characters shared by the end of `a` and the end of `b`
+const commonSuffixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+};
+
+const commonPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+};
+
+// Find an anchored passage again; null when its text is gone, so the caller can report it as stale
+export const resolveAnchor = (model: TextModel, anchor: TextAnchor): Range | null => {
+  const sectionStart = model.sectionStarts.get(anchor.sectionId);
+  const expected = sectionStart === undefined ? null : sectionStart + anchor.start;
+
+  // Unchanged text: the stored position still holds the quote
+  if (expected !== null && model.text.slice(expected, expected + anchor.exact.length) === anchor.exact) {
+    return createRange(model, expected, expected + anchor.exact.length);
+  }
+
+  // Otherwise the occurrence with the most matching context wins, then the one nearest the old position
+  let best: { position: number; context: number; score: number } | null = null;
+  let candidates = 0;
+  for (
+    let position = model.text.indexOf(anchor.exact);
+    position !== -1;
+    position = model.text.indexOf(anchor.exact, position + 1)
+  ) {
+    if (++candidates > MAX_CANDIDATES) return null;
+    const context =
+      commonSuffixLength(model.text.slice(Math.max(0, position - anchor.prefix.length), position), anchor.prefix) +
+      commonPrefixLength(
+        model.text.slice(position + anchor.exact.length, position + anchor.exact.length + anchor.suffix.length),
+        anchor.suffix
+      );
+    const distance = expected === null ? 0 : Math.abs(position - expected) / Math.max(1, model.text.length);
+    const score = context - distance;
+    if (!best || score > best.score) best = { position, context, score };
+  }
+
+  // A repeated quote with neither its context nor its section left cannot be told apart
+  if (!best || (candidates > 1 && best.context === 0 && expected === null)) return null;
+  return createRange(model, best.position, best.position + anchor.exact.length);
+};
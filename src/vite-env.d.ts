@@ -1,7 +1,6 @@
 /// <reference types="vite/client" />
 
-// Markdown file declarations
-declare module '*.md?raw' {
-  const content: string;
-  export default content;
+// Guide catalog built from the front matter in src/readmes (plugins/contentCatalog.ts)
+declare module 'virtual:content-catalog' {
+  export const contentItems: import('./utils/catalog').ContentItem[];
 }
@@ -0,0 +1,48 @@
+import { contentItems } from 'virtual:content-catalog';
+import { buildSearchIndex, searchDocumentsIndex, type SearchFragment } from '../utils/search/searchIndex';
+import { QueryParseError } from '../utils/search/queryParser';
+import type { SearchWorkerRequest, SearchWorkerResponse } from '../utils/search/searchClient';
+
+// The app compiles against the DOM lib, so type the worker scope by hand
+const scope = self as unknown as {
+  postMessage: (message: SearchWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<SearchWorkerRequest>) => void) | null;
+};
+
+// The index covers every guide, so the worker bundles the index fragments of them all, worked out
+// at build time by plugins/guideCompiler.ts
+const fragments = import.meta.glob<SearchFragment>('../readmes/*.md', { query: '?search', import: 'default', eager: true });
+
+const startedAt = performance.now();
+const index = buildSearchIndex(
+  contentItems
+    .filter(item => `../readmes/${item.filename}` in fragments)
+    .map(item => ({
+      id: item.id,
+      title: item.title,
+      fragment: fragments[`../readmes/${item.filename}`]
+    }))
+);
+
+scope.postMessage({
+  type: 'ready',
+  documentCount: new Set(index.sections.map(section => section.docId)).size,
+  sectionCount: index.sections.length,
+  elapsed: performance.now() - startedAt
+});
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  const requestStart = performance.now();
+  try {
+    const hits = searchDocumentsIndex(index, request.query, request.limit);
+    scope.postMessage({ type: 'results', requestId: request.requestId, hits, elapsed: performance.now() - requestStart });
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : String(error),
+      ...(error instanceof QueryParseError ? { start: error.start, end: error.end } : {})
+    });
+  }
+};
@@ -0,0 +1,134 @@
+import type { ServiceWorkerMessage, ServiceWorkerRequest } from '../utils/offline';
+
+// Keeps the app shell and every guide in a cache named after the build, so a new build starts
+// from a fresh cache and the old one is dropped once it takes over. Built on its own by
+// plugins/serviceWorker.ts, which fills in the constants below; it can only import types.
+
+// Hash of everything the build precaches
+declare const BUILD_VERSION: string;
+// Files of the app itself, relative to the scope; index.html serves every page
+declare const SHELL_FILES: string[];
+// Chunk of each guide by file name
+declare const GUIDE_CHUNKS: Record<string, string>;
+
+// Service worker events are not in the DOM lib the app compiles against, so type them by hand
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface ExtendableMessageEvent extends ExtendableEvent {
+  data: ServiceWorkerRequest;
+  source: { postMessage(message: ServiceWorkerMessage): void } | null;
+}
+
+const scope = self as unknown as {
+  registration: { scope: string };
+  clients: {
+    claim(): Promise<void>;
+    matchAll(): Promise<{ postMessage(message: ServiceWorkerMessage): void }[]>;
+  };
+  skipWaiting(): Promise<void>;
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'message', listener: (event: ExtendableMessageEvent) => void): void;
+};
+
+const CACHE_PREFIX = 'study-docs-';
+const CACHE_NAME = `${CACHE_PREFIX}${BUILD_VERSION}`;
+// Web fonts outlive builds, so they get a cache of their own
+const FONT_CACHE_NAME = `${CACHE_PREFIX}fonts`;
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+const toUrl = (file: string) => new URL(file, scope.registration.scope).href;
+const SHELL_URL = toUrl('index.html');
+const shellUrls = new Set(SHELL_FILES.map(toUrl));
+const guideUrls = new Map(Object.entries(GUIDE_CHUNKS).map(([filename, chunk]) => [toUrl(chunk), filename]));
+
+const offlineGuides = async (): Promise<ServiceWorkerMessage> => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await Promise.all([...guideUrls].map(async ([url, filename]) => ((await cache.match(url)) ? filename : null)));
+  return { type: 'offline-guides', filenames: cached.filter((filename): filename is string => filename !== null) };
+};
+
+const announceOfflineGuides = async () => {
+  const message = await offlineGuides();
+  (await scope.clients.matchAll()).forEach(client => client.postMessage(message));
+};
+
+// The shell has to be complete; a guide that fails to download is fetched again when it is opened
+scope.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then(async cache => {
+      await cache.addAll([...shellUrls]);
+      await Promise.allSettled([...guideUrls.keys()].map(url => cache.add(url)));
+    })
+  );
+});
+
+scope.addEventListener('activate', event => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME && name !== FONT_CACHE_NAME)
+          .map(name => caches.delete(name))
+      );
+      await scope.clients.claim();
+      await announceOfflineGuides();
+    })()
+  );
+});
+
+scope.addEventListener('message', event => {
+  if (event.data.type === 'skip-waiting') {
+    event.waitUntil(scope.skipWaiting());
+  } else if (event.data.type === 'offline-guides') {
+    event.waitUntil(offlineGuides().then(message => event.source?.postMessage(message)));
+  }
+});
+
+const fromCache = async (request: Request, url: string) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(url);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok && (shellUrls.has(url) || guideUrls.has(url))) {
+    await cache.put(url, response.clone());
+    if (guideUrls.has(url)) announceOfflineGuides();
+  }
+  return response;
+};
+
+// Fonts show from the cache at once and are refreshed behind it
+const fromFontCache = async (request: Request) => {
+  const cache = await caches.open(FONT_CACHE_NAME);
+  const cached = await cache.match(request);
+  const refreshed = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached ?? Response.error());
+  return cached ?? refreshed;
+};
+
+scope.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Routes are the app's own (see utils/router.ts), so every page is index.html
+  if (request.mode === 'navigate' && url.href.startsWith(scope.registration.scope)) {
+    event.respondWith(fromCache(request, SHELL_URL));
+  } else if (shellUrls.has(url.href) || guideUrls.has(url.href)) {
+    event.respondWith(fromCache(request, url.href));
+  } else if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(fromFontCache(request));
+  }
+});
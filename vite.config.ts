@@ -1,9 +1,23 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { contentCatalog } from './plugins/contentCatalog';
+import { guideCompiler } from './plugins/guideCompiler';
+import { serviceWorker } from './plugins/serviceWorker';
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  // The catalog plugin has to see guide edits before the compiler, see plugins/guideCompiler.ts
+  // The service worker is emitted last, once it can list every file of the build
+  plugins: [
+    contentCatalog('src/readmes'),
+    guideCompiler('src/readmes'),
+    react(),
+    serviceWorker('src/workers/serviceWorker.ts'),
+  ],
+  // The search worker is bundled on its own and reads the catalog and the guides' index fragments
+  worker: {
+    plugins: () => [contentCatalog('src/readmes'), guideCompiler('src/readmes')],
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },